@@ -1,14 +1,18 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate, useParams } from 'react-router-dom';
 import NavBar from './components/NavBar';
 import StepsBar from './components/StepsBar';
 import ChatPane from './components/chat/ChatPane';
 import EntityPane from './components/EntityPane';
 import FindingsPane from './components/FindingsPane';
+import ConflictDialog from './components/ConflictDialog';
 import { StepsProvider, useSteps } from './context/StepsContext';
 import { SettingsProvider } from './context/SettingsContext';
 import { WebSocketStepsProvider } from './context/WebSocketStepsContext';
 import { EntityProvider } from './context/EntityContext';
+import { EntityPersistenceOptions, IndexedDBPersistenceAdapter } from './middleware/EntityPersistence';
+import { TabSync } from './middleware/TabSync';
+import { EntityQueryResponder } from './middleware/EntityQueryResponder';
 import { POA_ROUTE_PATTERN, getFirstStepUrl, getStepUrlBySlug } from './modules/poa/steps';
 
 const MainLayout: React.FC = () => {
@@ -16,6 +20,9 @@ const MainLayout: React.FC = () => {
   const [mobileChatOpen, setMobileChatOpen] = useState(false);
   const [mobileFindingsOpen, setMobileFindingsOpen] = useState(false);
 
+  // Agents can ask for filtered entity state with QueryEntities metadata
+  useEffect(() => EntityQueryResponder.getInstance().start(), []);
+
   return (
     <div className="flex flex-col h-screen">
       {/* Top navigation */}
@@ -48,6 +55,9 @@ const MainLayout: React.FC = () => {
         </div>
       </div>
 
+      {/* Agent updates that clash with local edits */}
+      <ConflictDialog />
+
       {/* Mobile chat overlay */}
       <div
         className={`sm:hidden fixed inset-y-0 left-0 w-4/5 max-w-xs bg-white shadow-lg z-30 transform transition-transform duration-300 ${mobileChatOpen ? 'translate-x-0' : '-translate-x-full'}`}
@@ -109,6 +119,20 @@ const MainLayout: React.FC = () => {
   );
 };
 
+// Documents and audit results survive a reload; stale ones are refetched from the agent
+const DAY = 24 * 60 * 60 * 1000;
+const entityPersistence: EntityPersistenceOptions = {
+  adapter: new IndexedDBPersistenceAdapter(),
+  policies: {
+    poa_document: { ttlMs: 7 * DAY },
+    audit_result: { ttlMs: 7 * DAY, maxEntries: 50 }
+  },
+  defaultPolicy: { ttlMs: 30 * DAY }
+};
+
+// Tabs showing the app share entities, chat and a single set of agent connections
+const tabSync = TabSync.getInstance();
+
 // Backward compatibility redirect component
 const LegacyRedirect: React.FC = () => {
   const { stepSlug } = useParams<{ stepSlug: string }>();
@@ -120,8 +144,8 @@ const LegacyRedirect: React.FC = () => {
 
 const PowerOfAttorneyWorkflow: React.FC = () => (
   <StepsProvider>
-    <EntityProvider>
-      <WebSocketStepsProvider>
+    <EntityProvider persistence={entityPersistence} tabSync={tabSync}>
+      <WebSocketStepsProvider tabSync={tabSync}>
         <MainLayout />
       </WebSocketStepsProvider>
     </EntityProvider>
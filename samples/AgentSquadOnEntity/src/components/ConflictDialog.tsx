@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import Modal from './Modal';
+import { useEntityConflicts } from '../context/EntityContext';
+
+type FieldChoice = 'local' | 'remote';
+
+const formatValue = (value: any): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  const json = JSON.stringify(value, null, 2);
+  return json.length > 400 ? `${json.slice(0, 400)}…` : json;
+};
+
+/**
+ * Shows the oldest unresolved entity conflict and lets the user keep their version,
+ * take the incoming one, or pick per field.
+ */
+const ConflictDialog: React.FC = () => {
+  const { conflicts, resolveConflict } = useEntityConflicts();
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>({});
+
+  const conflict = conflicts.find(c => !dismissed.has(c.id));
+
+  // Start each conflict with the user's own values selected
+  useEffect(() => {
+    setChoices(conflict ? Object.fromEntries(conflict.fields.map(field => [field, 'local' as FieldChoice])) : {});
+  }, [conflict?.id]);
+
+  if (!conflict) return null;
+
+  const local = conflict.local as Record<string, any>;
+  const remote = conflict.remote as Record<string, any>;
+
+  const handleMerge = () => {
+    const merged = Object.fromEntries(
+      conflict.fields.map(field => [field, choices[field] === 'remote' ? remote[field] : local[field]])
+    );
+    resolveConflict(conflict.id, { merged });
+  };
+
+  // Closing only hides the dialog; the conflict stays unresolved
+  const handleClose = () => {
+    setDismissed(prev => new Set(prev).add(conflict.id));
+  };
+
+  return (
+    <Modal isOpen onClose={handleClose} title="Conflicting changes" size="md">
+      <div className="p-6 space-y-4">
+        <p className="text-sm text-neutral-600">
+          An agent update to this {conflict.local.type.replace(/_/g, ' ')} was based on version {conflict.baseVersion},
+          but you have changed it since (now version {conflict.local.version}). Choose which values to keep.
+        </p>
+
+        <div className="space-y-3">
+          {conflict.fields.map(field => (
+            <div key={field} className="border border-neutral-200 rounded-lg">
+              <div className="px-3 py-2 text-xs font-medium text-neutral-500 uppercase tracking-wide border-b border-neutral-200">
+                {field}
+              </div>
+              <div className="grid grid-cols-2 divide-x divide-neutral-200">
+                {(['local', 'remote'] as FieldChoice[]).map(side => (
+                  <label
+                    key={side}
+                    className={`flex gap-2 p-3 cursor-pointer ${choices[field] === side ? 'bg-primary/5' : ''}`}
+                  >
+                    <input
+                      type="radio"
+                      name={`conflict-${field}`}
+                      checked={choices[field] === side}
+                      onChange={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                      className="mt-1"
+                    />
+                    <div className="min-w-0">
+                      <div className="text-xs text-neutral-500 mb-1">{side === 'local' ? 'Yours' : 'Incoming'}</div>
+                      <pre className="text-sm text-neutral-800 whitespace-pre-wrap break-words font-sans">
+                        {formatValue(side === 'local' ? local[field] : remote[field])}
+                      </pre>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 p-6 border-t border-neutral-200">
+        <div className="flex gap-2">
+          <button
+            onClick={() => resolveConflict(conflict.id, 'local')}
+            className="px-4 py-2 text-sm font-medium text-neutral-700 hover:text-neutral-900 transition-colors"
+          >
+            Keep mine
+          </button>
+          <button
+            onClick={() => resolveConflict(conflict.id, 'remote')}
+            className="px-4 py-2 text-sm font-medium text-neutral-700 hover:text-neutral-900 transition-colors"
+          >
+            Use incoming
+          </button>
+        </div>
+        <button
+          onClick={handleMerge}
+          className="px-4 py-2 text-sm font-medium text-white bg-primary hover:bg-primary/90 rounded-lg transition-colors"
+        >
+          Apply selection
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default ConflictDialog;
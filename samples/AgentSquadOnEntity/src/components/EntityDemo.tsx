@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useEntities } from '../context/EntityContext';
+import { useEntities, useEntitySelector } from '../context/EntityContext';
+import { useWebSocketSteps } from '../context/WebSocketStepsContext';
 import { EntityStore } from '../middleware/EntityStore';
+import { WorkspaceBundle, WorkspaceImportMode } from '../middleware/WorkspaceBundle';
 import { DocumentService, Document } from '../modules/poa/services/DocumentService';
 
 interface DocumentCategory {
@@ -8,27 +10,34 @@ interface DocumentCategory {
   documents: Document[];
 }
 
+// Save a bundle through a temporary download link
+const downloadBundle = (bundle: WorkspaceBundle) => {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = `workspace-${bundle.documentId || 'all'}-${bundle.exportedAt.replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 const EntityDemo: React.FC = () => {
   const { loading, error, getStats } = useEntities();
+  const { chatMessages, restoreTranscripts } = useWebSocketSteps();
   const entityStore = useRef(EntityStore.getInstance());
   const documentService = useRef(DocumentService.getInstance());
   
-  const [documentCategories, setDocumentCategories] = useState<DocumentCategory[]>([]);
+  const documentCategories = useEntitySelector<DocumentCategory[]>(store =>
+    store.getCategoryNames()
+      .map(category => ({ category, documents: store.getEntities<Document>({ category, type: 'poa_document' }) }))
+      .filter(({ documents }) => documents.length > 0)
+  );
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
   const [viewMode, setViewMode] = useState<'list' | 'view'>('list');
   const [updates, setUpdates] = useState<string[]>([]);
-
-  // Subscribe to entity updates
-  useEffect(() => {
-    const unsubscribe = entityStore.current.subscribe(() => {
-      updateDocumentCategories();
-    });
-
-    // Initial load
-    updateDocumentCategories();
-
-    return unsubscribe;
-  }, []);
+  const [importMode, setImportMode] = useState<WorkspaceImportMode>('merge');
+  const [bundleStatus, setBundleStatus] = useState<{ message: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Subscribe to document updates for logging
   useEffect(() => {
@@ -52,14 +61,6 @@ const EntityDemo: React.FC = () => {
     return unsubscribe;
   }, []);
 
-  const updateDocumentCategories = () => {
-    const categories = entityStore.current.getAllDocumentCategories();
-    setDocumentCategories(categories.map(cat => ({
-      category: cat.category,
-      documents: cat.documents as Document[]
-    })));
-  };
-
   const handleDocumentClick = (document: Document) => {
     setSelectedDocument(document);
     setViewMode('view');
@@ -87,9 +88,30 @@ const EntityDemo: React.FC = () => {
   };
 
   const refreshDocuments = () => {
-    // Clear cache and trigger refresh
+    // Clear cache; the category list follows the store
     documentService.current.clearCache();
-    updateDocumentCategories();
+  };
+
+  const exportWorkspace = (documentId?: string) => {
+    const bundle = entityStore.current.exportBundle({ documentId, transcripts: chatMessages });
+    downloadBundle(bundle);
+    setBundleStatus({ message: `Exported ${bundle.entities.length} entities`, isError: false });
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    try {
+      const result = entityStore.current.importBundle(await file.text(), importMode);
+      restoreTranscripts(result.transcripts, importMode);
+      const removed = result.removed > 0 ? `, removed ${result.removed}` : '';
+      setBundleStatus({ message: `Imported ${result.entities} entities${removed}`, isError: false });
+    } catch (err) {
+      console.error('[EntityDemo] Import failed:', err);
+      setBundleStatus({ message: err instanceof Error ? err.message : String(err), isError: true });
+    }
   };
 
   const stats = getStats();
@@ -109,8 +131,16 @@ const EntityDemo: React.FC = () => {
             </button>
             <h1 className="text-2xl font-bold text-gray-900">Document Viewer</h1>
           </div>
-          <div className="text-sm text-gray-500">
-            Document ID: {selectedDocument.documentId}
+          <div className="flex items-center space-x-4">
+            <div className="text-sm text-gray-500">
+              Document ID: {selectedDocument.documentId}
+            </div>
+            <button
+              onClick={() => exportWorkspace(selectedDocument.documentId)}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Export Document
+            </button>
           </div>
         </div>
 
@@ -307,6 +337,41 @@ const EntityDemo: React.FC = () => {
             >
               Clear Cache
             </button>
+            <button
+              onClick={() => exportWorkspace()}
+              className="w-full px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Export Workspace
+            </button>
+            <div className="flex space-x-2">
+              <select
+                value={importMode}
+                onChange={(e) => setImportMode(e.target.value as WorkspaceImportMode)}
+                className="px-2 py-2 text-sm border rounded-md"
+                aria-label="Import mode"
+              >
+                <option value="merge">Merge</option>
+                <option value="replace">Replace</option>
+              </select>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex-1 px-3 py-2 text-sm bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors"
+              >
+                Import Bundle
+              </button>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImportFile}
+              className="hidden"
+            />
+            {bundleStatus && (
+              <p className={`text-xs break-words ${bundleStatus.isError ? 'text-red-600' : 'text-gray-500'}`}>
+                {bundleStatus.message}
+              </p>
+            )}
           </div>
         </div>
       </div>
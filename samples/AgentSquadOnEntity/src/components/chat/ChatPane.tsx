@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useSteps } from '../../context/StepsContext';
 import { useWebSocketSteps } from '../../context/WebSocketStepsContext';
 
@@ -15,7 +15,7 @@ import ChatInput from './components/ChatInput';
 
 const ChatPane: React.FC = () => {
   const { activeStep, isInitialized } = useSteps();
-  const { chatMessages } = useWebSocketSteps();
+  const { chatMessages, historyStates, loadOlderMessages } = useWebSocketSteps();
   
   // Custom hooks for state management
   const {
@@ -25,11 +25,24 @@ const ChatPane: React.FC = () => {
     currentMessages,
     connectionState,
     isStepConnected,
+    canSendMessages,
     sendMessage,
+    retryMessage,
     connectionStatusMessage,
   } = useChatMessages();
 
-  const { isTyping, setIsTyping, typingStage } = useTypingState(currentMessages);
+  const { isTyping, setIsTyping, typingStage, isStreaming } = useTypingState(currentMessages);
+
+  // Scroll-back paging for the active step's thread history
+  const historyState = historyStates.get(activeStep);
+  const hasMoreHistory = historyState?.hasMore ?? false;
+  const isLoadingOlder = historyState?.loading ?? false;
+
+  const handleLoadOlder = useCallback(() => {
+    loadOlderMessages(activeStep).catch(error => {
+      console.error('Failed to load older messages:', error);
+    });
+  }, [loadOlderMessages, activeStep]);
   
   const {
     isChatHistoryLoading,
@@ -37,7 +50,18 @@ const ChatPane: React.FC = () => {
     messagesEndRef,
     scrollContainerRef,
     scrollToBottom,
-  } = useChatScrolling(activeStep, chatMessages);
+    handleScroll,
+    loadOlder,
+  } = useChatScrolling(activeStep, chatMessages, { hasMoreHistory, isLoadingOlder, onLoadOlder: handleLoadOlder });
+
+  // Handle retrying a message the outbox gave up on (stable so memoized messages don't re-render)
+  const handleRetryMessage = useCallback(async (messageId: string) => {
+    try {
+      await retryMessage(messageId);
+    } catch (error) {
+      console.error('Failed to retry message:', error);
+    }
+  }, [retryMessage]);
 
   // Suggestions state
   const [showSuggestions, setShowSuggestions] = useState(true);
@@ -107,6 +131,11 @@ const ChatPane: React.FC = () => {
         messagesEndRef={messagesEndRef}
         scrollContainerRef={scrollContainerRef}
         scrollToBottom={scrollToBottom}
+        onRetryMessage={handleRetryMessage}
+        hasMoreHistory={hasMoreHistory}
+        isLoadingOlder={isLoadingOlder}
+        onScroll={handleScroll}
+        onLoadOlder={loadOlder}
       />
 
       {showSuggestions && isStepConnected && (
@@ -119,8 +148,8 @@ const ChatPane: React.FC = () => {
 
       <ChatInput
         botTitle={currentAgent?.title || currentStep.bot?.title}
-        isStepConnected={isStepConnected}
-        isTyping={isTyping}
+        isStepConnected={canSendMessages}
+        isTyping={isTyping || isStreaming}
         onSendMessage={handleSendMessage}
       />
     </div>
@@ -9,10 +9,13 @@ interface Message {
   id: string;
   content: string;
   direction: 'Incoming' | 'Outgoing' | 'Handover';
+  deliveryStatus?: 'pending' | 'sent' | 'failed';
+  isStreaming?: boolean;
 }
 
 interface ChatMessageProps {
   message: Message;
+  onRetry?: (messageId: string) => void;
 }
 
 // Function to format message content with line breaks and basic markdown
@@ -127,7 +130,31 @@ const formatMessageContent = (content: string): JSX.Element => {
   );
 };
 
-const ChatMessageDisplay: React.FC<ChatMessageProps> = ({ message }) => {
+// Delivery status shown under messages sent from this client
+const DeliveryStatusLabel: React.FC<ChatMessageProps> = ({ message, onRetry }) => {
+  switch (message.deliveryStatus) {
+    case 'pending':
+      return <div className="mt-1 text-xs text-gray-400">Sending…</div>;
+    case 'failed':
+      return (
+        <div className="mt-1 text-xs text-red-600">
+          Not delivered.{' '}
+          {onRetry && (
+            <button
+              onClick={() => onRetry(message.id)}
+              className="underline hover:text-red-800"
+            >
+              Retry
+            </button>
+          )}
+        </div>
+      );
+    default:
+      return null;
+  }
+};
+
+const ChatMessageDisplay: React.FC<ChatMessageProps> = ({ message, onRetry }) => {
   // console.log(`[ChatMessageDisplay] Rendering message ID: ${message.id}, direction: ${message.direction}`);
   if (message.direction === 'Handover') {
     return (
@@ -143,20 +170,26 @@ const ChatMessageDisplay: React.FC<ChatMessageProps> = ({ message }) => {
   
   return (
     <div className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
-      <div
-        className={`inline-block rounded-lg px-3 py-2 text-sm shadow ${
-          isUser
-            ? 'bg-gray-100 text-gray-800 text-right border border-gray-200 max-w-[75%]'
-            : 'bg-white border border-gray-200 text-gray-800 max-w-[85%]'
-        }`}
-      >
-        {formatMessageContent(message.content)}
+      <div className={`flex flex-col ${isUser ? 'items-end max-w-[75%]' : 'items-start max-w-[85%]'}`}>
+        <div
+          className={`inline-block rounded-lg px-3 py-2 text-sm shadow ${
+            isUser
+              ? 'bg-gray-100 text-gray-800 text-right border border-gray-200'
+              : 'bg-white border border-gray-200 text-gray-800'
+          } ${message.deliveryStatus === 'pending' ? 'opacity-70' : ''}`}
+        >
+          {formatMessageContent(message.content)}
+          {message.isStreaming && (
+            <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" aria-label="Agent is still replying" />
+          )}
+        </div>
+        <DeliveryStatusLabel message={message} onRetry={onRetry} />
       </div>
     </div>
   );
 };
 
-// Memoize ChatMessageDisplay for performance. It will only re-render if its `message` prop changes.
+// Memoize ChatMessageDisplay for performance. It will only re-render if its `message` or `onRetry` props change.
 const ChatMessage = React.memo(ChatMessageDisplay);
 
 export default ChatMessage; 
\ No newline at end of file
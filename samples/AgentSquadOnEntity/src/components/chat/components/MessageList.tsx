@@ -14,6 +14,11 @@ interface MessageListProps {
   messagesEndRef: React.RefObject<HTMLDivElement>;
   scrollContainerRef: React.RefObject<HTMLDivElement>;
   scrollToBottom: (forceSmooth?: boolean) => void;
+  onRetryMessage?: (messageId: string) => void;
+  hasMoreHistory?: boolean;
+  isLoadingOlder?: boolean;
+  onScroll?: () => void;
+  onLoadOlder?: () => void;
 }
 
 const MessageList: React.FC<MessageListProps> = ({
@@ -26,6 +31,11 @@ const MessageList: React.FC<MessageListProps> = ({
   messagesEndRef,
   scrollContainerRef,
   scrollToBottom,
+  onRetryMessage,
+  hasMoreHistory = false,
+  isLoadingOlder = false,
+  onScroll,
+  onLoadOlder,
 }) => {
   // Scroll when messages change or typing status changes - only after initial load
   useEffect(() => {
@@ -53,6 +63,7 @@ const MessageList: React.FC<MessageListProps> = ({
   return (
     <div 
       ref={scrollContainerRef}
+      onScroll={onScroll}
       className="flex-1 overflow-y-auto p-4 bg-gray-50"
     >
       <div className="w-full max-w-sm ml-auto space-y-4">
@@ -66,8 +77,24 @@ const MessageList: React.FC<MessageListProps> = ({
           <LoadingIndicator />
         ) : (
           <div className={`transition-opacity duration-300 space-y-4 ${hasInitiallyLoaded ? 'opacity-100' : 'opacity-0'}`}>
+            {isLoadingOlder ? (
+              <div className="text-center text-xs text-gray-400 py-2">Loading earlier messages...</div>
+            ) : hasMoreHistory ? (
+              <div className="text-center py-2">
+                <button
+                  type="button"
+                  onClick={onLoadOlder}
+                  className="text-xs text-blue-600 hover:text-blue-700"
+                >
+                  Load earlier messages
+                </button>
+              </div>
+            ) : messages.length > 0 && (
+              <div className="text-center text-xs text-gray-400 py-2">Start of conversation</div>
+            )}
+
             {messages.map((msg) => (
-              <ChatMessage key={msg.id} message={msg} />
+              <ChatMessage key={msg.id} message={msg} onRetry={onRetryMessage} />
             ))}
             
             {isTyping && (
@@ -1,5 +1,6 @@
 import React, { useCallback, useState, useEffect } from 'react';
 import { useMetadataSubscription } from '../../../hooks/useMetadataSubscription';
+import { useSteps } from '../../../context/StepsContext';
 
 interface TypingIndicatorProps {
   typingStage: 'contacting' | 'waiting' | 'long-wait';
@@ -15,6 +16,7 @@ interface ActivityData {
 }
 
 const TypingIndicator: React.FC<TypingIndicatorProps> = ({ typingStage, onContentChange }) => {
+  const { activeStep } = useSteps();
   const [activities, setActivities] = useState<ActivityData[]>([]);
 
   // Notify parent when content changes (height might change)
@@ -78,6 +80,7 @@ const TypingIndicator: React.FC<TypingIndicatorProps> = ({ typingStage, onConten
   const { latestMessage } = useMetadataSubscription({
     subscriberId: 'typing-indicator',
     messageTypes: ['ActivityLog'],
+    stepIndex: activeStep, // Only activity from the agent behind the open chat
     onMessage: handleActivityLogMessage
   });
 
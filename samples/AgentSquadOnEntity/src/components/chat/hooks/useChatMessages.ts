@@ -5,7 +5,7 @@ import { getAgentForStep } from '../../../modules/poa/steps';
 
 export const useChatMessages = () => {
   const { steps, activeStep, isInitialized } = useSteps();
-  const { chatMessages, sendMessage, isConnected, connectionStates } = useWebSocketSteps();
+  const { chatMessages, sendMessage, retryMessage, isConnected, connectionStates } = useWebSocketSteps();
   
   const currentStep = steps[activeStep] || null;
   const currentAgent = currentStep ? getAgentForStep(currentStep) : null;
@@ -26,6 +26,8 @@ export const useChatMessages = () => {
   const currentMessages = chatMessages.get(activeStep) || [];
   const connectionState = connectionStates.get(activeStep);
   const isStepConnected = connectionState?.status === 'connected';
+  // Messages typed while reconnecting are held in the outbox until the connection is back
+  const canSendMessages = isStepConnected || connectionState?.status === 'connecting';
 
   const getConnectionStatusMessage = () => {
     if (!isInitialized) return 'Initializing...';
@@ -46,7 +48,9 @@ export const useChatMessages = () => {
     connectionState,
     isStepConnected,
     isConnected,
+    canSendMessages,
     sendMessage,
+    retryMessage,
     connectionStatusMessage: getConnectionStatusMessage(),
   };
 }; 
\ No newline at end of file
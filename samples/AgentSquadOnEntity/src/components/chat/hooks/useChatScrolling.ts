@@ -1,12 +1,26 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
 
 const SCROLL_THRESHOLD = 50; // Pixels from bottom to consider "at bottom"
+const TOP_THRESHOLD = 80; // Pixels from top that trigger loading older messages
 
-export const useChatScrolling = (activeStep: number, chatMessages: Map<number, any[]>) => {
+interface ScrollBackOptions {
+  hasMoreHistory?: boolean;
+  isLoadingOlder?: boolean;
+  onLoadOlder?: () => void;
+}
+
+export const useChatScrolling = (activeStep: number, chatMessages: Map<number, any[]>, options: ScrollBackOptions = {}) => {
+  const { hasMoreHistory = false, isLoadingOlder = false, onLoadOlder } = options;
   const [isChatHistoryLoading, setIsChatHistoryLoading] = useState(true);
   const [hasInitiallyLoaded, setHasInitiallyLoaded] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null); // Ref for the scrollable container
+  const scrollAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+
+  // Read the latest messages from timers without re-running the initial load on every message
+  const currentMessages = chatMessages.get(activeStep) || [];
+  const chatMessagesRef = useRef(chatMessages);
+  chatMessagesRef.current = chatMessages;
 
   // Check if the user is scrolled to the bottom of the chat area
   const isScrolledToBottom = useCallback(() => {
@@ -20,15 +34,17 @@ export const useChatScrolling = (activeStep: number, chatMessages: Map<number, a
   useEffect(() => {
     setIsChatHistoryLoading(true);
     setHasInitiallyLoaded(false);
+    scrollAnchorRef.current = null;
+    const timers: ReturnType<typeof setTimeout>[] = [];
     
     const checkMessages = () => {
-      const messages = chatMessages.get(activeStep) || [];
+      const messages = chatMessagesRef.current.get(activeStep) || [];
       if (messages.length > 0 || Date.now() - startTime > 2000) {
-        setTimeout(() => {
+        timers.push(setTimeout(() => {
           setIsChatHistoryLoading(false);
-          setTimeout(() => {
+          timers.push(setTimeout(() => {
             setHasInitiallyLoaded(true);
-            setTimeout(() => {
+            timers.push(setTimeout(() => {
               if (messagesEndRef.current) {
                 // console.log('[useChatScrolling] Initial load: Scrolling to bottom (auto).');
                 messagesEndRef.current.scrollIntoView({ 
@@ -37,17 +53,48 @@ export const useChatScrolling = (activeStep: number, chatMessages: Map<number, a
                   inline: 'nearest'
                 });
               }
-            }, 50);
-          }, 100);
-        }, 300);
+            }, 50));
+          }, 100));
+        }, 300));
       } else {
-        setTimeout(checkMessages, 100);
+        timers.push(setTimeout(checkMessages, 100));
       }
     };
     
     const startTime = Date.now();
     checkMessages();
-  }, [activeStep, chatMessages]);
+
+    return () => {
+      timers.forEach(timer => clearTimeout(timer));
+    };
+  }, [activeStep]);
+
+  // Fetch older messages, remembering where the user was so the view doesn't jump
+  const loadOlder = useCallback(() => {
+    const container = scrollContainerRef.current;
+    if (!container || !hasInitiallyLoaded || !hasMoreHistory || isLoadingOlder || !onLoadOlder) return;
+
+    scrollAnchorRef.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop };
+    onLoadOlder();
+  }, [hasInitiallyLoaded, hasMoreHistory, isLoadingOlder, onLoadOlder]);
+
+  const handleScroll = useCallback(() => {
+    if (scrollContainerRef.current && scrollContainerRef.current.scrollTop < TOP_THRESHOLD) {
+      loadOlder();
+    }
+  }, [loadOlder]);
+
+  // Keep the same messages in view after older ones are inserted above them
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    const anchor = scrollAnchorRef.current;
+    if (!container || !anchor) return;
+
+    container.scrollTop = container.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+    if (!isLoadingOlder) {
+      scrollAnchorRef.current = null;
+    }
+  }, [currentMessages, isLoadingOlder]);
 
   // Scroll to bottom intelligently when new messages arrive or typing status changes
   const scrollToBottom = useCallback((forceSmooth: boolean = false) => {
@@ -73,5 +120,7 @@ export const useChatScrolling = (activeStep: number, chatMessages: Map<number, a
     scrollContainerRef, // Expose this ref for the MessageList to use
     scrollToBottom,     // Expose the intelligent scroll function
     isScrolledToBottom, // Expose for potential "New Messages" button logic
+    handleScroll,       // Attach to the scroll container for scroll-back loading
+    loadOlder,          // Manual "load earlier messages" with the same scroll anchoring
   };
 }; 
\ No newline at end of file
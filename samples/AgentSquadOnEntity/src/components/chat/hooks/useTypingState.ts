@@ -9,15 +9,21 @@ export const useTypingState = (currentMessages: ChatMessage[]) => {
   const [typingStartTime, setTypingStartTime] = useState<number | null>(null);
   const lastProcessedMessageCountRef = useRef(currentMessages.length);
 
+  // Real progress signals: delivery of the user's last message and any reply still streaming in
+  const lastUserMessage = [...currentMessages].reverse().find(msg => msg.direction === 'Incoming');
+  const deliveryStatus = lastUserMessage?.deliveryStatus;
+  const isStreaming = currentMessages.some(msg => msg.isStreaming);
+
   // Effect to stop typing indicator ONLY when a new BOT message arrives
   useEffect(() => {
     const currentTotalMessages = currentMessages.length;
-    
+
     // Only proceed if we are currently in a typing state and there are new messages
     if (isTyping && currentTotalMessages > lastProcessedMessageCountRef.current) {
       const latestMessage = currentMessages[currentTotalMessages - 1];
-      
-      // Stop typing ONLY if the newest message is from the bot ('Outgoing')
+
+      // Stop typing ONLY if the newest message is from the bot ('Outgoing');
+      // a streamed reply takes over from here with its own caret
       if (latestMessage && latestMessage.direction === 'Outgoing') {
         setIsTyping(false);
       }
@@ -26,6 +32,13 @@ export const useTypingState = (currentMessages: ChatMessage[]) => {
     lastProcessedMessageCountRef.current = currentTotalMessages;
   }, [currentMessages, isTyping]); // Rerun when messages change or typing state changes
 
+  // Stop waiting if the outbox gave up on the message
+  useEffect(() => {
+    if (isTyping && deliveryStatus === 'failed') {
+      setIsTyping(false);
+    }
+  }, [isTyping, deliveryStatus]);
+
   // Handle typing stage transitions AND add a maximum timeout
   useEffect(() => {
     if (!isTyping) {
@@ -40,30 +53,43 @@ export const useTypingState = (currentMessages: ChatMessage[]) => {
       setTypingStage('contacting');
     }
 
-    const timer1 = setTimeout(() => {
+    // Still in the outbox (e.g. reconnecting): stay on 'contacting' until it is delivered
+    if (deliveryStatus === 'pending') {
+      setTypingStage('contacting');
+      return;
+    }
+
+    const timers: ReturnType<typeof setTimeout>[] = [];
+
+    if (deliveryStatus === 'sent') {
+      // Delivered: the agent has the message, so go straight to waiting
       setTypingStage('waiting');
-    }, 5000); // 5 seconds to 'waiting'
+    } else {
+      // No delivery information (e.g. agent without outbox status): fall back to timers
+      timers.push(setTimeout(() => {
+        setTypingStage('waiting');
+      }, 5000)); // 5 seconds to 'waiting'
+    }
 
-    const timer2 = setTimeout(() => {
+    timers.push(setTimeout(() => {
       setTypingStage('long-wait');
-    }, 35000); // 35 seconds total (5 + 30) to 'long-wait'
+    }, 35000)); // 35 seconds total (5 + 30) to 'long-wait'
 
     // Safety timeout: stop typing after 60 seconds regardless
-    const maxTimeout = setTimeout(() => {
+    timers.push(setTimeout(() => {
       console.log('[useTypingState] Maximum 60s typing timeout reached. Stopping typing.');
       setIsTyping(false);
-    }, 60000);
+    }, 60000));
 
     return () => {
-      clearTimeout(timer1);
-      clearTimeout(timer2);
-      clearTimeout(maxTimeout);
+      timers.forEach(timer => clearTimeout(timer));
     };
-  }, [isTyping, typingStartTime]);
+  }, [isTyping, typingStartTime, deliveryStatus]);
 
   return {
     isTyping,
     setIsTyping, // Make sure ChatPane can still call setIsTyping(true) when sending a message
     typingStage,
+    isStreaming,
   };
-}; 
\ No newline at end of file
+};
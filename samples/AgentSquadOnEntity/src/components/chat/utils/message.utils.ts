@@ -0,0 +1,70 @@
+import { ChatMessage } from '../../../types';
+
+// The optimistic copy and its server echo are stamped separately (client vs. server clock)
+const ECHO_WINDOW_MS = 5000;
+
+const getTime = (message: ChatMessage): number => new Date(message.timestamp).getTime();
+
+/**
+ * Messages carry stable IDs, so the ID alone decides; a repeated "yes" is a new message
+ */
+export const isSameMessage = (a: ChatMessage, b: ChatMessage): boolean => a.id === b.id;
+
+/**
+ * Whether an incoming server message is the echo of a message this client sent optimistically.
+ * The echo has its own ID, so only here do matching content and time count as the same message.
+ */
+export const isEchoOfLocalMessage = (local: ChatMessage, incoming: ChatMessage): boolean => {
+  return local.deliveryStatus !== undefined
+    && incoming.deliveryStatus === undefined
+    && local.direction === incoming.direction
+    && local.content === incoming.content
+    && Math.abs(getTime(local) - getTime(incoming)) <= ECHO_WINDOW_MS;
+};
+
+export const sortByTimestamp = (messages: ChatMessage[]): ChatMessage[] => {
+  return [...messages].sort((a, b) => getTime(a) - getTime(b));
+};
+
+/**
+ * Insert a message at its position by timestamp (after any messages with the same time).
+ * Returns the input array unchanged if the message is already present (same ID, or the
+ * server echo of an optimistic message).
+ */
+export const insertMessage = (existing: ChatMessage[], message: ChatMessage): ChatMessage[] => {
+  if (existing.some(current => isSameMessage(current, message) || isEchoOfLocalMessage(current, message))) {
+    return existing;
+  }
+
+  const time = getTime(message);
+  let index = existing.length;
+  // Live messages almost always belong at the end, so scan backwards
+  while (index > 0 && getTime(existing[index - 1]) > time) {
+    index--;
+  }
+  return [...existing.slice(0, index), message, ...existing.slice(index)];
+};
+
+/**
+ * Merge a page of history into the messages already shown.
+ * Messages already present (live, from an overlapping page, or sent from here) are kept as they are.
+ */
+export const mergeHistoryPage = (existing: ChatMessage[], page: ChatMessage[]): ChatMessage[] => {
+  // Each optimistic message stands for one echo; a repeat sent just after it is a new message
+  const echoed = new Set<string>();
+  const added = page.filter(message => {
+    if (existing.some(current => isSameMessage(current, message))) {
+      return false;
+    }
+    const local = existing.find(current => !echoed.has(current.id) && isEchoOfLocalMessage(current, message));
+    if (local) {
+      echoed.add(local.id);
+      return false;
+    }
+    return true;
+  });
+  if (added.length === 0) {
+    return existing;
+  }
+  return sortByTimestamp([...existing, ...added]);
+};
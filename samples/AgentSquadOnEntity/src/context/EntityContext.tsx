@@ -1,12 +1,22 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, useMemo, useSyncExternalStore } from 'react';
 import { 
   BaseEntity, 
   EntityAction, 
   EntitySubscription, 
   EntityQueryOptions, 
-  EntityStoreState 
+  EntityQuery,
+  EntityQueryResult,
+  EntityStoreState,
+  EntityChangeSource,
+  EntityHistoryEntry,
+  EntityVersion,
+  EntityConflict,
+  ConflictResolution
 } from '../types';
 import { EntityStore } from '../middleware/EntityStore';
+import { EntityPersistenceOptions } from '../middleware/EntityPersistence';
+import { TabSync } from '../middleware/TabSync';
+import { EntitySelector, createEntitySelector, isStructurallyEqual } from '../middleware/EntitySelector';
 
 interface EntityContextType {
   // State
@@ -17,18 +27,27 @@ interface EntityContextType {
   // Entity operations
   addEntity: <T extends BaseEntity>(entity: T) => void;
   updateEntity: <T extends BaseEntity>(entityId: string, updates: Partial<T>) => void;
-  deleteEntity: (entityId: string) => void;
+  deleteEntity: (entityId: string) => boolean;
   getEntity: <T extends BaseEntity>(entityId: string) => T | undefined;
   getEntities: <T extends BaseEntity>(options?: EntityQueryOptions) => T[];
   getEntitiesByType: <T extends BaseEntity>(type: string) => T[];
+  applyOptimisticUpdate: <T extends BaseEntity>(entityId: string, updates: Partial<T>) => string | null;
   
   // Batch operations
   addEntities: <T extends BaseEntity>(entities: T[]) => void;
   clearEntities: (type?: string) => void;
+  transaction: <T>(fn: () => T, label?: string, source?: EntityChangeSource) => T;
   
   // Subscription management
   subscribeToEntities: (subscription: Omit<EntitySubscription, 'id'>) => () => void;
   
+  // History
+  undo: () => EntityHistoryEntry | null;
+  redo: () => EntityHistoryEntry | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  groupHistory: <T>(label: string, fn: () => T, source?: EntityChangeSource) => T;
+  
   // State management
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
@@ -49,11 +68,35 @@ export const useEntities = () => {
 
 interface Props {
   children: React.ReactNode;
+  /** Persist the store and restore it before children render */
+  persistence?: EntityPersistenceOptions;
+  /** Rendered while the persisted store is being restored */
+  fallback?: React.ReactNode;
+  /** Keep the store in step with the app's other open tabs */
+  tabSync?: TabSync;
 }
 
-export const EntityProvider: React.FC<Props> = ({ children }) => {
+export const EntityProvider: React.FC<Props> = ({ children, persistence, fallback = null, tabSync }) => {
   const entityStore = useRef(EntityStore.getInstance());
   const [state, setState] = useState<EntityStoreState>(() => entityStore.current.getState());
+  const [isHydrated, setIsHydrated] = useState(() => !persistence || entityStore.current.isHydrated());
+
+  // Restore persisted entities before anything reads the store
+  useEffect(() => {
+    if (!persistence) return;
+
+    let cancelled = false;
+    entityStore.current.enablePersistence(persistence).finally(() => {
+      if (!cancelled) {
+        setState(entityStore.current.getState());
+        setIsHydrated(true);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [persistence]);
 
   // Subscribe to store changes
   useEffect(() => {
@@ -64,6 +107,24 @@ export const EntityProvider: React.FC<Props> = ({ children }) => {
     return unsubscribe;
   }, []);
 
+  // Start syncing with other tabs once restored, so the snapshot isn't broadcast as new changes
+  useEffect(() => {
+    if (!tabSync || !isHydrated) return;
+
+    let cancelled = false;
+    let stopSync: (() => void) | null = null;
+    tabSync.start().then(() => {
+      if (!cancelled) {
+        stopSync = tabSync.syncEntityStore(entityStore.current);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      stopSync?.();
+    };
+  }, [tabSync, isHydrated]);
+
   // Entity operations
   const addEntity = useCallback(<T extends BaseEntity>(entity: T) => {
     entityStore.current.addEntity(entity);
@@ -74,7 +135,7 @@ export const EntityProvider: React.FC<Props> = ({ children }) => {
   }, []);
 
   const deleteEntity = useCallback((entityId: string) => {
-    entityStore.current.deleteEntity(entityId);
+    return entityStore.current.deleteEntity(entityId);
   }, []);
 
   const getEntity = useCallback(<T extends BaseEntity>(entityId: string): T | undefined => {
@@ -89,6 +150,10 @@ export const EntityProvider: React.FC<Props> = ({ children }) => {
     return entityStore.current.getEntitiesByType<T>(type);
   }, []);
 
+  const applyOptimisticUpdate = useCallback(<T extends BaseEntity>(entityId: string, updates: Partial<T>) => {
+    return entityStore.current.applyOptimisticUpdate(entityId, updates);
+  }, []);
+
   // Batch operations
   const addEntities = useCallback(<T extends BaseEntity>(entities: T[]) => {
     entityStore.current.addEntities(entities);
@@ -98,6 +163,10 @@ export const EntityProvider: React.FC<Props> = ({ children }) => {
     entityStore.current.clearEntities(type);
   }, []);
 
+  const transaction = useCallback(<T,>(fn: () => T, label?: string, source?: EntityChangeSource): T => {
+    return entityStore.current.transaction(fn, label, source);
+  }, []);
+
   // Subscription management
   const subscribeToEntities = useCallback((subscription: Omit<EntitySubscription, 'id'>): () => void => {
     const subscriptionWithId: EntitySubscription = {
@@ -108,6 +177,13 @@ export const EntityProvider: React.FC<Props> = ({ children }) => {
     return entityStore.current.subscribeToEntities(subscriptionWithId);
   }, []);
 
+  // History
+  const undo = useCallback(() => entityStore.current.undo(), []);
+  const redo = useCallback(() => entityStore.current.redo(), []);
+  const groupHistory = useCallback(<T,>(label: string, fn: () => T, source?: EntityChangeSource): T => {
+    return entityStore.current.groupHistory(label, fn, source);
+  }, []);
+
   // State management
   const setLoading = useCallback((loading: boolean) => {
     entityStore.current.setLoading(loading);
@@ -132,9 +208,16 @@ export const EntityProvider: React.FC<Props> = ({ children }) => {
     getEntity,
     getEntities,
     getEntitiesByType,
+    applyOptimisticUpdate,
     addEntities,
     clearEntities,
+    transaction,
     subscribeToEntities,
+    undo,
+    redo,
+    canUndo: entityStore.current.canUndo(),
+    canRedo: entityStore.current.canRedo(),
+    groupHistory,
     setLoading,
     setError,
     getStats
@@ -142,7 +225,7 @@ export const EntityProvider: React.FC<Props> = ({ children }) => {
 
   return (
     <EntityContext.Provider value={value}>
-      {children}
+      {isHydrated ? children : fallback}
     </EntityContext.Provider>
   );
 };
@@ -185,12 +268,9 @@ export const useEntity = <T extends BaseEntity>(entityId: string) => {
   useEntitySubscription<T>(
     undefined,
     [entityId],
-    (entities, action) => {
-      if (action.type === 'DELETE' && action.payload?.entityId === entityId) {
-        setEntity(undefined);
-      } else if (entities.length > 0) {
-        setEntity(entities[0]);
-      }
+    () => {
+      // Read back from the store so deletes, batches and undo all land on the current state
+      setEntity(getEntity<T>(entityId));
     }
   );
 
@@ -198,19 +278,57 @@ export const useEntity = <T extends BaseEntity>(entityId: string) => {
 };
 
 export const useEntitiesByType = <T extends BaseEntity>(type: string) => {
-  const { getEntitiesByType } = useEntities();
-  const [entities, setEntities] = useState<T[]>(() => getEntitiesByType<T>(type));
+  // Recomputes only when an entity of this type changes
+  const selector = useMemo(
+    () => createEntitySelector(store => store.getEntitiesByType<T>(type), { types: [type] }),
+    [type]
+  );
+  return useEntitySelector(selector);
+};
 
-  useEntitySubscription<T>(
-    [type],
-    undefined,
-    () => {
-      // Refresh entities when any entity of this type changes
-      setEntities(getEntitiesByType<T>(type));
+/**
+ * Read derived data from the store. The component re-renders only when the
+ * selected value changes structurally, not on every store update.
+ */
+export const useEntitySelector = <R,>(
+  selector: EntitySelector<R> | ((store: EntityStore) => R),
+  isEqual: (a: R, b: R) => boolean = isStructurallyEqual
+): R => {
+  const entityStore = useRef(EntityStore.getInstance());
+  const selectedRef = useRef<{ value: R } | null>(null);
+  const selectorRef = useRef(selector);
+  const isEqualRef = useRef(isEqual);
+  selectorRef.current = selector;
+  isEqualRef.current = isEqual;
+
+  const subscribe = useCallback((onChange: () => void) => entityStore.current.subscribe(onChange), []);
+
+  // Keep returning the previous value while it is structurally equal, so the snapshot stays stable
+  const getSnapshot = useCallback((): R => {
+    const next = selectorRef.current(entityStore.current);
+    if (selectedRef.current && isEqualRef.current(selectedRef.current.value, next)) {
+      return selectedRef.current.value;
     }
-  );
+    selectedRef.current = { value: next };
+    return next;
+  }, []);
 
-  return entities;
+  return useSyncExternalStore(subscribe, getSnapshot);
+};
+
+// Hook for the entities filed under a category, keyed by their category key
+export const useCategoryEntities = <T extends BaseEntity>(category: string) => {
+  const selector = useCallback((store: EntityStore) => store.getEntitiesFromCategory<T>(category), [category]);
+  return useEntitySelector(selector);
+};
+
+// Hook for the targets of one relation of an entity
+export const useRelatedEntities = <T = BaseEntity,>(entityId: string | undefined, relation: string) => {
+  const selector = useCallback(
+    (store: EntityStore) => (entityId ? store.getRelated<T>(entityId, relation) : []),
+    [entityId, relation]
+  );
+  return useEntitySelector(selector);
 };
 
 export const useEntitiesQuery = <T extends BaseEntity>(options: EntityQueryOptions) => {
@@ -227,4 +345,85 @@ export const useEntitiesQuery = <T extends BaseEntity>(options: EntityQueryOptio
   );
 
   return entities;
-}; 
\ No newline at end of file
+}; 
+
+/**
+ * Run a declarative query (see EntityQuery) and keep its result current, including the
+ * total and groups. The query is compared by value, so it can be written inline.
+ */
+export const useEntityQueryResult = <T extends BaseEntity>(query: EntityQuery): EntityQueryResult<T> => {
+  const key = JSON.stringify(query);
+  const selector = useMemo(() => {
+    const parsed: EntityQuery = JSON.parse(key);
+    return createEntitySelector(
+      store => store.queryEntities<T>(parsed),
+      { types: parsed.type ? [parsed.type] : undefined }
+    );
+  }, [key]);
+  return useEntitySelector(selector);
+};
+
+// History entries and conflicts are replaced rather than changed in place, so comparing
+// identities is enough and avoids a deep comparison of every entity version
+const isSameVersionList = (a: EntityVersion[], b: EntityVersion[]): boolean =>
+  a.length === b.length && a.every((version, index) => version.entity === b[index].entity && version.source === b[index].source);
+
+const isSameConflictList = (a: EntityConflict[], b: EntityConflict[]): boolean =>
+  a.length === b.length && a.every((conflict, index) => conflict === b[index]);
+
+/**
+ * Recorded versions of an entity, with helpers to revert it.
+ * `revert()` restores the version before the latest change (e.g. undo an agent's rewrite).
+ */
+export const useEntityHistory = <T extends BaseEntity>(entityId: string | undefined) => {
+  const { undo, redo, canUndo, canRedo } = useEntities();
+  const entityStore = useRef(EntityStore.getInstance());
+
+  // The journal changes on every store mutation, including undo/redo; re-render only when this entity's part does
+  const selectVersions = useCallback(
+    (store: EntityStore) => (entityId ? store.getEntityHistory<T>(entityId) : []),
+    [entityId]
+  );
+  const versions = useEntitySelector(selectVersions, isSameVersionList);
+
+  const jumpToVersion = useCallback((version: number) => {
+    return entityId ? entityStore.current.jumpToVersion(entityId, version) : false;
+  }, [entityId]);
+
+  const previousVersion = versions.length > 1 ? versions[versions.length - 2] : undefined;
+  const latestVersion = versions[versions.length - 1];
+
+  const revert = useCallback(() => {
+    return previousVersion ? jumpToVersion(previousVersion.version) : false;
+  }, [previousVersion, jumpToVersion]);
+
+  return {
+    versions,
+    latestVersion,
+    canRevert: Boolean(previousVersion),
+    revert,
+    jumpToVersion,
+    undo,
+    redo,
+    canUndo,
+    canRedo
+  };
+};
+
+const getConflicts = (store: EntityStore) => store.getConflicts();
+
+// Hook for conflicts between local edits and stale remote updates
+export const useEntityConflicts = () => {
+  const entityStore = useRef(EntityStore.getInstance());
+  const conflicts = useEntitySelector(getConflicts, isSameConflictList);
+
+  const resolveConflict = useCallback(<T extends BaseEntity>(conflictId: string, resolution: ConflictResolution<T>) => {
+    return entityStore.current.resolveConflict(conflictId, resolution);
+  }, []);
+
+  return {
+    conflicts,
+    hasConflicts: conflicts.length > 0,
+    resolveConflict
+  };
+};
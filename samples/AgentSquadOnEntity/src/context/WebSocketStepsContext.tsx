@@ -1,10 +1,17 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
-import { ChatMessage, ConnectionState, InboundMessage, HubEvent } from '../types';
-import { WebSocketHub } from '../middleware/WebSocketHub';
-import { MetadataMessage } from '../middleware/MetadataMessageRouter';
+import { ChatMessage, ConnectionState, InboundMessage, HubEvent, DeliveryStatus } from '../types';
+import { WebSocketHub, MetadataSubscriptionOptions } from '../middleware/WebSocketHub';
+import { MetadataMessage, MetadataRoutingContext } from '../middleware/MetadataMessageRouter';
+import { TabSync } from '../middleware/TabSync';
 import { useSteps } from './StepsContext';
 import { useSettings } from './SettingsContext';
-import { getAgentForStep } from '../modules/poa/steps';
+import { getAgentForStep, getAgentById } from '../modules/poa/steps';
+import { insertMessage, mergeHistoryPage } from '../components/chat/utils/message.utils';
+
+export interface ChatHistoryState {
+  hasMore: boolean;
+  loading: boolean;
+}
 
 interface WebSocketStepsContextType {
   // Connection states
@@ -13,14 +20,18 @@ interface WebSocketStepsContextType {
   
   // Messages
   chatMessages: Map<number, ChatMessage[]>;
+  historyStates: Map<number, ChatHistoryState>;
   
   // Actions
   connect: () => Promise<void>;
   disconnect: () => Promise<void>;
   sendMessage: (content: string, metadata?: any) => Promise<void>;
+  retryMessage: (messageId: string) => Promise<void>;
+  loadOlderMessages: (stepIndex: number) => Promise<boolean>;
+  restoreTranscripts: (transcripts: Map<number, ChatMessage[]>, mode?: 'merge' | 'replace') => void;
   
   // Metadata subscription
-  subscribeToMetadata: (subscriberId: string, messageTypes: string[], callback: (message: MetadataMessage) => void, stepIndex?: number) => () => void;
+  subscribeToMetadata: (subscriberId: string, messageTypes: string[], callback: (message: MetadataMessage, context: MetadataRoutingContext) => void, scope?: number | MetadataSubscriptionOptions) => () => void;
   unsubscribeFromMetadata: (subscriberId: string) => void;
   
   // Statistics
@@ -39,33 +50,99 @@ export const useWebSocketSteps = () => {
 
 interface Props {
   children: React.ReactNode;
+  /** Share one set of agent connections with the app's other open tabs */
+  tabSync?: TabSync;
 }
 
-export const WebSocketStepsProvider: React.FC<Props> = ({ children }) => {
+export const WebSocketStepsProvider: React.FC<Props> = ({ children, tabSync }) => {
   const { steps, activeStep, isInitialized } = useSteps();
   const { settings } = useSettings();
   
   const [connectionStates, setConnectionStates] = useState<Map<number, ConnectionState>>(new Map());
   const [chatMessages, setChatMessages] = useState<Map<number, ChatMessage[]>>(new Map());
+  const [historyStates, setHistoryStates] = useState<Map<number, ChatHistoryState>>(new Map());
   const [threadIds, setThreadIds] = useState<Map<number, string>>(new Map());
   const [isConnected, setIsConnected] = useState(false);
   
   const hubRef = useRef<WebSocketHub | null>(null);
+  const outboxRestoredRef = useRef(false);
 
   // Helper functions for message management
+  // Messages are kept in timestamp order; a message already shown (same ID) is ignored
   const addChatMessage = useCallback((message: ChatMessage) => {
+    setChatMessages(prevMessages => {
+      const existingMessages = prevMessages.get(message.stepIndex) || [];
+      const updatedMessages = insertMessage(existingMessages, message);
+      if (updatedMessages === existingMessages) {
+        return prevMessages;
+      }
+      return new Map(prevMessages).set(message.stepIndex, updatedMessages);
+    });
+
+    if (message.threadId) {
+      setThreadIds(prev => new Map(prev).set(message.stepIndex, message.threadId!));
+    }
+  }, []);
+
+  // Replace a message in place (streamed replies), appending it if it isn't known yet
+  const upsertChatMessage = useCallback((message: ChatMessage) => {
     setChatMessages(prevMessages => {
       const newMessagesMap = new Map(prevMessages);
       const existingMessages = newMessagesMap.get(message.stepIndex) || [];
-      newMessagesMap.set(message.stepIndex, [...existingMessages, message]);
+      const index = existingMessages.findIndex(msg => msg.id === message.id);
+
+      if (index === -1) {
+        newMessagesMap.set(message.stepIndex, insertMessage(existingMessages, message));
+      } else {
+        const updatedMessages = [...existingMessages];
+        updatedMessages[index] = message;
+        newMessagesMap.set(message.stepIndex, updatedMessages);
+      }
       return newMessagesMap;
     });
+  }, []);
 
-    if (message.threadId) {
-      setThreadIds(prev => new Map(prev).set(message.stepIndex, message.threadId!));
+  const updateDeliveryStatus = useCallback((stepIndex: number, messageId: string, deliveryStatus: DeliveryStatus) => {
+    setChatMessages(prevMessages => {
+      const existingMessages = prevMessages.get(stepIndex);
+      if (!existingMessages?.some(msg => msg.id === messageId)) {
+        return prevMessages;
+      }
+
+      const newMessagesMap = new Map(prevMessages);
+      newMessagesMap.set(stepIndex, existingMessages.map(msg =>
+        msg.id === messageId ? { ...msg, deliveryStatus } : msg
+      ));
+      return newMessagesMap;
+    });
+  }, []);
+
+  // Merge a page of thread history, skipping messages already shown
+  const addHistoryPage = useCallback((stepIndex: number, messages: ChatMessage[]) => {
+    if (messages.length === 0) return;
+
+    setChatMessages(prevMessages => {
+      const existingMessages = prevMessages.get(stepIndex) || [];
+      const mergedMessages = mergeHistoryPage(existingMessages, messages);
+      if (mergedMessages === existingMessages) {
+        return prevMessages;
+      }
+      return new Map(prevMessages).set(stepIndex, mergedMessages);
+    });
+
+    const latestThreadId = [...messages].reverse().find(msg => msg.threadId)?.threadId;
+    if (latestThreadId) {
+      setThreadIds(prev => prev.has(stepIndex) ? prev : new Map(prev).set(stepIndex, latestThreadId));
     }
   }, []);
 
+  const updateHistoryState = useCallback((stepIndex: number, update: Partial<ChatHistoryState>) => {
+    setHistoryStates(prev => {
+      const current = prev.get(stepIndex) || { hasMore: true, loading: false };
+      return new Map(prev).set(stepIndex, { ...current, ...update });
+    });
+  }, []);
+
   const getThreadId = useCallback((stepIndex: number): string | undefined => {
     return threadIds.get(stepIndex);
   }, [threadIds]);
@@ -79,6 +156,9 @@ export const WebSocketStepsProvider: React.FC<Props> = ({ children }) => {
     
     const hub = WebSocketHub.getInstance();
     hubRef.current = hub;
+    if (tabSync) {
+      hub.enableTabSync(tabSync);
+    }
 
     const handleConnectionChange = (event: HubEvent) => {
       const newConnectionStates = hub.getConnectionStates();
@@ -92,22 +172,61 @@ export const WebSocketStepsProvider: React.FC<Props> = ({ children }) => {
       addChatMessage(chatMessage);
     };
 
+    const handleMessageUpdate = (event: HubEvent) => {
+      upsertChatMessage(event.data as ChatMessage);
+    };
+
+    const handleThreadHistory = (event: HubEvent) => {
+      addHistoryPage(event.stepIndex, event.data.messages as ChatMessage[]);
+      updateHistoryState(event.stepIndex, { hasMore: event.data.hasMore, loading: false });
+    };
+
     const handleError = (event: HubEvent) => {
       console.error(`[WebSocketStepsContext] Event: error`, event.data);
     };
 
+    const handleOutboxUpdate = (event: HubEvent) => {
+      if (event.data.kind !== 'message') return;
+      updateDeliveryStatus(event.stepIndex, event.data.id, event.data.status);
+    };
+
+    // Restore chat messages still waiting in the outbox from a previous page load
+    const restoredEntries = outboxRestoredRef.current ? [] : hub.getOutboxEntries();
+    outboxRestoredRef.current = true;
+    restoredEntries
+      .filter(entry => entry.kind === 'message')
+      .forEach(entry => {
+        const stepIndex = steps.findIndex(step => step.botId && getAgentById(step.botId)?.workflowId === entry.workflowId);
+        if (stepIndex < 0) return;
+
+        addChatMessage({
+          id: entry.id,
+          content: entry.request.content || '',
+          direction: 'Incoming',
+          stepIndex,
+          timestamp: new Date(entry.createdAt),
+          deliveryStatus: entry.status === 'failed' ? 'failed' : 'pending'
+        });
+      });
+
     hub.on('connection_change', handleConnectionChange);
     hub.on('message', handleMessage);
+    hub.on('message_update', handleMessageUpdate);
+    hub.on('thread_history', handleThreadHistory);
     hub.on('error', handleError);
+    hub.on('outbox_update', handleOutboxUpdate);
 
     // Cleanup function
     return () => {
       hub.off('connection_change', handleConnectionChange);
       hub.off('message', handleMessage);
+      hub.off('message_update', handleMessageUpdate);
+      hub.off('thread_history', handleThreadHistory);
       hub.off('error', handleError);
+      hub.off('outbox_update', handleOutboxUpdate);
       hubRef.current = null;
     };
-  }, [addChatMessage, steps.length]);
+  }, [addChatMessage, upsertChatMessage, updateDeliveryStatus, addHistoryPage, updateHistoryState, steps.length, tabSync]);
 
   // Effect to initialize the hub when settings or steps change
   useEffect(() => {
@@ -177,13 +296,15 @@ export const WebSocketStepsProvider: React.FC<Props> = ({ children }) => {
       timestamp: new Date(),
       metadata,
       threadId: getThreadId(activeStep) || '', 
+      deliveryStatus: 'pending'
     };
     addChatMessage(userMessage);
+    hub.shareChatMessage(userMessage);
 
     try {
       if (agent) {
-        // Use the new sendMessageToAgent method
-        await hub.sendMessageToAgent(content, agent.id);
+        // Queued in the hub's outbox; delivery status arrives via 'outbox_update'
+        await hub.sendMessageToAgent(content, agent.id, { clientMessageId: userMessage.id });
       } else {
         // This fallback path shouldn't be needed anymore, but keeping for safety
         throw new Error('No agent found for current step.');
@@ -194,14 +315,55 @@ export const WebSocketStepsProvider: React.FC<Props> = ({ children }) => {
     }
   }, [activeStep, steps, settings, addChatMessage, getThreadId]);
 
+  const retryMessage = useCallback(async (messageId: string) => {
+    const hub = hubRef.current;
+    if (!hub) {
+      throw new Error('Not connected, hub instance not available.');
+    }
+
+    await hub.retryOutboxEntry(messageId);
+  }, []);
+
+  // Fetch the next older page of thread history; it is merged in when the hub emits 'thread_history'
+  const loadOlderMessages = useCallback(async (stepIndex: number): Promise<boolean> => {
+    const hub = hubRef.current;
+    if (!hub) {
+      return false;
+    }
+
+    updateHistoryState(stepIndex, { loading: true });
+    const requested = await hub.loadOlderHistory(stepIndex);
+    if (!requested) {
+      const state = hub.getHistoryState(stepIndex);
+      updateHistoryState(stepIndex, { loading: state?.loading ?? false, hasMore: state?.hasMore ?? false });
+    }
+    return requested;
+  }, [updateHistoryState]);
+
+  // Load chat messages from an imported workspace bundle; 'replace' drops what those steps showed
+  const restoreTranscripts = useCallback((transcripts: Map<number, ChatMessage[]>, mode: 'merge' | 'replace' = 'merge') => {
+    if (mode === 'replace') {
+      setChatMessages(prevMessages => {
+        const newMessagesMap = new Map(prevMessages);
+        transcripts.forEach((messages, stepIndex) => {
+          newMessagesMap.set(stepIndex, mergeHistoryPage([], messages));
+        });
+        return newMessagesMap;
+      });
+      return;
+    }
+
+    transcripts.forEach((messages, stepIndex) => addHistoryPage(stepIndex, messages));
+  }, [addHistoryPage]);
+
   // Metadata subscription methods
-  const subscribeToMetadata = useCallback((subscriberId: string, messageTypes: string[], callback: (message: MetadataMessage) => void, stepIndex?: number) => {
+  const subscribeToMetadata = useCallback((subscriberId: string, messageTypes: string[], callback: (message: MetadataMessage, context: MetadataRoutingContext) => void, scope?: number | MetadataSubscriptionOptions) => {
     const hub = hubRef.current;
     if (!hub) {
       return () => {}; // Return empty unsubscribe function
     }
     
-    return hub.subscribeToMetadata(subscriberId, messageTypes, callback, stepIndex);
+    return hub.subscribeToMetadata(subscriberId, messageTypes, callback, scope);
   }, []);
 
   const unsubscribeFromMetadata = useCallback((subscriberId: string) => {
@@ -268,9 +430,13 @@ export const WebSocketStepsProvider: React.FC<Props> = ({ children }) => {
     connectionStates,
     isConnected,
     chatMessages,
+    historyStates,
     connect: manualConnect,
     disconnect: manualDisconnect,
     sendMessage,
+    retryMessage,
+    loadOlderMessages,
+    restoreTranscripts,
     subscribeToMetadata,
     unsubscribeFromMetadata,
     getStats
@@ -183,6 +183,9 @@ export const useEntityNotifications = (
         case 'CLEAR':
           message = `Cleared all entities${entityTypes ? ` of type: ${entityTypes.join(', ')}` : ''}`;
           break;
+        case 'BATCH':
+          message = `Applied ${action.payload?.actions?.length || 0} changes to ${entities.length} ${entityTypesList} entit${entities.length === 1 ? 'y' : 'ies'}`;
+          break;
         default:
           message = `${action.type} operation on ${entities.length} entit${entities.length === 1 ? 'y' : 'ies'}`;
       }
@@ -1,11 +1,18 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { useWebSocketSteps } from '../context/WebSocketStepsContext';
-import { MetadataMessage } from '../middleware/MetadataMessageRouter';
+import { MetadataMessage, MetadataRoutingContext, MetadataReplayOptions } from '../middleware/MetadataMessageRouter';
 
 export interface MetadataSubscriptionOptions {
   subscriberId: string;
+  /** Exact types, prefix patterns ('Document*') or '*' */
   messageTypes: string[];
   stepIndex?: number;
+  agentId?: string;
+  workflowId?: string;
+  documentId?: string;
+  predicate?: (message: MetadataMessage, context: MetadataRoutingContext) => boolean;
+  /** Receive recently buffered messages on subscribe (for lazily mounted components) */
+  replay?: MetadataReplayOptions;
   onMessage?: (message: MetadataMessage) => void;
 }
 
@@ -26,6 +33,11 @@ export function useMetadataSubscription(options: MetadataSubscriptionOptions) {
     options.onMessage?.(message);
   }, [options.onMessage]);
 
+  // Keep the latest predicate without re-subscribing when an inline function changes identity
+  const predicateRef = useRef(options.predicate);
+  predicateRef.current = options.predicate;
+  const hasPredicate = Boolean(options.predicate);
+
   useEffect(() => {
     console.log(`[useMetadataSubscription] Subscribing to messageTypes: ${options.messageTypes.join(', ')} for subscriber: ${options.subscriberId}`);
     
@@ -33,7 +45,14 @@ export function useMetadataSubscription(options: MetadataSubscriptionOptions) {
       options.subscriberId,
       options.messageTypes,
       handleMessage,
-      options.stepIndex
+      {
+        stepIndex: options.stepIndex,
+        agentId: options.agentId,
+        workflowId: options.workflowId,
+        documentId: options.documentId,
+        predicate: hasPredicate ? (message, context) => predicateRef.current?.(message, context) ?? true : undefined,
+        replay: options.replay
+      }
     );
 
     // Cleanup on unmount or when dependencies change
@@ -41,7 +60,19 @@ export function useMetadataSubscription(options: MetadataSubscriptionOptions) {
       console.log(`[useMetadataSubscription] Unsubscribing subscriber: ${options.subscriberId}`);
       unsubscribe();
     };
-  }, [options.subscriberId, options.messageTypes.join(','), options.stepIndex, subscribeToMetadata, handleMessage]);
+  }, [
+    options.subscriberId,
+    options.messageTypes.join(','),
+    options.stepIndex,
+    options.agentId,
+    options.workflowId,
+    options.documentId,
+    hasPredicate,
+    options.replay?.last,
+    options.replay?.latestPerDocument,
+    subscribeToMetadata,
+    handleMessage
+  ]);
 
   const clearMessages = useCallback(() => {
     setMessages([]);
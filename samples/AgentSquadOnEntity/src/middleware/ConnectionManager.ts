@@ -2,7 +2,8 @@ import { HubConnection, HubConnectionBuilder, LogLevel } from '@microsoft/signal
 import { BotAgent, ConnectionState } from '../types';
 import { SettingsData } from '../context/SettingsContext';
 import { StepDefinition, Agent } from '../components/types';
-import { MessageProcessor, Message } from './MessageProcessor';
+import { MessageProcessor, Message, HistoryPageInfo } from './MessageProcessor';
+import { CredentialProvider, StaticKeyCredentialProvider, isUnauthorizedError } from './CredentialProvider';
 
 export interface SignalRConnection {
   connection: HubConnection;
@@ -14,6 +15,43 @@ export interface SignalRConnection {
 export interface ConnectionManagerEvents {
   onConnectionChange: (agentIndex: number, state: ConnectionState) => void;
   onConnectionError: (agentIndex: number, error: any) => void;
+  /** Fired after SubscribeToAgent succeeds, including after a reconnect */
+  onAgentSubscribed?: (agentIndex: number) => void;
+}
+
+/**
+ * 'per-agent' opens one hub connection per agent (legacy behaviour).
+ * 'shared' multiplexes every agent over a single hub connection and
+ * demultiplexes incoming traffic by workflowId.
+ */
+export type ConnectionMode = 'per-agent' | 'shared';
+
+/**
+ * Paging state of an agent's thread history. Page 1 holds the most recent messages.
+ */
+export interface HistoryState {
+  loadedPages: number;
+  hasMore: boolean;
+  loading: boolean;
+}
+
+const HISTORY_PAGE_SIZE = 20;
+const HISTORY_TIMEOUT = 15000;
+const INBOUND_ACK_TIMEOUT = 30000;
+
+/**
+ * InboundProcessed as the hub sends it: the thread ID alone, or with the workflow it belongs to
+ */
+type InboundProcessedPayload = string | { threadId: string; workflowId?: string };
+
+interface PendingInbound {
+  agentIndex: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export interface ConnectionManagerOptions {
+  mode?: ConnectionMode;
+  credentialProvider?: CredentialProvider;
 }
 
 /**
@@ -27,10 +65,38 @@ export class ConnectionManager {
   private agents: Agent[] = [];
   private events: ConnectionManagerEvents;
   private messageProcessor: MessageProcessor;
+  private readonly mode: ConnectionMode;
+  private credentialProvider: CredentialProvider | null = null;
+  private hasCustomCredentialProvider = false;
+
+  // Shared mode state
+  private sharedConnection: HubConnection | null = null;
+  private sharedConnectionPromise: Promise<HubConnection> | null = null;
+  private pendingInbound: PendingInbound[] = []; // FIFO of sends awaiting InboundProcessed
+  private pendingHistoryAgents: number[] = []; // FIFO of agents awaiting ThreadHistory
 
-  constructor(events: ConnectionManagerEvents, messageProcessor: MessageProcessor) {
+  // Connections whose hub method handlers are already registered; they survive automatic reconnects
+  private handlersRegistered: WeakSet<HubConnection> = new WeakSet();
+
+  // Thread history paging per agent
+  private historyPages: Map<number, { loadedPages: number; hasMore: boolean; requestedPages: number[]; timeout?: ReturnType<typeof setTimeout> }> = new Map();
+
+  constructor(events: ConnectionManagerEvents, messageProcessor: MessageProcessor, options: ConnectionManagerOptions = {}) {
     this.events = events;
     this.messageProcessor = messageProcessor;
+    this.mode = options.mode || 'per-agent';
+    if (options.credentialProvider) {
+      this.setCredentialProvider(options.credentialProvider);
+    }
+  }
+
+  /**
+   * Use a custom credential provider instead of the static API key from settings.
+   * Takes effect on the next connection start or reconnect.
+   */
+  setCredentialProvider(provider: CredentialProvider): void {
+    this.credentialProvider = provider;
+    this.hasCustomCredentialProvider = true;
   }
 
   /**
@@ -39,6 +105,15 @@ export class ConnectionManager {
   async initialize(settings: SettingsData, agents: Agent[]): Promise<void> {
     this.settings = settings;
     this.agents = agents;
+
+    if (!this.hasCustomCredentialProvider) {
+      this.credentialProvider = new StaticKeyCredentialProvider(settings.agentApiKey || '');
+    }
+
+    // Settings may have changed, so the shared socket is rebuilt from scratch
+    if (this.mode === 'shared') {
+      await this.disconnectAll();
+    }
     
     // Connect to all agents
     const connectionPromises = agents.map((agent, index) => 
@@ -77,6 +152,10 @@ export class ConnectionManager {
    * Actual connection implementation
    */
   private async doConnectToAgent(agent: Agent, agentIndex: number): Promise<void> {
+    if (this.mode === 'shared') {
+      return this.attachAgentToSharedConnection(agent, agentIndex);
+    }
+
     // Disconnect existing connection if any
     if (this.connections.has(agentIndex)) {
       await this.disconnectStep(agentIndex);
@@ -85,44 +164,8 @@ export class ConnectionManager {
     this.emitConnectionChange(agentIndex, 'connecting');
 
     try {
-      const hubUrl = this.buildHubUrl();
-      
-      // Create the SignalR connection with authentication
-      const connection = new HubConnectionBuilder()
-        .withUrl(hubUrl, {
-          timeout: 30000,
-          skipNegotiation: false,
-          transport: 1 // WebSockets only
-        })
-        .withAutomaticReconnect({
-          nextRetryDelayInMilliseconds: (retryContext) => {
-            if (retryContext.previousRetryCount === 0) {
-              return 1000;
-            }
-            return Math.min(1000 * Math.pow(2, retryContext.previousRetryCount), 30000);
-          }
-        })
-        .configureLogging(LogLevel.Information)
-        .build();
-
-      // Start the connection with retry logic
-      let retries = 0;
-      const maxRetries = 3;
-      
-      while (retries < maxRetries) {
-        try {
-          await connection.start();
-          console.log(`[ConnectionManager] Connected to SignalR hub for agent ${agentIndex} (${agent.workflowId})`);
-          break;
-        } catch (startError) {
-          retries++;
-          if (retries >= maxRetries) {
-            throw startError;
-          }
-          console.warn(`[ConnectionManager] Connection attempt ${retries} failed for agent ${agentIndex}, retrying...`);
-          await new Promise(resolve => setTimeout(resolve, 1000 * retries));
-        }
-      }
+      const connection = this.createHubConnection();
+      await this.startConnection(connection, `agent ${agentIndex} (${agent.workflowId})`);
 
       // Create and store the connection object
       const signalRConnection: SignalRConnection = {
@@ -158,6 +201,117 @@ export class ConnectionManager {
     }
   }
 
+  /**
+   * Register an agent on the shared hub connection, opening it if needed
+   */
+  private async attachAgentToSharedConnection(agent: Agent, agentIndex: number): Promise<void> {
+    this.emitConnectionChange(agentIndex, 'connecting');
+
+    try {
+      const connection = await this.ensureSharedConnection();
+
+      this.connections.set(agentIndex, {
+        connection,
+        agentIndex,
+        reconnectAttempts: 0,
+        threadId: this.connections.get(agentIndex)?.threadId
+      });
+
+      this.emitConnectionChange(agentIndex, 'connected');
+      this.loadThreadHistory(agentIndex);
+
+      try {
+        await this.subscribeToAgent(agent, agentIndex);
+      } catch (error) {
+        console.warn(`[ConnectionManager] Failed to subscribe to agent ${agentIndex} on shared connection:`, error);
+      }
+    } catch (error) {
+      console.error(`[ConnectionManager] Error attaching agent ${agentIndex} to shared connection:`, error);
+      this.emitConnectionChange(agentIndex, 'disconnected', error instanceof Error ? error.message : String(error));
+      this.events.onConnectionError(agentIndex, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the shared hub connection, starting it once for all agents
+   */
+  private ensureSharedConnection(): Promise<HubConnection> {
+    if (this.sharedConnection && this.sharedConnection.state !== 'Disconnected') {
+      return Promise.resolve(this.sharedConnection);
+    }
+
+    if (!this.sharedConnectionPromise) {
+      this.sharedConnectionPromise = (async () => {
+        const connection = this.createHubConnection();
+        await this.startConnection(connection, 'shared connection');
+
+        this.sharedConnection = connection;
+        this.setupSharedSignalRHandlers(connection);
+        this.setupSharedConnectionHandlers(connection);
+        return connection;
+      })().finally(() => {
+        this.sharedConnectionPromise = null;
+      });
+    }
+
+    return this.sharedConnectionPromise;
+  }
+
+  /**
+   * Create a SignalR hub connection with the standard reconnect policy
+   */
+  private createHubConnection(): HubConnection {
+    const hubUrl = this.buildHubUrl();
+
+    // Create the SignalR connection with authentication
+    return new HubConnectionBuilder()
+      .withUrl(hubUrl, {
+        accessTokenFactory: () => this.getAccessToken(),
+        timeout: 30000,
+        skipNegotiation: false,
+        transport: 1 // WebSockets only
+      })
+      .withAutomaticReconnect({
+        nextRetryDelayInMilliseconds: (retryContext) => {
+          if (retryContext.previousRetryCount === 0) {
+            return 1000;
+          }
+          return Math.min(1000 * Math.pow(2, retryContext.previousRetryCount), 30000);
+        }
+      })
+      .configureLogging(LogLevel.Information)
+      .build();
+  }
+
+  /**
+   * Start a connection with retry logic
+   */
+  private async startConnection(connection: HubConnection, label: string): Promise<void> {
+    let retries = 0;
+    const maxRetries = 3;
+
+    while (retries < maxRetries) {
+      try {
+        await connection.start();
+        console.log(`[ConnectionManager] Connected to SignalR hub for ${label}`);
+        return;
+      } catch (startError) {
+        retries++;
+        if (retries >= maxRetries) {
+          throw startError;
+        }
+        if (isUnauthorizedError(startError)) {
+          // Force a fresh token for the next attempt
+          console.warn(`[ConnectionManager] Credential rejected for ${label}, refreshing token...`);
+          this.credentialProvider?.invalidate?.();
+        }
+        console.warn(`[ConnectionManager] Connection attempt ${retries} failed for ${label}, retrying...`);
+        await new Promise(resolve => setTimeout(resolve, 1000 * retries));
+      }
+    }
+  }
+
   /**
    * Build SignalR Hub URL
    */
@@ -166,9 +320,57 @@ export class ConnectionManager {
     
     const baseUrl = this.settings.agentWebsocketUrl;
     const tenantId = this.settings.tenantId || '';
-    const token = this.settings.agentApiKey || '';
     
-    return `${baseUrl}?tenantId=${encodeURIComponent(tenantId)}&access_token=${encodeURIComponent(token)}`;
+    // The access token is supplied by accessTokenFactory, never baked into the URL
+    return `${baseUrl}?tenantId=${encodeURIComponent(tenantId)}`;
+  }
+
+  /**
+   * Resolve the current access token from the credential provider
+   */
+  private async getAccessToken(): Promise<string> {
+    if (!this.credentialProvider) {
+      throw new Error('ConnectionManager has no credential provider');
+    }
+    return this.credentialProvider.getAccessToken();
+  }
+
+  /**
+   * Invalidate the cached credential and re-establish every agent connection with a fresh token.
+   * Agents are re-subscribed once the new connection is up.
+   */
+  async refreshCredentials(): Promise<void> {
+    this.credentialProvider?.invalidate?.();
+    const agentIndexes = Array.from(this.connections.keys());
+    console.log(`[ConnectionManager] Refreshing credentials for ${agentIndexes.length} agents`);
+
+    if (this.mode === 'shared') {
+      await this.stopSharedConnection();
+      agentIndexes.forEach(agentIndex => this.emitConnectionChange(agentIndex, 'connecting'));
+
+      try {
+        const connection = await this.ensureSharedConnection();
+        this.resubscribeAgents(connection);
+      } catch (error) {
+        console.error(`[ConnectionManager] Failed to reconnect shared connection after credential refresh:`, error);
+        agentIndexes.forEach(agentIndex => {
+          this.emitConnectionChange(agentIndex, 'disconnected', error instanceof Error ? error.message : String(error));
+          this.events.onConnectionError(agentIndex, error);
+        });
+      }
+      return;
+    }
+
+    await Promise.allSettled(agentIndexes.map(async agentIndex => {
+      const agent = this.agents[agentIndex];
+      if (!agent) return;
+
+      const threadId = this.getThreadId(agentIndex);
+      await this.connectToAgent(agent, agentIndex);
+      if (threadId) {
+        this.setThreadId(agentIndex, threadId);
+      }
+    }));
   }
 
   /**
@@ -177,18 +379,13 @@ export class ConnectionManager {
    */
   private setupSignalRHandlers(connection: HubConnection, agentIndex: number): void {
     const agent = this.agents[agentIndex];
+    if (this.handlersRegistered.has(connection)) {
+      console.log(`[ConnectionManager] SignalR handlers already registered for agent ${agentIndex} (${agent?.workflowId})`);
+      return;
+    }
+    this.handlersRegistered.add(connection);
     console.log(`[ConnectionManager] Setting up SignalR handlers for agent ${agentIndex} (${agent?.workflowId})`);
 
-    // Add a catch-all handler to see ALL events
-    const originalOn = connection.on.bind(connection);
-    connection.on = function(methodName: string, newMethod: (...args: any[]) => void) {
-      console.log(`[ConnectionManager] 🎯 Registering handler for event: ${methodName} on agent ${agentIndex}`);
-      return originalOn(methodName, (...args: any[]) => {
-        console.log(`[ConnectionManager] 📨 Received event '${methodName}' for agent ${agentIndex}:`, args);
-        return newMethod(...args);
-      });
-    };
-
     // Handle received messages (real-time)
     connection.on('ReceiveMessage', (message: Message) => {
       console.log(`[ConnectionManager] ✅ ReceiveMessage for agent ${agentIndex} (${agent?.title}):`, message);
@@ -211,8 +408,9 @@ export class ConnectionManager {
 
     // Handle thread history
     connection.on('ThreadHistory', (history: Message[]) => {
-      console.log(`[ConnectionManager] ThreadHistory for agent ${agentIndex}: ${history.length} messages`);
-      this.messageProcessor.processThreadHistory(history, agentIndex);
+      console.log(`[ConnectionManager] ThreadHistory for agent ${agentIndex}: ${history?.length || 0} messages`);
+      this.removePendingHistoryAgent(agentIndex);
+      this.handleThreadHistory(history || [], agentIndex);
     });
 
     // Connection established
@@ -234,31 +432,361 @@ export class ConnectionManager {
   }
 
   /**
-   * Load thread history for an agent
-   * Moved from WebSocketHub for better separation of concerns
+   * Setup SignalR event handlers once for the shared connection.
+   * Incoming traffic is demultiplexed to agents by workflowId.
+   */
+  private setupSharedSignalRHandlers(connection: HubConnection): void {
+    if (this.handlersRegistered.has(connection)) return;
+    this.handlersRegistered.add(connection);
+    console.log(`[ConnectionManager] Setting up shared SignalR handlers for ${this.agents.length} agents`);
+
+    connection.on('ReceiveMessage', (message: Message) => {
+      const agentIndex = this.getAgentIndexByWorkflowId(message?.workflowId);
+      if (agentIndex === null) {
+        console.warn(`[ConnectionManager] ReceiveMessage for unknown workflow: ${message?.workflowId}`);
+        return;
+      }
+      console.log(`[ConnectionManager] ✅ ReceiveMessage for agent ${agentIndex} (${this.agents[agentIndex]?.title}):`, message);
+      this.messageProcessor.processMessage(message.workflowId, message, agentIndex);
+    });
+
+    connection.on('ReceiveMetadata', (message: any) => {
+      console.log(`[ConnectionManager] 📊 ReceiveMetadata for workflow ${message?.workflowId}:`, message);
+      this.messageProcessor.processMetadata(message);
+    });
+
+    // With a workflowId the acknowledgement names its agent. A bare thread ID is matched to the
+    // oldest outstanding send, so a skipped or reordered acknowledgement misattributes thread IDs
+    // until the stray entry times out (INBOUND_ACK_TIMEOUT) or the connection closes.
+    connection.on('InboundProcessed', (payload: InboundProcessedPayload) => {
+      const { threadId, workflowId } = typeof payload === 'string' ? { threadId: payload, workflowId: undefined } : payload;
+      const namedAgent = this.getAgentIndexByWorkflowId(workflowId);
+      const pending = this.takePendingInbound(namedAgent ?? undefined);
+      const agentIndex = namedAgent ?? pending?.agentIndex;
+      if (agentIndex === undefined) {
+        console.warn(`[ConnectionManager] InboundProcessed with no outstanding send: ${threadId}`);
+        return;
+      }
+      console.log(`[ConnectionManager] InboundProcessed for agent ${agentIndex}: ${threadId}`);
+      this.messageProcessor.processThreadUpdate(threadId, agentIndex);
+    });
+
+    // An empty page carries no workflowId, so it is matched to the oldest outstanding history request
+    connection.on('ThreadHistory', (history: Message[]) => {
+      let agentIndex: number | null | undefined;
+      if (!history || history.length === 0) {
+        agentIndex = this.pendingHistoryAgents.shift();
+        if (agentIndex === undefined) return;
+      } else {
+        agentIndex = this.getAgentIndexByWorkflowId(history[0].workflowId);
+        if (agentIndex === null) {
+          console.warn(`[ConnectionManager] ThreadHistory for unknown workflow: ${history[0].workflowId}`);
+          return;
+        }
+        this.removePendingHistoryAgent(agentIndex);
+      }
+      console.log(`[ConnectionManager] ThreadHistory for agent ${agentIndex}: ${history?.length || 0} messages`);
+      this.handleThreadHistory(history || [], agentIndex);
+    });
+
+    connection.on('Error', (error: any) => {
+      console.error(`[ConnectionManager] ❌ Error event on shared connection:`, error);
+    });
+
+    console.log(`[ConnectionManager] 🎯 Shared SignalR handlers registered`);
+  }
+
+  /**
+   * Setup state change handlers for the shared connection, fanning out to every attached agent
+   */
+  private setupSharedConnectionHandlers(connection: HubConnection): void {
+    connection.onreconnecting((error) => {
+      console.log(`[ConnectionManager] Reconnecting shared connection...`, error);
+      this.connections.forEach((signalRConnection, agentIndex) => {
+        signalRConnection.reconnectAttempts++;
+        this.emitConnectionChange(agentIndex, 'connecting');
+      });
+    });
+
+    connection.onreconnected((connectionId) => {
+      console.log(`[ConnectionManager] Shared connection reconnected. Connection ID: ${connectionId}`);
+      this.clearPendingInbound();
+      this.abandonHistoryRequests();
+      this.resubscribeAgents(connection);
+    });
+
+    connection.onclose((error) => {
+      console.log(`[ConnectionManager] Shared connection closed`, error);
+      // Intentional stops clear sharedConnection first and report per agent themselves
+      if (this.sharedConnection !== connection) return;
+
+      this.sharedConnection = null;
+      this.clearPendingInbound();
+      this.abandonHistoryRequests();
+      this.connections.forEach((_, agentIndex) => {
+        this.emitConnectionChange(agentIndex, 'disconnected', error?.toString());
+      });
+
+      // Reconnect gave up because the token was rejected; retry with a fresh one
+      if (isUnauthorizedError(error)) {
+        this.refreshCredentials().catch(refreshError => {
+          console.error(`[ConnectionManager] Failed to refresh credentials after the connection was rejected:`, refreshError);
+          this.connections.forEach((_, agentIndex) => {
+            this.emitConnectionChange(agentIndex, 'disconnected', refreshError instanceof Error ? refreshError.message : String(refreshError));
+            this.events.onConnectionError(agentIndex, refreshError);
+          });
+        });
+      }
+    });
+  }
+
+  /**
+   * Point every attached agent at the (re)established shared connection and re-subscribe it
+   */
+  private resubscribeAgents(connection: HubConnection): void {
+    this.connections.forEach((signalRConnection, agentIndex) => {
+      signalRConnection.connection = connection;
+      signalRConnection.reconnectAttempts = 0;
+      this.emitConnectionChange(agentIndex, 'connected');
+
+      const agent = this.agents[agentIndex];
+      if (agent) {
+        this.subscribeToAgent(agent, agentIndex).catch(error => {
+          console.warn(`[ConnectionManager] Failed to re-subscribe agent ${agentIndex}:`, error);
+        });
+        // Catch up on anything missed while offline; duplicates are dropped by message ID
+        this.loadThreadHistory(agentIndex);
+      }
+    });
+  }
+
+  /**
+   * Resolve an agent index from a workflow ID
+   */
+  private getAgentIndexByWorkflowId(workflowId: string | undefined): number | null {
+    if (!workflowId) return null;
+    const agentIndex = this.agents.findIndex(agent => agent.workflowId === workflowId);
+    return agentIndex >= 0 ? agentIndex : null;
+  }
+
+  /**
+   * Send an inbound message to an agent over its connection
+   */
+  async sendInboundMessage(agentIndex: number, request: any): Promise<void> {
+    const connection = this.getConnection(agentIndex);
+    if (!connection || connection.state !== 'Connected') {
+      throw new Error(`No connection available for agent ${agentIndex}`);
+    }
+
+    if (this.mode !== 'shared') {
+      await connection.invoke('SendInboundMessage', request);
+      return;
+    }
+
+    const pending: PendingInbound = {
+      agentIndex,
+      timer: setTimeout(() => {
+        console.warn(`[ConnectionManager] No InboundProcessed for agent ${agentIndex} after ${INBOUND_ACK_TIMEOUT}ms`);
+        this.removePendingInbound(pending);
+      }, INBOUND_ACK_TIMEOUT)
+    };
+    this.pendingInbound.push(pending);
+    try {
+      await connection.invoke('SendInboundMessage', request);
+    } catch (error) {
+      // The send never reached the server, so no InboundProcessed will follow for it
+      this.removePendingInbound(pending);
+      throw error;
+    }
+  }
+
+  /**
+   * Take the oldest outstanding send, of the given agent if one is named
+   */
+  private takePendingInbound(agentIndex?: number): PendingInbound | undefined {
+    const pending = this.pendingInbound.find(entry => agentIndex === undefined || entry.agentIndex === agentIndex);
+    if (pending) {
+      this.removePendingInbound(pending);
+    }
+    return pending;
+  }
+
+  private removePendingInbound(pending: PendingInbound): void {
+    clearTimeout(pending.timer);
+    const position = this.pendingInbound.indexOf(pending);
+    if (position !== -1) {
+      this.pendingInbound.splice(position, 1);
+    }
+  }
+
+  private clearPendingInbound(): void {
+    this.pendingInbound.forEach(({ timer }) => clearTimeout(timer));
+    this.pendingInbound = [];
+  }
+
+  /**
+   * Get the connection mode
    */
-  private async loadThreadHistory(agentIndex: number): Promise<void> {
+  getMode(): ConnectionMode {
+    return this.mode;
+  }
+
+  /**
+   * Get the number of open hub connections (sockets)
+   */
+  getSocketCount(): number {
+    const sockets = new Set(Array.from(this.connections.values()).map(({ connection }) => connection));
+    return sockets.size;
+  }
+
+  /**
+   * Load one page of thread history for an agent (page 1 is the most recent).
+   * Resolves false when the request could not be sent; the page itself arrives via ThreadHistory.
+   */
+  private async loadThreadHistory(agentIndex: number, page: number = 1): Promise<boolean> {
     const agent = this.agents[agentIndex];
     if (!agent?.workflowType || !this.settings?.participantId) {
       console.warn(`[ConnectionManager] Cannot load thread history for agent ${agentIndex}: missing workflowType or participantId`);
-      return;
+      return false;
     }
 
     const connection = this.getConnection(agentIndex);
     if (!connection) {
       console.warn(`[ConnectionManager] Cannot load thread history for agent ${agentIndex}: no connection`);
-      return;
+      return false;
     }
 
+    const state = this.getHistoryPages(agentIndex);
+    state.requestedPages.push(page);
+    this.pendingHistoryAgents.push(agentIndex);
+    this.armHistoryTimeout(agentIndex);
+
     try {
       await connection.invoke('GetThreadHistory',
         agent.workflowType,
         this.settings.participantId,
-        1,  // Page number
-        20  // Page size
+        page,
+        HISTORY_PAGE_SIZE
       );
+      return true;
     } catch (error) {
-      console.error(`[ConnectionManager] Error loading thread history for agent ${agentIndex}:`, error);
+      console.error(`[ConnectionManager] Error loading thread history page ${page} for agent ${agentIndex}:`, error);
+      this.removePendingHistoryAgent(agentIndex);
+      this.completeHistoryPage(agentIndex, page, []);
+      return false;
+    }
+  }
+
+  /**
+   * Request the next older page of thread history for an agent.
+   * Resolves false if a page is already loading or the start of the thread has been reached.
+   */
+  async loadOlderHistory(agentIndex: number): Promise<boolean> {
+    const state = this.getHistoryPages(agentIndex);
+    if (state.requestedPages.length > 0) {
+      return false;
+    }
+    if (state.loadedPages > 0 && !state.hasMore) {
+      return false;
+    }
+
+    return this.loadThreadHistory(agentIndex, state.loadedPages + 1);
+  }
+
+  /**
+   * Request the most recent page again, e.g. for another tab that has just joined.
+   * Paging state is kept, so it does not reset how far back older pages were loaded.
+   */
+  async reloadLatestHistory(agentIndex: number): Promise<boolean> {
+    return this.loadThreadHistory(agentIndex, 1);
+  }
+
+  /**
+   * Get the history paging state for an agent
+   */
+  getHistoryState(agentIndex: number): HistoryState {
+    const state = this.getHistoryPages(agentIndex);
+    return {
+      loadedPages: state.loadedPages,
+      hasMore: state.hasMore,
+      loading: state.requestedPages.length > 0
+    };
+  }
+
+  private getHistoryPages(agentIndex: number) {
+    let state = this.historyPages.get(agentIndex);
+    if (!state) {
+      state = { loadedPages: 0, hasMore: true, requestedPages: [] };
+      this.historyPages.set(agentIndex, state);
+    }
+    return state;
+  }
+
+  /**
+   * Match a ThreadHistory reply to the oldest page requested for the agent
+   */
+  private handleThreadHistory(history: Message[], agentIndex: number): void {
+    const state = this.getHistoryPages(agentIndex);
+    // Unsolicited history (e.g. pushed by the server) is treated as the first page
+    const page = state.requestedPages[0] ?? 1;
+    this.completeHistoryPage(agentIndex, page, history);
+  }
+
+  private completeHistoryPage(agentIndex: number, page: number, history: Message[], timedOut: boolean = false): void {
+    const state = this.getHistoryPages(agentIndex);
+    const requestIndex = state.requestedPages.indexOf(page);
+    if (requestIndex !== -1) {
+      state.requestedPages.splice(requestIndex, 1);
+    }
+    if (state.requestedPages.length === 0 && state.timeout) {
+      clearTimeout(state.timeout);
+      state.timeout = undefined;
+    }
+
+    // Reloading page 1 after a reconnect must not reset how far back the user has scrolled
+    if (!timedOut && page >= state.loadedPages) {
+      state.loadedPages = page;
+      state.hasMore = history.length >= HISTORY_PAGE_SIZE;
+    }
+
+    const pageInfo: HistoryPageInfo = { page, pageSize: HISTORY_PAGE_SIZE, hasMore: state.hasMore };
+    this.messageProcessor.processThreadHistory(history, agentIndex, pageInfo);
+  }
+
+  /**
+   * Give up on history pages the server never answered
+   */
+  private armHistoryTimeout(agentIndex: number): void {
+    const state = this.getHistoryPages(agentIndex);
+    if (state.timeout) {
+      clearTimeout(state.timeout);
+    }
+
+    state.timeout = setTimeout(() => {
+      state.timeout = undefined;
+      console.warn(`[ConnectionManager] Thread history for agent ${agentIndex} timed out after ${HISTORY_TIMEOUT}ms`);
+      this.abandonHistoryRequests(agentIndex);
+    }, HISTORY_TIMEOUT);
+  }
+
+  /**
+   * Drop outstanding history requests (all agents when no index is given), reporting each page as empty
+   */
+  private abandonHistoryRequests(agentIndex?: number): void {
+    this.historyPages.forEach((state, index) => {
+      if (agentIndex !== undefined && index !== agentIndex) return;
+
+      [...state.requestedPages].forEach(page => {
+        this.removePendingHistoryAgent(index);
+        this.completeHistoryPage(index, page, [], true);
+      });
+    });
+  }
+
+  private removePendingHistoryAgent(agentIndex: number): void {
+    const position = this.pendingHistoryAgents.indexOf(agentIndex);
+    if (position !== -1) {
+      this.pendingHistoryAgents.splice(position, 1);
     }
   }
 
@@ -279,14 +807,25 @@ export class ConnectionManager {
       signalRConnection.reconnectAttempts = 0;
       this.emitConnectionChange(agentIndex, 'connected');
       
-      // Re-setup handlers and re-subscribe to agent after reconnection
-      this.setupSignalRHandlers(connection, agentIndex);
-      this.subscribeToAgent(agent, agentIndex);
+      // Handlers survive the reconnect; re-subscribe and catch up on anything missed while offline
+      this.abandonHistoryRequests(agentIndex);
+      this.subscribeToAgent(agent, agentIndex).catch(error => {
+        console.warn(`[ConnectionManager] Failed to re-subscribe agent ${agentIndex}:`, error);
+      });
+      this.loadThreadHistory(agentIndex);
     });
 
     connection.onclose((error) => {
       console.log(`[ConnectionManager] Connection closed for agent ${agentIndex} (${agent.workflowId})`, error);
       this.emitConnectionChange(agentIndex, 'disconnected', error?.toString());
+
+      // Reconnect gave up because the token was rejected; retry with a fresh one
+      if (isUnauthorizedError(error) && this.connections.get(agentIndex)?.connection === connection) {
+        this.credentialProvider?.invalidate?.();
+        this.connectToAgent(agent, agentIndex).catch(reconnectError => {
+          console.error(`[ConnectionManager] Failed to reconnect agent ${agentIndex} after credential refresh:`, reconnectError);
+        });
+      }
     });
   }
 
@@ -320,6 +859,7 @@ export class ConnectionManager {
       );
       
       console.log(`[ConnectionManager] ✅ Successfully subscribed to agent ${agentIndex} (${agent.workflowId})`);
+      this.events.onAgentSubscribed?.(agentIndex);
     } catch (error) {
       console.error(`[ConnectionManager] ❌ Error subscribing to agent ${agentIndex} (${agent.workflowId}):`, error);
       throw error;
@@ -408,6 +948,17 @@ export class ConnectionManager {
     const signalRConnection = this.connections.get(agentIndex);
     if (!signalRConnection) return;
 
+    if (this.mode === 'shared') {
+      // Detach the agent; the socket itself stays open while other agents use it
+      this.connections.delete(agentIndex);
+      this.emitConnectionChange(agentIndex, 'disconnected');
+      if (this.connections.size === 0) {
+        await this.stopSharedConnection();
+      }
+      console.log(`[ConnectionManager] Agent ${agentIndex} detached from shared connection`);
+      return;
+    }
+
     try {
       console.log(`[ConnectionManager] Disconnecting agent ${agentIndex}...`);
       await signalRConnection.connection.stop();
@@ -430,9 +981,29 @@ export class ConnectionManager {
     
     await Promise.allSettled(disconnectPromises);
     this.connections.clear();
+    await this.stopSharedConnection();
+    this.historyPages.clear();
     console.log(`[ConnectionManager] All agents disconnected`);
   }
 
+  /**
+   * Stop the shared hub connection if one is open
+   */
+  private async stopSharedConnection(): Promise<void> {
+    const connection = this.sharedConnection;
+    if (!connection) return;
+
+    this.sharedConnection = null;
+    this.clearPendingInbound();
+    this.abandonHistoryRequests();
+    try {
+      await connection.stop();
+      console.log(`[ConnectionManager] Shared connection stopped`);
+    } catch (error) {
+      console.error(`[ConnectionManager] Error stopping shared connection:`, error);
+    }
+  }
+
   /**
    * Emit connection state change
    */
@@ -0,0 +1,98 @@
+import { HttpError } from '@microsoft/signalr';
+
+/**
+ * Supplies access tokens to the SignalR hub via accessTokenFactory.
+ * The factory is called on every start and reconnect, so rotated keys
+ * are picked up without rebuilding the hub.
+ */
+export interface CredentialProvider {
+  getAccessToken(): Promise<string>;
+  /** Drop any cached token so the next call fetches a fresh one */
+  invalidate?(): void;
+}
+
+/**
+ * Result returned by a token callback
+ */
+export interface IssuedToken {
+  token: string;
+  expiresAt?: Date | number;
+}
+
+export type TokenCallback = () => Promise<IssuedToken | string>;
+
+/**
+ * Static API key (the key configured in Settings)
+ */
+export class StaticKeyCredentialProvider implements CredentialProvider {
+  private readonly apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  async getAccessToken(): Promise<string> {
+    return this.apiKey;
+  }
+}
+
+/**
+ * Short-lived tokens (e.g. JWTs) issued by a callback and cached until shortly before expiry
+ */
+export class CallbackCredentialProvider implements CredentialProvider {
+  private cachedToken: string | null = null;
+  private expiresAt: number | null = null;
+  private pendingToken: Promise<string> | null = null;
+  private readonly callback: TokenCallback;
+  private readonly refreshSkewMs: number;
+
+  constructor(callback: TokenCallback, refreshSkewMs: number = 30000) {
+    this.callback = callback;
+    this.refreshSkewMs = refreshSkewMs;
+  }
+
+  async getAccessToken(): Promise<string> {
+    if (this.cachedToken && (this.expiresAt === null || Date.now() < this.expiresAt - this.refreshSkewMs)) {
+      return this.cachedToken;
+    }
+
+    // Concurrent callers share a single in-flight fetch
+    if (!this.pendingToken) {
+      this.pendingToken = this.fetchToken().finally(() => {
+        this.pendingToken = null;
+      });
+    }
+
+    return this.pendingToken;
+  }
+
+  invalidate(): void {
+    this.cachedToken = null;
+    this.expiresAt = null;
+  }
+
+  private async fetchToken(): Promise<string> {
+    const issued = await this.callback();
+    const { token, expiresAt } = typeof issued === 'string' ? { token: issued, expiresAt: undefined } : issued;
+
+    if (!token) {
+      throw new Error('Token callback returned an empty token');
+    }
+
+    this.cachedToken = token;
+    this.expiresAt = expiresAt === undefined ? null : new Date(expiresAt).getTime();
+    console.log(`[CredentialProvider] Token refreshed${this.expiresAt ? `, expires at ${new Date(this.expiresAt).toISOString()}` : ''}`);
+    return token;
+  }
+}
+
+/**
+ * Check whether a SignalR error was caused by a rejected credential
+ */
+export function isUnauthorizedError(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.statusCode === 401;
+  }
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  return /\b401\b|unauthori[sz]ed/i.test(message);
+}
@@ -0,0 +1,129 @@
+import { BaseEntity } from '../types';
+
+export type IndexKey = string | number;
+
+/**
+ * Extracts the key(s) an entity is indexed under; entities without a key are left out
+ */
+export type IndexKeyFn = (entity: BaseEntity) => IndexKey | IndexKey[] | undefined | null;
+
+// Indexes every store starts with
+export const DEFAULT_INDEXES: Record<string, IndexKeyFn> = {
+  type: entity => entity.type,
+  documentId: entity => (entity as any).documentId,
+  stepIndex: entity => (entity as any).stepIndex,
+  relatedEntityIds: entity => (entity as any).relatedEntityIds
+};
+
+/**
+ * EntityIndexer keeps named secondary indexes (key -> entity ids) in step with the store.
+ * It remembers each entity's keys, so an update or delete does not need the previous entity.
+ */
+export class EntityIndexer {
+  private definitions: Map<string, IndexKeyFn> = new Map();
+  private postings: Map<string, Map<IndexKey, Set<string>>> = new Map();
+  private entityKeys: Map<string, Map<string, IndexKey[]>> = new Map();
+
+  constructor(definitions: Record<string, IndexKeyFn> = {}) {
+    Object.entries(definitions).forEach(([name, keyFn]) => this.define(name, keyFn));
+  }
+
+  /**
+   * Add (or replace) an index and build it from the given entities
+   */
+  define(name: string, keyFn: IndexKeyFn, entities: Iterable<BaseEntity> = []): void {
+    this.definitions.set(name, keyFn);
+    this.postings.set(name, new Map());
+    this.entityKeys.forEach(keysByIndex => keysByIndex.delete(name));
+
+    for (const entity of entities) {
+      this.indexEntity(name, entity);
+    }
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  getIndexNames(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Index a new or updated entity
+   */
+  put(entity: BaseEntity): void {
+    this.definitions.forEach((_, name) => this.indexEntity(name, entity));
+  }
+
+  remove(entityId: string): void {
+    const keysByIndex = this.entityKeys.get(entityId);
+    if (!keysByIndex) return;
+
+    keysByIndex.forEach((keys, name) => keys.forEach(key => this.removePosting(name, key, entityId)));
+    this.entityKeys.delete(entityId);
+  }
+
+  clear(): void {
+    this.definitions.forEach((_, name) => this.postings.set(name, new Map()));
+    this.entityKeys.clear();
+  }
+
+  rebuild(entities: Iterable<BaseEntity>): void {
+    this.clear();
+    for (const entity of entities) {
+      this.put(entity);
+    }
+  }
+
+  /**
+   * Ids of the entities indexed under a key, in insertion order
+   */
+  lookup(name: string, key: IndexKey): string[] {
+    const index = this.postings.get(name);
+    if (!index) {
+      console.warn(`[EntityIndexer] Unknown index: ${name}`);
+      return [];
+    }
+    return Array.from(index.get(key) || []);
+  }
+
+  getStats(): Array<{ name: string; keys: number }> {
+    return Array.from(this.postings.entries()).map(([name, index]) => ({ name, keys: index.size }));
+  }
+
+  private indexEntity(name: string, entity: BaseEntity): void {
+    const keyFn = this.definitions.get(name)!;
+    const raw = keyFn(entity);
+    const nextKeys = (Array.isArray(raw) ? raw : [raw]).filter((key): key is IndexKey => key !== undefined && key !== null);
+
+    let keysByIndex = this.entityKeys.get(entity.id);
+    if (!keysByIndex) {
+      keysByIndex = new Map();
+      this.entityKeys.set(entity.id, keysByIndex);
+    }
+    const previousKeys = keysByIndex.get(name) || [];
+
+    // Only touch keys that changed, so unchanged postings keep their order
+    previousKeys.filter(key => !nextKeys.includes(key)).forEach(key => this.removePosting(name, key, entity.id));
+    nextKeys.forEach(key => {
+      const index = this.postings.get(name)!;
+      if (!index.has(key)) {
+        index.set(key, new Set());
+      }
+      index.get(key)!.add(entity.id);
+    });
+
+    keysByIndex.set(name, nextKeys);
+  }
+
+  private removePosting(name: string, key: IndexKey, entityId: string): void {
+    const ids = this.postings.get(name)?.get(key);
+    if (!ids) return;
+
+    ids.delete(entityId);
+    if (ids.size === 0) {
+      this.postings.get(name)!.delete(key);
+    }
+  }
+}
@@ -0,0 +1,260 @@
+import { BaseEntity } from '../types';
+
+/**
+ * Serialized EntityStore contents. Entities are stored as plain JSON, so Date
+ * fields come back as ISO strings and are revived per entity type on load.
+ */
+export interface EntitySnapshot {
+  version: number;
+  savedAt: number;
+  entities: Record<string, any>[];
+  categories: Array<{ category: string; key: string; entityId: string }>;
+}
+
+/**
+ * Storage backend for entity snapshots
+ */
+export interface PersistenceAdapter {
+  load(): Promise<EntitySnapshot | null>;
+  save(snapshot: EntitySnapshot): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Retention and revival rules for one entity type
+ */
+export interface EntityTypePolicy {
+  /** Set to false to keep this type in memory only */
+  persist?: boolean;
+  /** Drop entities not updated within this many ms */
+  ttlMs?: number;
+  /** Keep at most this many entities, most recently updated first */
+  maxEntries?: number;
+  /** Fields (besides createdAt/updatedAt) holding Dates */
+  dateFields?: string[];
+}
+
+export interface EntityPersistenceOptions {
+  adapter: PersistenceAdapter;
+  /** Policies keyed by entity type; merged over defaultPolicy */
+  policies?: Record<string, EntityTypePolicy>;
+  defaultPolicy?: EntityTypePolicy;
+  /** Delay before writing after a change (default 500ms) */
+  debounceMs?: number;
+}
+
+const SNAPSHOT_VERSION = 1;
+const BASE_DATE_FIELDS = ['createdAt', 'updatedAt'];
+
+// Date fields of the built-in entity types (see types/entities)
+const DEFAULT_POLICIES: Record<string, EntityTypePolicy> = {
+  task: { dateFields: ['dueDate', 'completedDate'] },
+  finding: { dateFields: ['discoveredAt', 'resolvedAt'] },
+  submission_receipt: { dateFields: ['submittedAt'] }
+};
+
+/**
+ * Turn ISO strings back into Dates for createdAt/updatedAt and the given fields
+ * (by default those of the built-in entity types)
+ */
+export const reviveEntity = (raw: Record<string, any>, dateFields: string[] = DEFAULT_POLICIES[raw.type]?.dateFields || []): BaseEntity => {
+  const entity = { ...raw };
+
+  [...BASE_DATE_FIELDS, ...dateFields].forEach(field => {
+    const value = entity[field];
+    if (typeof value === 'string' || typeof value === 'number') {
+      const date = new Date(value);
+      if (!Number.isNaN(date.getTime())) {
+        entity[field] = date;
+      }
+    }
+  });
+
+  return entity as BaseEntity;
+};
+
+/**
+ * IndexedDB-backed snapshot storage. The whole store is kept as a single record.
+ */
+export class IndexedDBPersistenceAdapter implements PersistenceAdapter {
+  private readonly dbName: string;
+  private readonly storeName = 'snapshots';
+  private readonly recordKey = 'entity-store';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string = 'agent-squad-entities') {
+    this.dbName = dbName;
+  }
+
+  async load(): Promise<EntitySnapshot | null> {
+    const db = await this.open();
+    const result = await this.run<EntitySnapshot | undefined>(db, 'readonly', store => store.get(this.recordKey));
+    return result ?? null;
+  }
+
+  async save(snapshot: EntitySnapshot): Promise<void> {
+    const db = await this.open();
+    await this.run(db, 'readwrite', store => store.put(snapshot, this.recordKey));
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    await this.run(db, 'readwrite', store => store.delete(this.recordKey));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow a later call to retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private run<T>(db: IDBDatabase, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * In-memory snapshot storage, for tests and environments without IndexedDB
+ */
+export class InMemoryPersistenceAdapter implements PersistenceAdapter {
+  private snapshot: string | null = null;
+
+  async load(): Promise<EntitySnapshot | null> {
+    return this.snapshot ? JSON.parse(this.snapshot) : null;
+  }
+
+  async save(snapshot: EntitySnapshot): Promise<void> {
+    // Round-trip through JSON so Dates behave exactly as they do in IndexedDB snapshots
+    this.snapshot = JSON.stringify(snapshot);
+  }
+
+  async clear(): Promise<void> {
+    this.snapshot = null;
+  }
+}
+
+/**
+ * EntityPersistence turns store contents into snapshots and back,
+ * applying the per-type retention policy in both directions.
+ */
+export class EntityPersistence {
+  private readonly adapter: PersistenceAdapter;
+  private readonly policies: Record<string, EntityTypePolicy>;
+  private readonly defaultPolicy: EntityTypePolicy;
+  readonly debounceMs: number;
+
+  constructor(options: EntityPersistenceOptions) {
+    this.adapter = options.adapter;
+    this.policies = { ...DEFAULT_POLICIES, ...options.policies };
+    this.defaultPolicy = options.defaultPolicy || {};
+    this.debounceMs = options.debounceMs ?? 500;
+  }
+
+  getPolicy(type: string): EntityTypePolicy {
+    return { ...this.defaultPolicy, ...this.policies[type] };
+  }
+
+  /**
+   * Load the stored snapshot and revive its entities; expired entries are dropped
+   */
+  async load(): Promise<{ entities: BaseEntity[]; categories: EntitySnapshot['categories'] } | null> {
+    const snapshot = await this.adapter.load();
+    if (!snapshot) return null;
+
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      console.warn(`[EntityPersistence] Ignoring snapshot with unsupported version ${snapshot.version}`);
+      return null;
+    }
+
+    const entities = this.applyRetention(snapshot.entities.map(entity => this.revive(entity)));
+    const entityIds = new Set(entities.map(entity => entity.id));
+    const categories = snapshot.categories.filter(entry => entityIds.has(entry.entityId));
+
+    console.log(`[EntityPersistence] Loaded ${entities.length}/${snapshot.entities.length} entities from snapshot saved at ${new Date(snapshot.savedAt).toISOString()}`);
+    return { entities, categories };
+  }
+
+  /**
+   * Write a snapshot of the given entities and category entries
+   */
+  async save(entities: BaseEntity[], categories: EntitySnapshot['categories']): Promise<void> {
+    const retained = this.applyRetention(entities.filter(entity => this.getPolicy(entity.type).persist !== false));
+    const entityIds = new Set(retained.map(entity => entity.id));
+
+    const snapshot: EntitySnapshot = {
+      version: SNAPSHOT_VERSION,
+      savedAt: Date.now(),
+      entities: retained.map(entity => JSON.parse(JSON.stringify(entity))),
+      categories: categories.filter(entry => entityIds.has(entry.entityId))
+    };
+
+    await this.adapter.save(snapshot);
+  }
+
+  async clear(): Promise<void> {
+    await this.adapter.clear();
+  }
+
+  /**
+   * Turn ISO strings back into Dates for the entity type's date fields
+   */
+  private revive(raw: Record<string, any>): BaseEntity {
+    return reviveEntity(raw, this.getPolicy(raw.type).dateFields || []);
+  }
+
+  /**
+   * Apply TTL and maxEntries per entity type
+   */
+  private applyRetention(entities: BaseEntity[]): BaseEntity[] {
+    const now = Date.now();
+    const byType = new Map<string, BaseEntity[]>();
+
+    entities.forEach(entity => {
+      const { ttlMs } = this.getPolicy(entity.type);
+      const updatedAt = new Date(entity.updatedAt).getTime();
+      if (ttlMs !== undefined && !Number.isNaN(updatedAt) && now - updatedAt > ttlMs) {
+        return;
+      }
+
+      const list = byType.get(entity.type) || [];
+      list.push(entity);
+      byType.set(entity.type, list);
+    });
+
+    return Array.from(byType.entries()).flatMap(([type, list]) => {
+      const { maxEntries } = this.getPolicy(type);
+      if (maxEntries === undefined || list.length <= maxEntries) {
+        return list;
+      }
+      return [...list]
+        .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+        .slice(0, maxEntries);
+    });
+  }
+}
@@ -0,0 +1,170 @@
+import { BaseEntity, EntityQuery, EntityQueryResult, FieldPredicate, QueryCondition, QueryOrder, QueryValue } from '../types';
+import { schema, validateSchema, ValidationIssue } from './MessageContractRegistry';
+
+const OPERATORS = ['eq', 'ne', 'in', 'gt', 'gte', 'lt', 'lte', 'contains', 'exists'] as const;
+
+const { string, number, literal, array, object, optional } = schema;
+
+const querySchema = object({
+  type: optional(string()),
+  category: optional(string()),
+  ids: optional(array(string())),
+  orderBy: optional(array(object({ field: string(), direction: optional(literal('asc', 'desc')) }))),
+  groupBy: optional(string()),
+  offset: optional(number()),
+  limit: optional(number())
+});
+
+/**
+ * Values at a dotted path. Arrays along the path (and at its end) are flattened,
+ * so 'data.representatives.nationalId' yields one value per representative.
+ */
+export const resolveField = (entity: BaseEntity, path: string): any[] => {
+  let values: any[] = [entity];
+  for (const key of path.split('.')) {
+    values = values.flatMap(value => {
+      const next = value !== null && typeof value === 'object' ? value[key] : undefined;
+      return Array.isArray(next) ? next : [next];
+    });
+  }
+  return values.filter(value => value !== undefined && value !== null);
+};
+
+// Dates compare by time; an operand compared with a Date may be an ISO string or a timestamp
+const normalize = (value: any, operand: any): [any, any] => {
+  if (value instanceof Date) {
+    const time = typeof operand === 'string' || typeof operand === 'number' ? new Date(operand).getTime() : NaN;
+    return [value.getTime(), time];
+  }
+  return [value, operand];
+};
+
+const isEqual = (value: any, operand: QueryValue): boolean => {
+  const [a, b] = normalize(value, operand);
+  return a === b;
+};
+
+// Values of different types never compare
+const compareTo = (value: any, operand: QueryValue): number | null => {
+  const [a, b] = normalize(value, operand);
+  if (typeof a !== typeof b || (typeof a !== 'number' && typeof a !== 'string') || Number.isNaN(b)) return null;
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+const containsValue = (value: any, operand: QueryValue): boolean =>
+  typeof value === 'string' && typeof operand === 'string'
+    ? value.toLowerCase().includes(operand.toLowerCase())
+    : isEqual(value, operand);
+
+const matchesPredicate = (entity: BaseEntity, predicate: FieldPredicate): boolean => {
+  const values = resolveField(entity, predicate.field);
+  const some = (test: (value: any) => boolean) => values.some(test);
+  const compares = (operand: QueryValue, test: (order: number) => boolean) =>
+    some(value => {
+      const order = compareTo(value, operand);
+      return order !== null && test(order);
+    });
+
+  if (predicate.exists !== undefined && (values.length > 0) !== predicate.exists) return false;
+  if (predicate.eq !== undefined && !(predicate.eq === null ? values.length === 0 : some(value => isEqual(value, predicate.eq!)))) return false;
+  if (predicate.ne !== undefined && (predicate.ne === null ? values.length === 0 : some(value => isEqual(value, predicate.ne!)))) return false;
+  if (predicate.in !== undefined && !some(value => predicate.in!.some(operand => isEqual(value, operand)))) return false;
+  if (predicate.gt !== undefined && !compares(predicate.gt, order => order > 0)) return false;
+  if (predicate.gte !== undefined && !compares(predicate.gte, order => order >= 0)) return false;
+  if (predicate.lt !== undefined && !compares(predicate.lt, order => order < 0)) return false;
+  if (predicate.lte !== undefined && !compares(predicate.lte, order => order <= 0)) return false;
+  if (predicate.contains !== undefined && !some(value => containsValue(value, predicate.contains!))) return false;
+  return true;
+};
+
+/**
+ * Whether an entity satisfies a condition; null operands in eq/ne test for a missing field
+ */
+export const matchesQuery = (entity: BaseEntity, condition: QueryCondition): boolean => {
+  if ('and' in condition) return condition.and.every(inner => matchesQuery(entity, inner));
+  if ('or' in condition) return condition.or.some(inner => matchesQuery(entity, inner));
+  if ('not' in condition) return !matchesQuery(entity, condition.not);
+  return matchesPredicate(entity, condition);
+};
+
+const sortKey = (entity: BaseEntity, field: string): any => {
+  const value = resolveField(entity, field)[0];
+  return value instanceof Date ? value.getTime() : value;
+};
+
+/**
+ * Comparator for multi-key ordering. Entities missing a field sort after those that have it.
+ */
+export const compareByOrder = (orderBy: QueryOrder[]) => (a: BaseEntity, b: BaseEntity): number => {
+  for (const { field, direction = 'asc' } of orderBy) {
+    const aValue = sortKey(a, field);
+    const bValue = sortKey(b, field);
+    if (aValue === bValue) continue;
+    if (aValue === undefined) return 1;
+    if (bValue === undefined) return -1;
+    if (aValue < bValue) return direction === 'asc' ? -1 : 1;
+    if (aValue > bValue) return direction === 'asc' ? 1 : -1;
+  }
+  return 0;
+};
+
+/**
+ * Count entities by the values at a field path. An entity with several values there
+ * (an array field) is counted once per distinct value; one without any counts under null.
+ */
+export const groupEntities = (entities: BaseEntity[], field: string): NonNullable<EntityQueryResult['groups']> => {
+  const counts = new Map<QueryValue, number>();
+  entities.forEach(entity => {
+    const keys = new Set<QueryValue>(resolveField(entity, field).map(value => value instanceof Date ? value.toISOString() : value));
+    if (keys.size === 0) keys.add(null);
+    keys.forEach(key => counts.set(key, (counts.get(key) || 0) + 1));
+  });
+  return Array.from(counts, ([key, count]) => ({ key, count })).sort((a, b) => b.count - a.count);
+};
+
+const isQueryValue = (value: any): boolean =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+const validateCondition = (condition: any, path: string): ValidationIssue[] => {
+  if (typeof condition !== 'object' || condition === null || Array.isArray(condition)) {
+    return [{ path, message: 'expected a condition object' }];
+  }
+  if ('and' in condition || 'or' in condition) {
+    const key = 'and' in condition ? 'and' : 'or';
+    if (!Array.isArray(condition[key])) return [{ path: `${path}.${key}`, message: 'expected array of conditions' }];
+    return condition[key].flatMap((inner: any, index: number) => validateCondition(inner, `${path}.${key}[${index}]`));
+  }
+  if ('not' in condition) {
+    return validateCondition(condition.not, `${path}.not`);
+  }
+
+  if (typeof condition.field !== 'string' || condition.field.length === 0) {
+    return [{ path: `${path}.field`, message: 'expected a field path' }];
+  }
+  const issues: ValidationIssue[] = [];
+  Object.keys(condition).filter(key => key !== 'field').forEach(key => {
+    const value = condition[key];
+    const at = `${path}.${key}`;
+    if (!(OPERATORS as readonly string[]).includes(key)) {
+      issues.push({ path: at, message: `unknown operator (expected one of ${OPERATORS.join(', ')})` });
+    } else if (key === 'exists') {
+      if (typeof value !== 'boolean') issues.push({ path: at, message: 'expected boolean' });
+    } else if (key === 'in') {
+      if (!Array.isArray(value) || !value.every(isQueryValue)) issues.push({ path: at, message: 'expected array of values' });
+    } else if (!isQueryValue(value)) {
+      issues.push({ path: at, message: 'expected string, number, boolean or null' });
+    }
+  });
+  return issues;
+};
+
+/**
+ * Check a query received from outside (e.g. agent metadata), including nested conditions
+ */
+export const validateEntityQuery = (query: unknown): ValidationIssue[] => {
+  const issues = validateSchema(query, querySchema);
+  if (issues.length === 0 && (query as EntityQuery).where !== undefined) {
+    issues.push(...validateCondition((query as EntityQuery).where, '$.where'));
+  }
+  return issues;
+};
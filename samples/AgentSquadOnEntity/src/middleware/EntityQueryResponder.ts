@@ -0,0 +1,92 @@
+import { EntityStore } from './EntityStore';
+import { WebSocketHub } from './WebSocketHub';
+import { MetadataRoutingContext } from './MetadataMessageRouter';
+import { MessageContractRegistry } from './MessageContractRegistry';
+import { validateEntityQuery } from './EntityQuery';
+import { getAgentByWorkflowId } from '../modules/poa/steps';
+import { QueryEntitiesMessage, QueryEntitiesResultMessage } from '../types/messages';
+
+/**
+ * EntityQueryResponder lets agents ask the UI for filtered state. It answers each
+ * QueryEntities metadata message with a QueryEntitiesResult sent back to the asking agent.
+ */
+export class EntityQueryResponder {
+  private static instance: EntityQueryResponder | null = null;
+  private entityStore: EntityStore;
+  private webSocketHub: WebSocketHub;
+  private unsubscribeFromMetadata?: () => void;
+  private answeredCount = 0;
+
+  private constructor() {
+    this.entityStore = EntityStore.getInstance();
+    this.webSocketHub = WebSocketHub.getInstance();
+    console.log('[EntityQueryResponder] Instance created');
+  }
+
+  public static getInstance(): EntityQueryResponder {
+    if (EntityQueryResponder.instance === null) {
+      EntityQueryResponder.instance = new EntityQueryResponder();
+    }
+    return EntityQueryResponder.instance;
+  }
+
+  /**
+   * Start answering queries. Returns a function that stops it.
+   */
+  start(): () => void {
+    if (!this.unsubscribeFromMetadata) {
+      this.unsubscribeFromMetadata = this.webSocketHub.subscribeToMetadata(
+        'entity_query_responder',
+        ['QueryEntities'],
+        (message: QueryEntitiesMessage, context) => this.answer(message, context)
+      );
+    }
+    return () => this.stop();
+  }
+
+  stop(): void {
+    this.unsubscribeFromMetadata?.();
+    this.unsubscribeFromMetadata = undefined;
+  }
+
+  getStats() {
+    return {
+      active: Boolean(this.unsubscribeFromMetadata),
+      answered: this.answeredCount
+    };
+  }
+
+  private async answer(message: QueryEntitiesMessage, context: MetadataRoutingContext): Promise<void> {
+    // Old requests were answered when they arrived, and the tab holding the connections answers for all tabs
+    if (context.replayed || this.webSocketHub.isFollowerTab()) return;
+
+    const agent = context.workflowId ? getAgentByWorkflowId(context.workflowId) : undefined;
+    if (!agent?.id) {
+      console.warn(`[EntityQueryResponder] No agent to answer for workflow ${context.workflowId}, dropping request ${message.requestId}`);
+      return;
+    }
+
+    const reply: QueryEntitiesResultMessage = {
+      messageType: 'QueryEntitiesResult',
+      requestId: message.requestId,
+      documentId: message.documentId,
+      timestamp: new Date().toISOString()
+    };
+
+    const issues = validateEntityQuery(message.query);
+    if (issues.length > 0) {
+      reply.error = `Invalid query: ${MessageContractRegistry.formatIssues({ valid: false, messageType: 'QueryEntities', issues })}`;
+      console.warn(`[EntityQueryResponder] ${reply.error}`);
+    } else {
+      reply.result = this.entityStore.queryEntities(message.query);
+    }
+
+    try {
+      await this.webSocketHub.sendMetadataToAgent(reply, agent.id);
+      this.answeredCount++;
+      console.log(`[EntityQueryResponder] Answered ${message.requestId} for ${agent.id}: ${reply.result ? `${reply.result.total} match(es)` : 'error'}`);
+    } catch (error) {
+      console.error(`[EntityQueryResponder] Failed to answer ${message.requestId}:`, error);
+    }
+  }
+}
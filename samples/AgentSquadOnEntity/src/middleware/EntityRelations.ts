@@ -0,0 +1,111 @@
+import { BaseEntity } from '../types';
+
+/**
+ * What happens to entities referencing a target when the target is deleted
+ * - restrict: the delete is refused
+ * - cascade: the referencing entities are deleted too
+ * - nullify: the reference is removed from the referencing entities
+ * - ignore: the reference is left dangling
+ */
+export type OnDeletePolicy = 'restrict' | 'cascade' | 'nullify' | 'ignore';
+
+/**
+ * A named reference from entities of one type to other entities
+ */
+export interface RelationDefinition {
+  name: string;
+  sourceType: string;
+  /** Expected type of the targets; any type when omitted */
+  targetType?: string;
+  onDelete: OnDeletePolicy;
+  getTargetIds: (source: BaseEntity) => string[];
+  /** Updates that replace the source's references with the given ids (needed for 'nullify') */
+  setTargetIds?: (source: BaseEntity, ids: string[]) => Record<string, any>;
+  /**
+   * For references to items embedded in the source itself (e.g. a condition's targetId
+   * pointing at a representative of the same document). Such targets are not store entities.
+   */
+  getLocalTargets?: (source: BaseEntity) => Array<{ id: string }>;
+}
+
+export interface DanglingReference {
+  sourceId: string;
+  sourceType: string;
+  relation: string;
+  targetId: string;
+}
+
+const toIds = (value: any): string[] => {
+  if (Array.isArray(value)) return value.filter((id): id is string => typeof id === 'string' && id.length > 0);
+  return typeof value === 'string' && value.length > 0 ? [value] : [];
+};
+
+/**
+ * Relation stored in a single field holding an id or an array of ids
+ */
+export const fieldRelation = (
+  name: string,
+  sourceType: string,
+  field: string,
+  onDelete: OnDeletePolicy,
+  targetType?: string
+): RelationDefinition => ({
+  name,
+  sourceType,
+  targetType,
+  onDelete,
+  getTargetIds: source => toIds((source as any)[field]),
+  setTargetIds: (source, ids) => ({
+    [field]: Array.isArray((source as any)[field]) ? ids : ids[0] ?? null
+  })
+});
+
+// Condition targetIds point at representatives of the same document or audit
+const conditionTargets = (sourceType: string, getData: (source: any) => any): RelationDefinition => ({
+  name: 'conditionTargets',
+  sourceType,
+  onDelete: 'ignore',
+  getTargetIds: source => (getData(source)?.conditions || []).flatMap((condition: any) => toIds(condition.targetId)),
+  getLocalTargets: source => getData(source)?.representatives || []
+});
+
+// Relations every store starts with (see types/entities)
+export const DEFAULT_RELATIONS: RelationDefinition[] = [
+  fieldRelation('dependencies', 'task', 'dependencies', 'nullify', 'task'),
+  fieldRelation('related', 'task', 'relatedEntityIds', 'nullify'),
+  fieldRelation('related', 'finding', 'relatedEntityIds', 'nullify'),
+  conditionTargets('audit_result', source => source.data),
+  conditionTargets('poa_document', source => source)
+];
+
+/**
+ * Cycles in a directed graph given as node -> successor ids. Each cycle is listed once,
+ * as the path of ids that returns to its first node.
+ */
+export const findCycles = (graph: Map<string, string[]>): string[][] => {
+  const cycles: string[][] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (node: string) => {
+    state.set(node, 'visiting');
+    path.push(node);
+
+    (graph.get(node) || []).forEach(next => {
+      if (state.get(next) === 'visiting') {
+        cycles.push([...path.slice(path.indexOf(next)), next]);
+      } else if (!state.has(next) && graph.has(next)) {
+        visit(next);
+      }
+    });
+
+    path.pop();
+    state.set(node, 'done');
+  };
+
+  graph.forEach((_, node) => {
+    if (!state.has(node)) visit(node);
+  });
+
+  return cycles;
+};
@@ -0,0 +1,56 @@
+import { EntityStore } from './EntityStore';
+
+/**
+ * A memoized read from the store. It recomputes only when an entity of one of
+ * its declared types changed; without types, any store change recomputes it.
+ */
+export interface EntitySelector<R> {
+  (store: EntityStore): R;
+  types?: string[];
+}
+
+export const createEntitySelector = <R>(
+  select: (store: EntityStore) => R,
+  options: { types?: string[] } = {}
+): EntitySelector<R> => {
+  let lastRevision: string | null = null;
+  let lastResult: R;
+
+  const selector: EntitySelector<R> = (store: EntityStore) => {
+    const revision = store.getRevision(options.types);
+    if (revision !== lastRevision) {
+      lastResult = select(store);
+      lastRevision = revision;
+    }
+    return lastResult;
+  };
+  selector.types = options.types;
+
+  return selector;
+};
+
+/**
+ * Deep comparison for plain data: objects, arrays, Dates, Maps and Sets
+ */
+export const isStructurallyEqual = (a: any, b: any): boolean => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  if (a instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, index) => isStructurallyEqual(item, b[index]));
+  }
+  if (a instanceof Map) {
+    return a.size === b.size && Array.from(a.entries()).every(([key, value]) => b.has(key) && isStructurallyEqual(value, b.get(key)));
+  }
+  if (a instanceof Set) {
+    return a.size === b.size && Array.from(a).every(value => b.has(value));
+  }
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length && keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && isStructurallyEqual(a[key], b[key]));
+};
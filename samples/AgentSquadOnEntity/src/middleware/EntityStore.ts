@@ -3,8 +3,34 @@ import {
   EntityAction, 
   EntitySubscription, 
   EntityQueryOptions, 
-  EntityStoreState 
+  EntityStoreState,
+  EntityChange,
+  EntityChangeSource,
+  EntityHistoryEntry,
+  EntityVersion,
+  PendingMutation,
+  EntityConflict,
+  ConflictResolution,
+  EntitySyncChange,
+  EntityQuery,
+  EntityQueryResult,
+  ChatMessage
 } from '../types';
+import { EntityUpdateMessage } from '../types/messages';
+import { MessageContractRegistry } from './MessageContractRegistry';
+import { EntityPersistence, EntityPersistenceOptions } from './EntityPersistence';
+import { EntityIndexer, DEFAULT_INDEXES, IndexKey, IndexKeyFn } from './EntityIndex';
+import { RelationDefinition, DanglingReference, DEFAULT_RELATIONS, findCycles } from './EntityRelations';
+import { matchesQuery, compareByOrder, groupEntities } from './EntityQuery';
+import {
+  WorkspaceBundle,
+  WorkspaceImportMode,
+  WorkspaceImportResult,
+  createWorkspaceBundle,
+  parseWorkspaceBundle,
+  reviveBundleEntities,
+  reviveBundleTranscripts
+} from './WorkspaceBundle';
 
 export class EntityStore {
   private static instance: EntityStore | null = null;
@@ -12,17 +38,53 @@ export class EntityStore {
   private state: EntityStoreState = {
     entities: new Map(),
     entityTypes: new Map(),
+    categories: new Map(),
     subscriptions: new Map(),
     loading: false,
     error: null
   };
 
-  // Add categories support for organized entity storage
-  private categories: Map<string, Map<string, BaseEntity>> = new Map();
+  // Category membership is a view over the entity map: state.categories maps
+  // category -> key -> entity id, and this is its reverse
+  private categoryOf: Map<string, { category: string; key: string }> = new Map();
 
   private listeners: Array<(state: EntityStoreState) => void> = [];
 
+  // Secondary indexes, and per-type revisions for memoized selectors
+  private indexes = new EntityIndexer(DEFAULT_INDEXES);
+  private revision = 0;
+  private typeRevisions: Map<string, number> = new Map();
+
+  // References between entities, keyed by `${sourceType}.${name}`
+  private relations: Map<string, RelationDefinition> = new Map();
+
+  // Optional snapshot persistence (see enablePersistence)
+  private persistence: EntityPersistence | null = null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private hydrated = false;
+  private hydration: Promise<void> | null = null;
+
+  // Undo/redo journal
+  private undoStack: EntityHistoryEntry[] = [];
+  private redoStack: EntityHistoryEntry[] = [];
+  private historyGroup: EntityHistoryEntry | null = null;
+  private historyGroupDepth = 0;
+  private historyPausedDepth = 0;
+  private isTimeTraveling = false;
+  private readonly historyLimit = 100;
+
+  // Optimistic mutations awaiting the server, and unresolved conflicts
+  private pendingMutations: Map<string, PendingMutation> = new Map();
+  private conflicts: Map<string, EntityConflict> = new Map();
+  private staleUpdatesRejected = 0;
+
+  // Open transaction: notifications are held back and emitted once on commit
+  private transactionDepth = 0;
+  private transactionActions: Array<{ entities: BaseEntity[]; action: EntityAction; categories: Map<string, string> }> = [];
+  private transactionDirty = false;
+
   private constructor() {
+    DEFAULT_RELATIONS.forEach(relation => this.registerRelation(relation));
     console.log('[EntityStore] Instance created');
   }
 
@@ -46,6 +108,15 @@ export class EntityStore {
   }
 
   private notifyListeners() {
+    // Listeners hear about a transaction once, when it commits
+    if (this.transactionDepth > 0) {
+      this.transactionDirty = true;
+      return;
+    }
+
+    // Every mutation ends here, so this is where snapshots are scheduled
+    this.schedulePersist();
+
     this.listeners.forEach(listener => {
       try {
         listener(this.getState());
@@ -65,6 +136,7 @@ export class EntityStore {
       version: (entity.version || 0) + 1
     };
 
+    this.recordChange(entity.id, this.state.entities.get(entity.id), entityWithTimestamp);
     this.state.entities.set(entity.id, entityWithTimestamp);
     this.updateEntityTypeState(entity.type, 'ADD', entityWithTimestamp);
     
@@ -98,6 +170,7 @@ export class EntityStore {
 
     this.state.entities.set(entityId, updatedEntity);
     this.updateEntityTypeState(existingEntity.type, 'UPDATE', updatedEntity);
+    this.recordChange(entityId, existingEntity, updatedEntity);
 
     const action: EntityAction<T> = {
       type: 'UPDATE',
@@ -111,15 +184,28 @@ export class EntityStore {
     console.log(`[EntityStore] Updated entity: ${entityId} (type: ${existingEntity.type})`);
   }
 
-  public deleteEntity(entityId: string): void {
+  /**
+   * Delete an entity, applying the onDelete policy of every relation that references it.
+   * Returns false if the entity is unknown or a 'restrict' relation blocks the delete.
+   */
+  public deleteEntity(entityId: string): boolean {
     const entity = this.state.entities.get(entityId);
     if (!entity) {
       console.warn(`[EntityStore] Cannot delete non-existent entity: ${entityId}`);
-      return;
+      return false;
+    }
+
+    if (!this.checkDeleteAllowed(entityId)) return false;
+
+    const references = this.getDeleteFollowUps(entityId);
+    if (references.length > 0 && !this.isInTransaction()) {
+      // The delete and its cascades commit (or fail) together
+      return this.transaction(() => this.deleteEntity(entityId), `Delete ${entity.type}`, 'user');
     }
 
     this.state.entities.delete(entityId);
     this.updateEntityTypeState(entity.type, 'DELETE', entity, entityId);
+    this.recordChange(entityId, entity, undefined);
 
     const action: EntityAction = {
       type: 'DELETE',
@@ -127,10 +213,15 @@ export class EntityStore {
       timestamp: new Date()
     };
 
+    // Category subscribers still need to see the delete, so membership goes last
     this.notifySubscriptions([entity], action);
+    this.removeCategoryMembership(entityId);
     this.notifyListeners();
     
     console.log(`[EntityStore] Deleted entity: ${entityId} (type: ${entity.type})`);
+
+    this.applyDeletePolicies(entityId, references);
+    return true;
   }
 
   public getEntity<T extends BaseEntity>(entityId: string): T | undefined {
@@ -138,7 +229,17 @@ export class EntityStore {
   }
 
   public getEntities<T extends BaseEntity>(options: EntityQueryOptions = {}): T[] {
-    let entities = Array.from(this.state.entities.values());
+    // Start from the smallest known candidate set instead of the whole map
+    let entities: BaseEntity[];
+    if (options.ids && options.ids.length > 0) {
+      entities = options.ids.map(id => this.state.entities.get(id)).filter((entity): entity is BaseEntity => Boolean(entity));
+    } else if (options.category) {
+      entities = Array.from(this.getEntitiesFromCategory(options.category).values());
+    } else if (options.type) {
+      entities = this.getEntitiesByIndex('type', options.type);
+    } else {
+      entities = Array.from(this.state.entities.values());
+    }
 
     // Filter by type
     if (options.type) {
@@ -155,8 +256,16 @@ export class EntityStore {
       entities = entities.filter(options.filter);
     }
 
+    // Apply declarative conditions
+    if (options.where) {
+      const where = options.where;
+      entities = entities.filter(entity => matchesQuery(entity, where));
+    }
+
     // Sort entities
-    if (options.sortBy) {
+    if (options.orderBy && options.orderBy.length > 0) {
+      entities.sort(compareByOrder(options.orderBy));
+    } else if (options.sortBy) {
       const sortKey = options.sortBy;
       const sortOrder = options.sortOrder || 'asc';
       
@@ -191,6 +300,52 @@ export class EntityStore {
     return this.getEntities<T>({ type });
   }
 
+  /**
+   * Run a declarative query. The total and groups cover every match, before offset and limit.
+   */
+  public queryEntities<T extends BaseEntity>(query: EntityQuery): EntityQueryResult<T> {
+    const { offset, limit, groupBy, ...selection } = query;
+    const matches = this.getEntities<T>(selection);
+    const start = offset || 0;
+
+    return {
+      entities: matches.slice(start, limit !== undefined ? start + limit : undefined),
+      total: matches.length,
+      ...(groupBy ? { groups: groupEntities(matches, groupBy) } : {})
+    };
+  }
+
+  // Indexes
+  /**
+   * Add a secondary index, built immediately from the current entities
+   */
+  public defineIndex(name: string, keyFn: IndexKeyFn): void {
+    this.indexes.define(name, keyFn, this.state.entities.values());
+    console.log(`[EntityStore] Defined index: ${name}`);
+  }
+
+  /**
+   * Entities indexed under a key, e.g. getEntitiesByIndex('documentId', id)
+   */
+  public getEntitiesByIndex<T extends BaseEntity>(indexName: string, key: IndexKey): T[] {
+    return this.indexes.lookup(indexName, key)
+      .map(id => this.state.entities.get(id))
+      .filter(Boolean) as T[];
+  }
+
+  /**
+   * Changes whenever an entity of one of the given types (or, without types, any entity) changes
+   */
+  public getRevision(types?: string[]): string {
+    if (!types) return String(this.revision);
+    return types.map(type => this.typeRevisions.get(type) || 0).join(':');
+  }
+
+  private touchType(type: string): void {
+    this.revision++;
+    this.typeRevisions.set(type, this.revision);
+  }
+
   // Batch operations
   public addEntities<T extends BaseEntity>(entities: T[]): void {
     const now = new Date();
@@ -202,6 +357,7 @@ export class EntityStore {
     }));
 
     entitiesWithTimestamp.forEach(entity => {
+      this.recordChange(entity.id, this.state.entities.get(entity.id), entity);
       this.state.entities.set(entity.id, entity);
       this.updateEntityTypeState(entity.type, 'ADD', entity);
     });
@@ -224,15 +380,24 @@ export class EntityStore {
         .filter(entity => entity.type === type);
       
       entitiesToRemove.forEach(entity => {
+        this.recordChange(entity.id, entity, undefined);
         this.state.entities.delete(entity.id);
+        this.indexes.remove(entity.id);
+        this.removeCategoryMembership(entity.id);
       });
       
       this.state.entityTypes.delete(type);
+      this.touchType(type);
       
       console.log(`[EntityStore] Cleared ${entitiesToRemove.length} entities of type: ${type}`);
     } else {
+      this.state.entities.forEach(entity => this.recordChange(entity.id, entity, undefined));
       this.state.entities.clear();
+      this.state.entityTypes.forEach((_, entityType) => this.touchType(entityType));
       this.state.entityTypes.clear();
+      this.state.categories.clear();
+      this.categoryOf.clear();
+      this.indexes.clear();
       
       console.log(`[EntityStore] Cleared all entities`);
     }
@@ -259,7 +424,20 @@ export class EntityStore {
     };
   }
 
-  private notifySubscriptions(entities: BaseEntity[], action: EntityAction): void {
+  private notifySubscriptions(entities: BaseEntity[], action: EntityAction, knownCategories?: Map<string, string>): void {
+    // Resolve categories now: a delete drops membership before a transaction is flushed
+    const categoryById = knownCategories || new Map(
+      entities.flatMap(entity => {
+        const membership = this.categoryOf.get(entity.id);
+        return membership ? [[entity.id, membership.category] as [string, string]] : [];
+      })
+    );
+
+    if (this.transactionDepth > 0) {
+      this.transactionActions.push({ entities, action, categories: categoryById });
+      return;
+    }
+
     this.state.subscriptions.forEach(subscription => {
       try {
         const relevantEntities = entities.filter(entity => {
@@ -272,11 +450,17 @@ export class EntityStore {
           if (subscription.entityIds && !subscription.entityIds.includes(entity.id)) {
             return false;
           }
+
+          // Check if the entity belongs to one of the categories
+          if (subscription.categories && !subscription.categories.includes(categoryById.get(entity.id) as string)) {
+            return false;
+          }
           
           return true;
         });
 
-        if (relevantEntities.length > 0 || action.type === 'CLEAR') {
+        const includesClear = action.type === 'CLEAR' || Boolean(action.payload?.actions?.some(a => a.type === 'CLEAR'));
+        if (relevantEntities.length > 0 || includesClear) {
           subscription.callback(relevantEntities, action);
         }
       } catch (error) {
@@ -285,6 +469,254 @@ export class EntityStore {
     });
   }
 
+  // Transactions
+  /**
+   * Apply several operations as one unit. Subscribers get a single BATCH action and
+   * listeners a single notification on commit; if fn throws, every change made inside
+   * it is rolled back and the error rethrown. Nested transactions join the outer one.
+   */
+  public transaction<T>(fn: () => T, label: string = 'Transaction', source: EntityChangeSource = 'user'): T {
+    if (this.transactionDepth > 0) {
+      return fn();
+    }
+
+    const snapshot = this.captureState();
+    this.transactionDepth++;
+
+    let result: T;
+    try {
+      result = this.groupHistory(label, () => {
+        try {
+          return fn();
+        } catch (error) {
+          // Restore before groupHistory closes, so the failed changes never reach the journal
+          this.restoreState(snapshot);
+          throw error;
+        }
+      }, source);
+    } catch (error) {
+      this.transactionDepth--;
+      this.transactionActions = [];
+      this.transactionDirty = false;
+      console.warn(`[EntityStore] Rolled back transaction "${label}":`, error);
+      throw error;
+    }
+
+    this.transactionDepth--;
+    this.commitTransaction();
+    return result;
+  }
+
+  public isInTransaction(): boolean {
+    return this.transactionDepth > 0;
+  }
+
+  /**
+   * Emit the held-back actions as one BATCH action carrying the latest state of every touched entity
+   */
+  private commitTransaction(): void {
+    const buffered = this.transactionActions;
+    const dirty = this.transactionDirty;
+    this.transactionActions = [];
+    this.transactionDirty = false;
+
+    if (buffered.length === 0) {
+      // e.g. only a conflict was recorded
+      if (dirty) this.notifyListeners();
+      return;
+    }
+
+    const touched = new Map<string, BaseEntity>();
+    const categories = new Map<string, string>();
+    buffered.forEach(({ entities, categories: entityCategories }) => {
+      entities.forEach(entity => touched.set(entity.id, this.state.entities.get(entity.id) || entity));
+      entityCategories.forEach((category, id) => categories.set(id, category));
+    });
+
+    const action: EntityAction = {
+      type: 'BATCH',
+      payload: {
+        entities: Array.from(touched.values()),
+        actions: buffered.map(entry => entry.action)
+      },
+      timestamp: new Date()
+    };
+
+    this.notifySubscriptions(Array.from(touched.values()), action, categories);
+    this.notifyListeners();
+    console.log(`[EntityStore] Committed transaction: ${buffered.length} actions on ${touched.size} entities`);
+  }
+
+  private captureState() {
+    return {
+      entities: new Map(this.state.entities),
+      entityTypes: new Map(Array.from(this.state.entityTypes, ([type, typeState]) => [type, { ...typeState, entities: new Map(typeState.entities) }])),
+      categories: new Map(Array.from(this.state.categories, ([category, keys]) => [category, new Map(keys)])),
+      categoryOf: new Map(this.categoryOf),
+      historyChanges: this.historyGroup ? this.historyGroup.changes.map(change => ({ ...change })) : [],
+      pendingMutations: new Map(this.pendingMutations),
+      conflicts: new Map(this.conflicts)
+    };
+  }
+
+  private restoreState(snapshot: ReturnType<EntityStore['captureState']>): void {
+    const touchedTypes = new Set([...this.state.entityTypes.keys(), ...snapshot.entityTypes.keys()]);
+
+    this.state.entities = snapshot.entities;
+    this.state.entityTypes = snapshot.entityTypes;
+    this.state.categories = snapshot.categories;
+    this.categoryOf = snapshot.categoryOf;
+    if (this.historyGroup) {
+      this.historyGroup.changes = snapshot.historyChanges;
+    }
+    this.pendingMutations = snapshot.pendingMutations;
+    this.conflicts = snapshot.conflicts;
+
+    this.indexes.rebuild(this.state.entities.values());
+    touchedTypes.forEach(type => this.touchType(type));
+  }
+
+  // Relations
+  /**
+   * Add or replace a relation. Its reverse lookup is indexed, so finding what
+   * references an entity does not scan the store.
+   */
+  public defineRelation(definition: RelationDefinition): void {
+    this.registerRelation(definition);
+    console.log(`[EntityStore] Defined relation: ${definition.sourceType}.${definition.name} (onDelete: ${definition.onDelete})`);
+  }
+
+  public getRelations(sourceType?: string): RelationDefinition[] {
+    return Array.from(this.relations.values()).filter(relation => !sourceType || relation.sourceType === sourceType);
+  }
+
+  /**
+   * Resolve a relation of an entity. Missing targets are skipped; for relations to
+   * embedded items the referenced items of the entity itself are returned.
+   */
+  public getRelated<T = BaseEntity>(entityId: string, relationName: string): T[] {
+    const source = this.state.entities.get(entityId);
+    if (!source) return [];
+
+    const relation = this.relations.get(`${source.type}.${relationName}`);
+    if (!relation) {
+      console.warn(`[EntityStore] Unknown relation ${relationName} for type: ${source.type}`);
+      return [];
+    }
+
+    const ids = relation.getTargetIds(source);
+    if (relation.getLocalTargets) {
+      return relation.getLocalTargets(source).filter(target => ids.includes(target.id)) as T[];
+    }
+    return ids
+      .map(id => this.state.entities.get(id))
+      .filter((target): target is BaseEntity => Boolean(target) && (!relation.targetType || target!.type === relation.targetType)) as T[];
+  }
+
+  /**
+   * Entities whose relations point at the given entity
+   */
+  public getReferencingEntities(targetId: string, relationName?: string): Array<{ source: BaseEntity; relation: RelationDefinition }> {
+    return Array.from(this.relations.entries())
+      .filter(([, relation]) => !relation.getLocalTargets && (!relationName || relation.name === relationName))
+      .flatMap(([key, relation]) =>
+        this.getEntitiesByIndex(`relation:${key}`, targetId).map(source => ({ source, relation }))
+      );
+  }
+
+  /**
+   * References whose target does not exist (or has the wrong type)
+   */
+  public getDanglingReferences(): DanglingReference[] {
+    return Array.from(this.relations.values()).flatMap(relation =>
+      this.getEntitiesByIndex('type', relation.sourceType).flatMap(source => {
+        const localIds = relation.getLocalTargets ? new Set(relation.getLocalTargets(source).map(target => target.id)) : null;
+
+        return relation.getTargetIds(source)
+          .filter(targetId => {
+            if (localIds) return !localIds.has(targetId);
+            const target = this.state.entities.get(targetId);
+            return !target || (relation.targetType !== undefined && target.type !== relation.targetType);
+          })
+          .map(targetId => ({ sourceId: source.id, sourceType: source.type, relation: relation.name, targetId }));
+      })
+    );
+  }
+
+  /**
+   * Cycles in a relation between entities of one type, by default task dependencies
+   */
+  public findDependencyCycles(relationName: string = 'dependencies', sourceType: string = 'task'): string[][] {
+    const relation = this.relations.get(`${sourceType}.${relationName}`);
+    if (!relation) return [];
+
+    const graph = new Map<string, string[]>();
+    this.getEntitiesByIndex('type', sourceType).forEach(source => graph.set(source.id, relation.getTargetIds(source)));
+    return findCycles(graph);
+  }
+
+  /**
+   * Whether a delete would go through, following cascades
+   */
+  public canDelete(entityId: string): boolean {
+    return this.findDeleteBlockers(entityId).length === 0;
+  }
+
+  private registerRelation(definition: RelationDefinition): void {
+    const key = `${definition.sourceType}.${definition.name}`;
+    this.relations.set(key, definition);
+
+    if (!definition.getLocalTargets) {
+      this.indexes.define(
+        `relation:${key}`,
+        entity => entity.type === definition.sourceType ? definition.getTargetIds(entity) : undefined,
+        this.state.entities.values()
+      );
+    }
+  }
+
+  private findDeleteBlockers(entityId: string, visited: Set<string> = new Set()): DanglingReference[] {
+    if (visited.has(entityId)) return [];
+    visited.add(entityId);
+
+    return this.getReferencingEntities(entityId).flatMap(({ source, relation }) => {
+      if (relation.onDelete === 'restrict') {
+        return [{ sourceId: source.id, sourceType: source.type, relation: relation.name, targetId: entityId }];
+      }
+      return relation.onDelete === 'cascade' ? this.findDeleteBlockers(source.id, visited) : [];
+    });
+  }
+
+  private checkDeleteAllowed(entityId: string): boolean {
+    const blockers = this.findDeleteBlockers(entityId);
+    if (blockers.length > 0) {
+      console.warn(`[EntityStore] Cannot delete ${entityId}: still referenced by ${blockers.map(b => `${b.sourceId} (${b.relation})`).join(', ')}`);
+      return false;
+    }
+    return true;
+  }
+
+  private getDeleteFollowUps(entityId: string): Array<{ source: BaseEntity; relation: RelationDefinition }> {
+    return this.getReferencingEntities(entityId)
+      .filter(({ source, relation }) => source.id !== entityId && (relation.onDelete === 'cascade' || relation.onDelete === 'nullify'));
+  }
+
+  /**
+   * Cascade or nullify the references to an entity that was just deleted
+   */
+  private applyDeletePolicies(entityId: string, references: Array<{ source: BaseEntity; relation: RelationDefinition }>): void {
+    references.forEach(({ source, relation }) => {
+      const current = this.state.entities.get(source.id);
+      if (!current) return; // Already removed by an earlier cascade
+
+      if (relation.onDelete === 'cascade') {
+        this.deleteEntity(source.id);
+      } else if (relation.setTargetIds) {
+        this.updateEntity(source.id, relation.setTargetIds(current, relation.getTargetIds(current).filter(id => id !== entityId)));
+      }
+    });
+  }
+
   // Helper methods for entity type state management
   private updateEntityTypeState<T extends BaseEntity>(
     type: string, 
@@ -309,19 +741,664 @@ export class EntityStore {
       case 'UPDATE':
         if (entity) {
           typeState.entities.set(entity.id, entity);
+          this.indexes.put(entity);
         }
         break;
       case 'DELETE':
         if (entityId) {
           typeState.entities.delete(entityId);
+          this.indexes.remove(entityId);
         }
         break;
       case 'CLEAR':
+        typeState.entities.forEach((_, id) => this.indexes.remove(id));
         typeState.entities.clear();
         break;
     }
 
     typeState.lastUpdated = new Date();
+    this.touchType(type);
+  }
+
+  // History (undo/redo and time travel)
+  /**
+   * Run synchronous changes as one undoable step, e.g. everything an agent message touched.
+   * Nested groups join the outermost one.
+   */
+  public groupHistory<T>(label: string, fn: () => T, source: EntityChangeSource = 'agent'): T {
+    const isOutermost = this.historyGroupDepth === 0;
+    if (isOutermost) {
+      this.historyGroup = { id: crypto.randomUUID(), label, source, timestamp: new Date(), changes: [] };
+    }
+    this.historyGroupDepth++;
+
+    try {
+      return fn();
+    } finally {
+      this.historyGroupDepth--;
+      if (isOutermost) {
+        const group = this.historyGroup;
+        this.historyGroup = null;
+        if (group && group.changes.length > 0) {
+          this.pushHistory(group);
+          this.notifyListeners();
+        }
+      }
+    }
+  }
+
+  /**
+   * Run synchronous changes without recording them, for bookkeeping that must not be undone
+   * (e.g. submission progress). Nested calls are fine.
+   */
+  public withoutHistory<T>(fn: () => T): T {
+    this.historyPausedDepth++;
+    try {
+      return fn();
+    } finally {
+      this.historyPausedDepth--;
+    }
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Revert the most recent change (or group of changes)
+   */
+  public undo(): EntityHistoryEntry | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+
+    this.applyHistory([...entry.changes].reverse(), 'before');
+    this.redoStack.push(entry);
+    console.log(`[EntityStore] Undid ${entry.label || 'change'} (${entry.changes.length} entities)`);
+    return entry;
+  }
+
+  /**
+   * Re-apply the most recently undone change
+   */
+  public redo(): EntityHistoryEntry | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+
+    this.applyHistory(entry.changes, 'after');
+    this.undoStack.push(entry);
+    console.log(`[EntityStore] Redid ${entry.label || 'change'} (${entry.changes.length} entities)`);
+    return entry;
+  }
+
+  /**
+   * Undoable entries, oldest first
+   */
+  public getHistory(): EntityHistoryEntry[] {
+    return [...this.undoStack];
+  }
+
+  public clearHistory(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notifyListeners();
+  }
+
+  /**
+   * Known versions of an entity from the journal, oldest first
+   */
+  public getEntityHistory<T extends BaseEntity>(entityId: string): EntityVersion<T>[] {
+    const versions: EntityVersion<T>[] = [];
+
+    this.undoStack.forEach(entry => {
+      entry.changes
+        .filter(change => change.entityId === entityId)
+        .forEach(change => {
+          // The state before the first recorded change is a version too
+          if (versions.length === 0 && change.before) {
+            versions.push({ version: change.before.version || 0, entity: change.before as T, timestamp: change.before.updatedAt, source: 'system' });
+          }
+          if (change.after) {
+            versions.push({ version: change.after.version || 0, entity: change.after as T, timestamp: entry.timestamp, source: entry.source, label: entry.label });
+          }
+        });
+    });
+
+    return versions;
+  }
+
+  /**
+   * Restore an entity to a recorded version. The restore is itself undoable.
+   */
+  public jumpToVersion(entityId: string, version: number): boolean {
+    const target = this.getEntityHistory(entityId).find(entry => entry.version === version);
+    if (!target) {
+      console.warn(`[EntityStore] No recorded version ${version} for entity: ${entityId}`);
+      return false;
+    }
+
+    const current = this.state.entities.get(entityId);
+    const category = this.findCategoryKey(entityId);
+    const restored = this.restoreEntity(target.entity, current, category);
+
+    this.pushHistory({
+      id: crypto.randomUUID(),
+      label: `Revert to version ${version}`,
+      source: 'user',
+      timestamp: new Date(),
+      changes: [{ entityId, before: current, after: restored, category }]
+    });
+    this.notifyListeners();
+    return true;
+  }
+
+  private recordChange(entityId: string, before: BaseEntity | undefined, after: BaseEntity | undefined, category: EntityChange['category'] = this.findCategoryKey(entityId)): void {
+    if (this.isTimeTraveling || this.historyPausedDepth > 0) return;
+
+    if (this.historyGroup) {
+      // Within a group, keep the state from before the group started
+      const existing = this.historyGroup.changes.find(change => change.entityId === entityId);
+      if (existing) {
+        existing.after = after;
+        existing.category = existing.category || category;
+      } else {
+        this.historyGroup.changes.push({ entityId, before, after, category });
+      }
+      return;
+    }
+
+    this.pushHistory({
+      id: crypto.randomUUID(),
+      source: 'user',
+      timestamp: new Date(),
+      changes: [{ entityId, before, after, category }]
+    });
+  }
+
+  private pushHistory(entry: EntityHistoryEntry): void {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.historyLimit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * Move entities to the 'before' or 'after' side of the given changes without recording them
+   */
+  private applyHistory(changes: EntityChange[], side: 'before' | 'after'): void {
+    this.isTimeTraveling = true;
+    try {
+      changes.forEach(change => {
+        const target = change[side];
+        const current = this.state.entities.get(change.entityId);
+
+        if (target) {
+          this.restoreEntity(target, current, change.category);
+        } else if (current) {
+          this.state.entities.delete(change.entityId);
+          this.updateEntityTypeState(current.type, 'DELETE', current, change.entityId);
+          this.notifySubscriptions([current], { type: 'DELETE', payload: { entityId: change.entityId }, timestamp: new Date() });
+          this.removeCategoryMembership(change.entityId);
+        }
+      });
+    } finally {
+      this.isTimeTraveling = false;
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Write a recorded snapshot back as the newest version of the entity
+   */
+  private restoreEntity(snapshot: BaseEntity, current: BaseEntity | undefined, category?: EntityChange['category']): BaseEntity {
+    const restored: BaseEntity = {
+      ...snapshot,
+      updatedAt: new Date(),
+      version: Math.max(current?.version || 0, snapshot.version || 0) + 1
+    };
+
+    if (category) {
+      this.setCategoryMembership(restored.id, category.category, category.key);
+    }
+    this.state.entities.set(restored.id, restored);
+    this.updateEntityTypeState(restored.type, current ? 'UPDATE' : 'ADD', restored);
+
+    this.notifySubscriptions([restored], {
+      type: current ? 'UPDATE' : 'ADD',
+      payload: { entity: restored },
+      timestamp: new Date()
+    });
+    return restored;
+  }
+
+  private findCategoryKey(entityId: string): EntityChange['category'] {
+    const membership = this.categoryOf.get(entityId);
+    return membership ? { ...membership } : undefined;
+  }
+
+  // Optimistic updates and conflict detection
+  /**
+   * Apply a local change right away and remember what it was based on, so the server
+   * can confirm or reject it later. Returns the mutation id, or null if the entity is unknown.
+   */
+  public applyOptimisticUpdate<T extends BaseEntity>(entityId: string, updates: Partial<T>): string | null {
+    const before = this.state.entities.get(entityId);
+    if (!before) {
+      console.warn(`[EntityStore] Cannot apply optimistic update to non-existent entity: ${entityId}`);
+      return null;
+    }
+
+    const mutation: PendingMutation = {
+      id: crypto.randomUUID(),
+      entityId,
+      baseVersion: before.version || 0,
+      before,
+      updates: { ...updates },
+      createdAt: new Date()
+    };
+
+    this.pendingMutations.set(mutation.id, mutation);
+    this.updateEntity(entityId, updates);
+    console.log(`[EntityStore] Applied optimistic update ${mutation.id} to ${entityId} (base version ${mutation.baseVersion})`);
+    return mutation.id;
+  }
+
+  /**
+   * The server accepted an optimistic change. Fields it returns win over the local values.
+   */
+  public confirmOptimisticUpdate(mutationId: string, serverEntity?: Record<string, any>): boolean {
+    const mutation = this.pendingMutations.get(mutationId);
+    if (!mutation) {
+      console.warn(`[EntityStore] Unknown optimistic update: ${mutationId}`);
+      return false;
+    }
+
+    this.pendingMutations.delete(mutationId);
+    if (serverEntity) {
+      const fields = this.getDifferingFields(this.state.entities.get(mutation.entityId), serverEntity);
+      if (fields.length > 0) {
+        this.groupHistory('Server confirmed change', () => {
+          this.updateEntity(mutation.entityId, this.pickFields(serverEntity, fields));
+        }, 'system');
+      }
+    }
+    this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * The server rejected an optimistic change; put back the fields it touched.
+   * Later changes to other fields are kept.
+   */
+  public rollbackOptimisticUpdate(mutationId: string): boolean {
+    const mutation = this.pendingMutations.get(mutationId);
+    if (!mutation) {
+      console.warn(`[EntityStore] Unknown optimistic update: ${mutationId}`);
+      return false;
+    }
+
+    this.pendingMutations.delete(mutationId);
+    const restored = this.pickFields(mutation.before, Object.keys(mutation.updates));
+    this.groupHistory('Server rejected change', () => {
+      this.updateEntity(mutation.entityId, restored);
+    }, 'system');
+
+    console.log(`[EntityStore] Rolled back optimistic update ${mutationId} on ${mutation.entityId}`);
+    return true;
+  }
+
+  public getPendingMutations(entityId?: string): PendingMutation[] {
+    return Array.from(this.pendingMutations.values()).filter(mutation => !entityId || mutation.entityId === entityId);
+  }
+
+  /**
+   * Apply an update from the server or an agent. If it was based on an older version than
+   * the one stored, it is not applied: a no-op is dropped, one matching the pending local
+   * state confirms it, and anything else is kept as a conflict for the user to resolve.
+   */
+  public applyRemoteUpdate<T extends BaseEntity>(entityId: string, updates: Partial<T>, baseVersion?: number): 'applied' | 'confirmed' | 'stale' | 'conflict' {
+    const current = this.state.entities.get(entityId);
+    if (!current) {
+      console.warn(`[EntityStore] Cannot apply remote update to non-existent entity: ${entityId}`);
+      return 'stale';
+    }
+
+    const fields = this.getDifferingFields(current, updates);
+    const pending = this.getPendingMutations(entityId);
+
+    if (pending.length > 0 && fields.length === 0) {
+      // The server now holds exactly what we applied optimistically
+      pending.forEach(mutation => this.pendingMutations.delete(mutation.id));
+      this.notifyListeners();
+      return 'confirmed';
+    }
+
+    if (baseVersion === undefined || baseVersion >= (current.version || 0)) {
+      this.updateEntity(entityId, updates);
+      return 'applied';
+    }
+
+    if (fields.length === 0) {
+      this.staleUpdatesRejected++;
+      console.log(`[EntityStore] Dropped stale no-op update for ${entityId} (base ${baseVersion}, stored ${current.version})`);
+      return 'stale';
+    }
+
+    const conflict: EntityConflict = {
+      id: crypto.randomUUID(),
+      entityId,
+      local: current,
+      remote: { ...current, ...updates, id: entityId } as BaseEntity,
+      fields,
+      baseVersion,
+      detectedAt: new Date()
+    };
+
+    // A newer conflicting update for the same entity replaces the older one
+    this.conflicts.forEach((existing, id) => {
+      if (existing.entityId === entityId) this.conflicts.delete(id);
+    });
+    this.conflicts.set(conflict.id, conflict);
+
+    console.warn(`[EntityStore] Conflict on ${entityId}: update based on version ${baseVersion}, stored version is ${current.version} (fields: ${fields.join(', ')})`);
+    this.notifyListeners();
+    return 'conflict';
+  }
+
+  public getConflicts(): EntityConflict[] {
+    // Conflicts on entities deleted since are moot
+    return Array.from(this.conflicts.values()).filter(conflict => this.state.entities.has(conflict.entityId));
+  }
+
+  /**
+   * Settle a conflict by keeping the local entity, taking the remote one, or writing a merge
+   */
+  public resolveConflict<T extends BaseEntity>(conflictId: string, resolution: ConflictResolution<T>): boolean {
+    const conflict = this.conflicts.get(conflictId);
+    if (!conflict) {
+      console.warn(`[EntityStore] Unknown conflict: ${conflictId}`);
+      return false;
+    }
+
+    this.conflicts.delete(conflictId);
+
+    if (resolution !== 'local') {
+      const updates = resolution === 'remote'
+        ? this.pickFields(conflict.remote, conflict.fields)
+        : resolution.merged;
+
+      // The user has now decided these fields; earlier local guesses no longer apply
+      this.getPendingMutations(conflict.entityId).forEach(mutation => this.pendingMutations.delete(mutation.id));
+      this.groupHistory('Resolve conflict', () => {
+        this.updateEntity(conflict.entityId, updates);
+      }, 'user');
+    }
+
+    console.log(`[EntityStore] Resolved conflict on ${conflict.entityId} with ${typeof resolution === 'string' ? resolution : 'merge'}`);
+    this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * Fields of `updates` whose values differ from the entity (bookkeeping fields excluded)
+   */
+  private getDifferingFields(entity: BaseEntity | undefined, updates: Record<string, any>): string[] {
+    const ignored = ['id', 'version', 'createdAt', 'updatedAt'];
+    return Object.keys(updates).filter(field =>
+      !ignored.includes(field) && JSON.stringify((entity as any)?.[field]) !== JSON.stringify(updates[field])
+    );
+  }
+
+  private pickFields(source: Record<string, any>, fields: string[]): Record<string, any> {
+    return fields.reduce<Record<string, any>>((picked, field) => {
+      picked[field] = source[field];
+      return picked;
+    }, {});
+  }
+
+  // Cross-tab sync (see TabSync)
+  /**
+   * Apply entity states received from another tab. They are written as-is, keeping their
+   * version and timestamps, and are not recorded in this tab's history. A change older than
+   * the local entity is skipped. Returns how many changes were applied.
+   */
+  public applyExternalChanges(changes: EntitySyncChange[]): number {
+    let applied = 0;
+
+    this.isTimeTraveling = true;
+    try {
+      changes.forEach(({ entityId, entity, category }) => {
+        const current = this.state.entities.get(entityId);
+
+        if (!entity) {
+          if (!current) return;
+          this.state.entities.delete(entityId);
+          this.updateEntityTypeState(current.type, 'DELETE', current, entityId);
+          this.notifySubscriptions([current], { type: 'DELETE', payload: { entityId }, timestamp: new Date() });
+          this.removeCategoryMembership(entityId);
+          applied++;
+          return;
+        }
+
+        if (current && this.isNewer(current, entity)) return;
+
+        this.writeEntity(entity, category);
+        applied++;
+      });
+    } finally {
+      this.isTimeTraveling = false;
+    }
+
+    if (applied > 0) {
+      this.notifyListeners();
+      console.log(`[EntityStore] Applied ${applied}/${changes.length} changes from another tab`);
+    }
+    return applied;
+  }
+
+  // Higher version wins; for the same version, the later write
+  private isNewer(a: BaseEntity, b: BaseEntity): boolean {
+    if ((a.version || 0) !== (b.version || 0)) {
+      return (a.version || 0) > (b.version || 0);
+    }
+    return new Date(a.updatedAt).getTime() > new Date(b.updatedAt).getTime();
+  }
+
+  /**
+   * Store an entity exactly as given (version and timestamps included) in the given category slot, or in none
+   */
+  private writeEntity(entity: BaseEntity, category?: EntityChange['category']): void {
+    const current = this.state.entities.get(entity.id);
+    this.recordChange(entity.id, current, entity, category);
+
+    if (category) {
+      this.setCategoryMembership(entity.id, category.category, category.key);
+    } else {
+      this.removeCategoryMembership(entity.id);
+    }
+    this.state.entities.set(entity.id, entity);
+    this.updateEntityTypeState(entity.type, current ? 'UPDATE' : 'ADD', entity);
+    this.notifySubscriptions([entity], {
+      type: current ? 'UPDATE' : 'ADD',
+      payload: { entity },
+      timestamp: new Date()
+    });
+  }
+
+  // Workspace bundles (see WorkspaceBundle)
+  /**
+   * Export entities with their category slots and the given chat transcripts. With a documentId
+   * only that document's entities are included (see getDocumentEntities).
+   */
+  public exportBundle(options: { documentId?: string; transcripts?: Map<number, ChatMessage[]> } = {}): WorkspaceBundle {
+    const entities = options.documentId
+      ? this.getDocumentEntities(options.documentId)
+      : Array.from(this.state.entities.values());
+
+    const categories = entities.flatMap(entity => {
+      const membership = this.categoryOf.get(entity.id);
+      return membership ? [{ ...membership, entityId: entity.id }] : [];
+    });
+
+    console.log(`[EntityStore] Exported ${entities.length} entities${options.documentId ? ` for document ${options.documentId}` : ''}`);
+    return createWorkspaceBundle({ documentId: options.documentId, entities, categories, transcripts: options.transcripts });
+  }
+
+  /**
+   * Load a bundle (JSON text or object) as one undoable step. Entities keep the versions and
+   * timestamps they were exported with. Throws if the bundle is invalid, leaving the store untouched.
+   */
+  public importBundle(input: unknown, mode: WorkspaceImportMode = 'merge'): WorkspaceImportResult {
+    const bundle = parseWorkspaceBundle(input);
+    const entities = reviveBundleEntities(bundle);
+    const categories = new Map(bundle.categories.map(({ entityId, category, key }) => [entityId, { category, key }]));
+    const incomingIds = new Set(entities.map(entity => entity.id));
+    let removed = 0;
+
+    this.transaction(() => {
+      if (mode === 'replace') {
+        const inScope = bundle.documentId ? this.getDocumentEntities(bundle.documentId) : Array.from(this.state.entities.values());
+        inScope
+          .filter(entity => !incomingIds.has(entity.id) && this.state.entities.has(entity.id))
+          .forEach(entity => {
+            if (this.deleteEntity(entity.id)) removed++;
+          });
+      }
+
+      entities.forEach(entity => this.writeEntity(entity, categories.get(entity.id)));
+    }, bundle.documentId ? `Import document ${bundle.documentId}` : 'Import workspace', 'user');
+
+    console.log(`[EntityStore] Imported ${entities.length} entities (${mode}, ${removed} removed)`);
+    return {
+      documentId: bundle.documentId,
+      entities: entities.length,
+      removed,
+      transcripts: reviveBundleTranscripts(bundle)
+    };
+  }
+
+  /**
+   * A document's entities: the ones indexed under its documentId (or with it as id),
+   * plus the entities that reference them through a relation
+   */
+  private getDocumentEntities(documentId: string): BaseEntity[] {
+    const ids = new Set(this.indexes.lookup('documentId', documentId));
+    if (this.state.entities.has(documentId)) {
+      ids.add(documentId);
+    }
+    Array.from(ids).forEach(id => {
+      this.getReferencingEntities(id).forEach(({ source }) => ids.add(source.id));
+    });
+
+    return Array.from(ids, id => this.state.entities.get(id)).filter((entity): entity is BaseEntity => !!entity);
+  }
+
+  // Persistence
+  /**
+   * Persist entities and categories through the given adapter and restore the last snapshot.
+   * Resolves once hydration has finished; later changes are saved after a short debounce.
+   * Calling it again returns the first hydration.
+   */
+  public enablePersistence(options: EntityPersistenceOptions): Promise<void> {
+    if (!this.hydration) {
+      this.persistence = new EntityPersistence(options);
+      this.hydration = this.hydrate();
+    }
+    return this.hydration;
+  }
+
+  public isHydrated(): boolean {
+    return this.hydrated;
+  }
+
+  /**
+   * Restore the stored snapshot. Entities already in memory take precedence over stored ones.
+   */
+  public async hydrate(): Promise<void> {
+    if (!this.persistence) return;
+
+    try {
+      const snapshot = await this.persistence.load();
+      if (snapshot) {
+        const restored = snapshot.entities.filter(entity => !this.state.entities.has(entity.id));
+        restored.forEach(entity => {
+          this.state.entities.set(entity.id, entity);
+          this.updateEntityTypeState(entity.type, 'ADD', entity);
+        });
+
+        snapshot.categories.forEach(({ category, key, entityId }) => {
+          if (!this.state.entities.has(entityId) || this.categoryOf.has(entityId)) return;
+          if (!this.state.categories.get(category)?.has(key)) {
+            this.setCategoryMembership(entityId, category, key);
+          }
+        });
+
+        if (restored.length > 0) {
+          this.notifySubscriptions(restored, {
+            type: 'ADD',
+            payload: { entities: restored },
+            timestamp: new Date()
+          });
+        }
+        console.log(`[EntityStore] Hydrated ${restored.length} entities from persistence`);
+      }
+    } catch (error) {
+      console.error('[EntityStore] Failed to hydrate from persistence:', error);
+    } finally {
+      this.hydrated = true;
+      this.notifyListeners();
+    }
+  }
+
+  /**
+   * Remove the stored snapshot (in-memory entities are kept)
+   */
+  public async clearPersistedState(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    await this.persistence?.clear();
+  }
+
+  /**
+   * Write a snapshot immediately instead of waiting for the debounce
+   */
+  public async flushPersistence(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    await this.persist();
+  }
+
+  private schedulePersist(): void {
+    // Don't overwrite the snapshot before it has been read back
+    if (!this.persistence || !this.hydrated) return;
+
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+    }
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, this.persistence.debounceMs);
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.persistence) return;
+
+    const categoryEntries = Array.from(this.categoryOf, ([entityId, { category, key }]) => ({ category, key, entityId }));
+
+    try {
+      await this.persistence.save(Array.from(this.state.entities.values()), categoryEntries);
+    } catch (error) {
+      console.error('[EntityStore] Failed to persist entities:', error);
+    }
   }
 
   // Loading and error state management
@@ -352,6 +1429,16 @@ export class EntityStore {
       })),
       subscriptions: this.state.subscriptions.size,
       listeners: this.listeners.length,
+      indexes: this.indexes.getStats(),
+      relations: this.relations.size,
+      categories: this.state.categories.size,
+      history: { undo: this.undoStack.length, redo: this.redoStack.length },
+      optimistic: {
+        pending: this.pendingMutations.size,
+        conflicts: this.conflicts.size,
+        staleRejected: this.staleUpdatesRejected
+      },
+      persistence: this.persistence ? (this.hydrated ? 'hydrated' : 'hydrating') : 'disabled',
       loading: this.state.loading,
       error: this.state.error
     };
@@ -361,40 +1448,63 @@ export class EntityStore {
   public handleSystemMessage(message: any): void {
     try {
       if (message.type === 'ENTITY_UPDATE' && message.payload) {
-        const { action, entity, entityId, entities, category, key } = message.payload;
+        const validation = MessageContractRegistry.getInstance().validate(message);
+        if (!validation.valid) {
+          console.error(`[EntityStore] Rejected malformed ENTITY_UPDATE: ${MessageContractRegistry.formatIssues(validation)}`, message);
+          return;
+        }
+
+        const { action, entity, entityId, entities, category, key, baseVersion, mutationId } = (message as EntityUpdateMessage).payload;
         
-        switch (action) {
-          case 'ADD':
-            if (category && key && entity) {
-              this.addEntityToCategory(category, key, entity);
-            } else if (entity) {
-              this.addEntity(entity);
-            } else if (entities) {
-              this.addEntities(entities);
-            }
-            break;
-          case 'UPDATE':
-            if (category && key && entity) {
-              this.updateEntityInCategory(category, key, entity);
-            } else if (entity && entityId) {
-              this.updateEntity(entityId, entity);
-            }
-            break;
-          case 'DELETE':
-            if (category && key) {
-              this.deleteEntityFromCategory(category, key);
-            } else if (entityId) {
-              this.deleteEntity(entityId);
-            }
-            break;
-          case 'CLEAR':
-            if (category) {
-              this.clearCategory(category);
-            } else {
-              this.clearEntities(entity?.type);
+        this.transaction(() => {
+          switch (action) {
+            case 'ADD':
+              if (category && key && entity) {
+                this.addEntityToCategory(category, key, entity);
+              } else if (entity) {
+                this.addEntity(entity);
+              } else if (entities) {
+                this.addEntities(entities);
+              }
+              break;
+            case 'UPDATE': {
+              // Versioned updates go through conflict detection
+              const targetId = category && key ? this.getEntityFromCategory(category, key)?.id : entityId;
+              if (entity && targetId && baseVersion !== undefined) {
+                this.applyRemoteUpdate(targetId, entity, baseVersion);
+              } else if (category && key && entity) {
+                this.updateEntityInCategory(category, key, entity);
+              } else if (entity && entityId) {
+                this.updateEntity(entityId, entity);
+              }
+              break;
             }
-            break;
-        }
+            case 'CONFIRM':
+              if (mutationId) {
+                this.confirmOptimisticUpdate(mutationId, entity);
+              }
+              break;
+            case 'REJECT':
+              if (mutationId) {
+                this.rollbackOptimisticUpdate(mutationId);
+              }
+              break;
+            case 'DELETE':
+              if (category && key) {
+                this.deleteEntityFromCategory(category, key);
+              } else if (entityId) {
+                this.deleteEntity(entityId);
+              }
+              break;
+            case 'CLEAR':
+              if (category) {
+                this.clearCategory(category);
+              } else {
+                this.clearEntities(entity?.type);
+              }
+              break;
+          }
+        }, `Agent ${action.toLowerCase()}`, 'agent');
       }
     } catch (error) {
       console.error('[EntityStore] Error handling system message:', error);
@@ -403,135 +1513,83 @@ export class EntityStore {
   }
 
   // Category operations
+  // A category is a keyed view over the entity map: entities in a category are ordinary
+  // entities, visible to getEntities, subscriptions and hooks like any other.
   public addEntityToCategory<T extends BaseEntity>(category: string, key: string, entity: T): void {
+    this.setCategoryMembership(entity.id, category, key);
+    this.addEntity(entity);
+    console.log(`[EntityStore] Added entity to category ${category} with key ${key}: ${entity.id} (type: ${entity.type})`);
+  }
+
+  /**
+   * Store an entity as the server sent it, keeping the server's version, so that agent updates
+   * made against that version (applyRemoteUpdate) are not taken for stale ones
+   */
+  public addServerEntityToCategory<T extends BaseEntity>(category: string, key: string, entity: T): void {
     const now = new Date();
-    const entityWithTimestamp = {
+    this.writeEntity({
       ...entity,
-      updatedAt: now,
       createdAt: entity.createdAt || now,
-      version: (entity.version || 0) + 1
-    };
-
-    // Ensure category exists
-    if (!this.categories.has(category)) {
-      this.categories.set(category, new Map());
-    }
-
-    const categoryMap = this.categories.get(category)!;
-    categoryMap.set(key, entityWithTimestamp);
-
-    // Also add to main entities store for backwards compatibility
-    this.state.entities.set(entity.id, entityWithTimestamp);
-    this.updateEntityTypeState(entity.type, 'ADD', entityWithTimestamp);
-    
-    const action: EntityAction<T> = {
-      type: 'ADD',
-      payload: { entity: entityWithTimestamp },
-      timestamp: now
-    };
-
-    this.notifySubscriptions([entityWithTimestamp], action);
+      updatedAt: entity.updatedAt || now,
+      version: entity.version || 1
+    }, { category, key });
     this.notifyListeners();
-    
-    console.log(`[EntityStore] Added entity to category ${category} with key ${key}: ${entity.id} (type: ${entity.type})`);
+    console.log(`[EntityStore] Stored server entity in category ${category} with key ${key}: ${entity.id} (version ${entity.version || 1})`);
   }
 
   public getEntityFromCategory<T extends BaseEntity>(category: string, key: string): T | undefined {
-    const categoryMap = this.categories.get(category);
-    if (!categoryMap) return undefined;
-    return categoryMap.get(key) as T;
+    const entityId = this.state.categories.get(category)?.get(key);
+    return entityId ? this.state.entities.get(entityId) as T : undefined;
   }
 
   public updateEntityInCategory<T extends BaseEntity>(category: string, key: string, updates: Partial<T>): void {
-    const categoryMap = this.categories.get(category);
-    if (!categoryMap) {
-      console.warn(`[EntityStore] Cannot update entity in non-existent category: ${category}`);
-      return;
-    }
-
-    const existingEntity = categoryMap.get(key);
-    if (!existingEntity) {
+    const entityId = this.state.categories.get(category)?.get(key);
+    if (!entityId) {
       console.warn(`[EntityStore] Cannot update non-existent entity in category ${category} with key ${key}`);
       return;
     }
-
-    const now = new Date();
-    const updatedEntity = {
-      ...existingEntity,
-      ...updates,
-      id: existingEntity.id, // Ensure ID cannot be changed
-      updatedAt: now,
-      version: (existingEntity.version || 0) + 1
-    } as T;
-
-    categoryMap.set(key, updatedEntity);
-    
-    // Also update in main entities store
-    this.state.entities.set(existingEntity.id, updatedEntity);
-    this.updateEntityTypeState(existingEntity.type, 'UPDATE', updatedEntity);
-
-    const action: EntityAction<T> = {
-      type: 'UPDATE',
-      payload: { entity: updatedEntity },
-      timestamp: now
-    };
-
-    this.notifySubscriptions([updatedEntity], action);
-    this.notifyListeners();
-    
-    console.log(`[EntityStore] Updated entity in category ${category} with key ${key}: ${existingEntity.id} (type: ${existingEntity.type})`);
+    this.updateEntity(entityId, updates);
   }
 
-  public deleteEntityFromCategory(category: string, key: string): void {
-    const categoryMap = this.categories.get(category);
-    if (!categoryMap) {
-      console.warn(`[EntityStore] Cannot delete entity from non-existent category: ${category}`);
-      return;
-    }
-
-    const entity = categoryMap.get(key);
-    if (!entity) {
+  public deleteEntityFromCategory(category: string, key: string): boolean {
+    const entityId = this.state.categories.get(category)?.get(key);
+    if (!entityId) {
       console.warn(`[EntityStore] Cannot delete non-existent entity in category ${category} with key ${key}`);
-      return;
+      return false;
     }
-
-    categoryMap.delete(key);
-    
-    // Also remove from main entities store
-    this.state.entities.delete(entity.id);
-    this.updateEntityTypeState(entity.type, 'DELETE', entity, entity.id);
-
-    const action: EntityAction = {
-      type: 'DELETE',
-      payload: { entityId: entity.id },
-      timestamp: new Date()
-    };
-
-    this.notifySubscriptions([entity], action);
-    this.notifyListeners();
-    
-    console.log(`[EntityStore] Deleted entity from category ${category} with key ${key}: ${entity.id} (type: ${entity.type})`);
+    return this.deleteEntity(entityId);
   }
 
   public getEntitiesFromCategory<T extends BaseEntity>(category: string): Map<string, T> {
-    const categoryMap = this.categories.get(category);
-    if (!categoryMap) return new Map();
-    return new Map(categoryMap) as Map<string, T>;
+    const result = new Map<string, T>();
+    this.state.categories.get(category)?.forEach((entityId, key) => {
+      const entity = this.state.entities.get(entityId);
+      if (entity) result.set(key, entity as T);
+    });
+    return result;
+  }
+
+  /**
+   * The category and key an entity is filed under, if any
+   */
+  public getCategoryOf(entityId: string): { category: string; key: string } | undefined {
+    return this.findCategoryKey(entityId);
   }
 
   public clearCategory(category: string): void {
-    const categoryMap = this.categories.get(category);
-    if (!categoryMap) return;
+    const members = this.getEntitiesFromCategory(category);
+    if (members.size === 0) return;
 
-    const entities = Array.from(categoryMap.values());
-    
-    // Remove from main entities store
+    const entities = Array.from(members.values());
+    const categoryById = new Map(entities.map(entity => [entity.id, category] as [string, string]));
+
+    members.forEach((entity, key) => this.recordChange(entity.id, entity, undefined, { category, key }));
     entities.forEach(entity => {
       this.state.entities.delete(entity.id);
       this.updateEntityTypeState(entity.type, 'DELETE', entity, entity.id);
+      this.removeCategoryMembership(entity.id);
     });
-
-    categoryMap.clear();
+    this.state.categories.delete(category);
 
     const action: EntityAction = {
       type: 'CLEAR',
@@ -539,7 +1597,7 @@ export class EntityStore {
       timestamp: new Date()
     };
 
-    this.notifySubscriptions(entities, action);
+    this.notifySubscriptions(entities, action, categoryById);
     this.notifyListeners();
     
     console.log(`[EntityStore] Cleared category ${category}: ${entities.length} entities removed`);
@@ -547,33 +1605,62 @@ export class EntityStore {
 
   // Get all categories with their entities
   public getAllCategories(): Map<string, Map<string, BaseEntity>> {
-    return new Map(this.categories);
+    return new Map(this.getCategoryNames().map(category => [category, this.getEntitiesFromCategory(category)]));
   }
 
   // Get all category names
   public getCategoryNames(): string[] {
-    return Array.from(this.categories.keys());
+    return Array.from(this.state.categories.keys());
   }
 
-  // Get documents from all categories (assuming document-like entities)
+  /**
+   * Get documents from all categories (assuming document-like entities)
+   * @deprecated Categories are part of the entity map now; use
+   * `getEntities({ category, type: 'poa_document' })` or `useCategoryEntities(category)`.
+   */
   public getAllDocumentCategories(): { category: string; documents: BaseEntity[] }[] {
-    const result: { category: string; documents: BaseEntity[] }[] = [];
-    
-    this.categories.forEach((entityMap, categoryName) => {
-      const documents = Array.from(entityMap.values()).filter(entity => 
-        entity.type === 'poa_document' || 
-        (entity as any).documentId || 
-        (entity as any).title
-      );
-      
-      if (documents.length > 0) {
-        result.push({
-          category: categoryName,
-          documents: documents
-        });
+    return this.getCategoryNames()
+      .map(category => ({
+        category,
+        documents: this.getEntities({
+          category,
+          filter: entity => entity.type === 'poa_document' || Boolean((entity as any).documentId || (entity as any).title)
+        })
+      }))
+      .filter(({ documents }) => documents.length > 0);
+  }
+
+  /**
+   * File an entity under category/key. An entity has at most one slot; a key
+   * taken by another entity moves to this one.
+   */
+  private setCategoryMembership(entityId: string, category: string, key: string): void {
+    this.removeCategoryMembership(entityId);
+
+    if (!this.state.categories.has(category)) {
+      this.state.categories.set(category, new Map());
+    }
+    const keys = this.state.categories.get(category)!;
+    const previousId = keys.get(key);
+    if (previousId) {
+      this.categoryOf.delete(previousId);
+    }
+
+    keys.set(key, entityId);
+    this.categoryOf.set(entityId, { category, key });
+  }
+
+  private removeCategoryMembership(entityId: string): void {
+    const membership = this.categoryOf.get(entityId);
+    if (!membership) return;
+
+    const keys = this.state.categories.get(membership.category);
+    if (keys?.get(membership.key) === entityId) {
+      keys.delete(membership.key);
+      if (keys.size === 0) {
+        this.state.categories.delete(membership.category);
       }
-    });
-    
-    return result;
+    }
+    this.categoryOf.delete(entityId);
   }
 } 
\ No newline at end of file
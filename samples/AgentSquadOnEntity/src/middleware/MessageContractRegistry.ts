@@ -0,0 +1,241 @@
+/**
+ * Minimal runtime schema description used to validate agent metadata
+ */
+export type Schema =
+  | { kind: 'string' | 'number' | 'boolean' | 'any'; optional?: boolean; nullable?: boolean }
+  | { kind: 'literal'; values: Array<string | number>; optional?: boolean; nullable?: boolean }
+  | { kind: 'array'; items: Schema; optional?: boolean; nullable?: boolean }
+  | { kind: 'object'; fields: Record<string, Schema>; optional?: boolean; nullable?: boolean };
+
+// Schema builders
+export const schema = {
+  string: (): Schema => ({ kind: 'string' }),
+  number: (): Schema => ({ kind: 'number' }),
+  boolean: (): Schema => ({ kind: 'boolean' }),
+  any: (): Schema => ({ kind: 'any' }),
+  literal: (...values: Array<string | number>): Schema => ({ kind: 'literal', values }),
+  array: (items: Schema): Schema => ({ kind: 'array', items }),
+  object: (fields: Record<string, Schema>): Schema => ({ kind: 'object', fields }),
+  optional: (inner: Schema): Schema => ({ ...inner, optional: true }),
+  nullable: (inner: Schema): Schema => ({ ...inner, nullable: true })
+};
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  messageType: string;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Validate a value against a schema, collecting every issue rather than stopping at the first
+ */
+export function validateSchema(value: any, definition: Schema, path: string = '$'): ValidationIssue[] {
+  if (value === undefined) {
+    return definition.optional ? [] : [{ path, message: 'is required' }];
+  }
+  if (value === null) {
+    return definition.nullable || definition.optional ? [] : [{ path, message: 'must not be null' }];
+  }
+
+  switch (definition.kind) {
+    case 'any':
+      return [];
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return typeof value === definition.kind ? [] : [{ path, message: `expected ${definition.kind}, got ${describe(value)}` }];
+    case 'literal':
+      return definition.values.includes(value)
+        ? []
+        : [{ path, message: `expected one of ${definition.values.map(v => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value)}` }];
+    case 'array':
+      if (!Array.isArray(value)) {
+        return [{ path, message: `expected array, got ${describe(value)}` }];
+      }
+      return value.flatMap((item, index) => validateSchema(item, definition.items, `${path}[${index}]`));
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return [{ path, message: `expected object, got ${describe(value)}` }];
+      }
+      return Object.entries(definition.fields).flatMap(([field, fieldSchema]) =>
+        validateSchema(value[field], fieldSchema, `${path}.${field}`)
+      );
+  }
+}
+
+function describe(value: any): string {
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+// Shared pieces of the default contracts
+const { string, number, boolean, any, literal, array, object, optional, nullable } = schema;
+
+const rawDocument = object({
+  id: optional(string()),
+  documentId: optional(string()),
+  title: optional(string()),
+  status: optional(literal('draft', 'pending_review', 'approved', 'rejected')),
+  createdAt: optional(string()),
+  updatedAt: optional(nullable(string())),
+  version: optional(number()),
+  principal: optional(nullable(object({
+    fullName: optional(string()),
+    nationalId: optional(string()),
+    address: optional(string())
+  }))),
+  scope: optional(nullable(string())),
+  representatives: optional(nullable(array(object({
+    id: string(),
+    fullName: optional(string()),
+    nationalId: optional(string()),
+    relationship: optional(nullable(string()))
+  })))),
+  conditions: optional(nullable(array(object({
+    id: string(),
+    type: number(),
+    text: string(),
+    targetId: optional(nullable(string())),
+    createdAt: optional(string()),
+    updatedAt: optional(nullable(string()))
+  })))),
+  witnesses: optional(nullable(array(object({
+    id: string(),
+    fullName: optional(string()),
+    nationalId: optional(string()),
+    relationship: optional(nullable(string()))
+  }))))
+});
+
+const auditResult = object({
+  document: optional(nullable(rawDocument)),
+  data: optional(nullable(any())),
+  findings: optional(nullable(array(object({
+    type: number(),
+    message: string(),
+    description: optional(nullable(string())),
+    link: optional(nullable(string()))
+  })))),
+  isSuccess: optional(boolean()),
+  hasErrors: optional(boolean()),
+  hasWarnings: optional(boolean())
+});
+
+const base = {
+  messageType: string(),
+  requestId: optional(nullable(string())),
+  documentId: optional(nullable(string())),
+  timestamp: optional(nullable(string()))
+};
+
+const progress = object({ ...base, data: object({ percentage: number(), label: optional(string()) }) });
+const formUpdate = object({ ...base, data: object({ formId: optional(string()), field: optional(string()), value: optional(any()), errors: optional(array(string())) }) });
+const notification = object({ ...base, data: object({ message: string(), level: optional(literal('info', 'success', 'warning', 'error')), title: optional(string()) }) });
+const status = object({ ...base, data: object({ status: string(), details: optional(string()) }) });
+
+// Conditions nest, so 'where' is checked in depth by validateEntityQuery (EntityQuery)
+const entityQuery = object({
+  type: optional(string()),
+  category: optional(string()),
+  ids: optional(array(string())),
+  where: optional(object({})),
+  orderBy: optional(array(object({ field: string(), direction: optional(literal('asc', 'desc')) }))),
+  groupBy: optional(string()),
+  offset: optional(number()),
+  limit: optional(number())
+});
+
+const defaultContracts: Record<string, Schema> = {
+  DocumentResponse: object({ ...base, requestId: string(), auditResult }),
+  ActivityLog: object({ ...base, summary: string(), details: optional(nullable(string())), success: optional(boolean()), auditResult: optional(nullable(auditResult)) }),
+  ENTITY_UPDATE: object({
+    type: literal('ENTITY_UPDATE'),
+    payload: object({
+      action: literal('ADD', 'UPDATE', 'DELETE', 'CLEAR', 'CONFIRM', 'REJECT'),
+      entity: optional(object({ id: optional(string()), type: optional(string()) })),
+      entityId: optional(string()),
+      entities: optional(array(object({ id: string(), type: string() }))),
+      category: optional(string()),
+      key: optional(string()),
+      baseVersion: optional(number()),
+      mutationId: optional(string())
+    })
+  }),
+  UI_UPDATE: object({ ...base, data: any() }),
+  PROGRESS: progress,
+  PROGRESS_UPDATE: progress,
+  FORM_UPDATE: formUpdate,
+  FIELD_UPDATE: formUpdate,
+  VALIDATION_UPDATE: formUpdate,
+  NOTIFICATION: notification,
+  ALERT: notification,
+  WARNING: notification,
+  ERROR_NOTIFICATION: notification,
+  STATUS_UPDATE: status,
+  STATE_CHANGE: status,
+  WORKFLOW_STATUS: status,
+  QueryEntities: object({ ...base, requestId: string(), query: entityQuery }),
+  ScopeProposal: object({ ...base, proposedScope: string(), rationale: optional(nullable(string())) }),
+  SubmissionResult: object({ ...base, requestId: string(), success: boolean(), reference: optional(nullable(string())), submittedAt: optional(nullable(string())), error: optional(nullable(string())) })
+};
+
+/**
+ * MessageContractRegistry holds the runtime schema for each known message type.
+ * Message types without a registered contract pass validation unchanged.
+ */
+export class MessageContractRegistry {
+  private static instance: MessageContractRegistry | null = null;
+  private contracts: Map<string, Schema> = new Map();
+
+  private constructor() {
+    Object.entries(defaultContracts).forEach(([messageType, definition]) => this.register(messageType, definition));
+  }
+
+  public static getInstance(): MessageContractRegistry {
+    if (!MessageContractRegistry.instance) {
+      MessageContractRegistry.instance = new MessageContractRegistry();
+    }
+    return MessageContractRegistry.instance;
+  }
+
+  /**
+   * Register or replace the contract for a message type
+   */
+  register(messageType: string, definition: Schema): void {
+    this.contracts.set(messageType, definition);
+  }
+
+  has(messageType: string): boolean {
+    return this.contracts.has(messageType);
+  }
+
+  getRegisteredTypes(): string[] {
+    return Array.from(this.contracts.keys());
+  }
+
+  /**
+   * Validate a message against the contract for its messageType (or type, for system messages)
+   */
+  validate(message: any): ValidationResult {
+    const messageType: string = message?.messageType ?? message?.type ?? 'UNKNOWN';
+    const definition = this.contracts.get(messageType);
+
+    if (!definition) {
+      return { valid: true, messageType, issues: [] };
+    }
+
+    const issues = validateSchema(message, definition);
+    return { valid: issues.length === 0, messageType, issues };
+  }
+
+  /**
+   * Format validation issues as a single diagnostic line
+   */
+  static formatIssues(result: ValidationResult): string {
+    return result.issues.map(issue => `${issue.path} ${issue.message}`).join('; ');
+  }
+}
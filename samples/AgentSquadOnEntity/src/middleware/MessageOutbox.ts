@@ -0,0 +1,225 @@
+export type OutboxStatus = 'pending' | 'sent' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  workflowId: string;
+  kind: 'message' | 'metadata';
+  request: any; // SendInboundMessage payload; threadId is resolved when flushed
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: number;
+  lastError?: string;
+  durable?: boolean; // false keeps the entry in memory only, so it is never replayed after a reload
+}
+
+export interface MessageOutboxEvents {
+  onStatusChange: (entry: OutboxEntry) => void;
+}
+
+const STORAGE_KEY_PREFIX = 'agent-outbox';
+const MAX_ATTEMPTS = 3;
+
+/**
+ * MessageOutbox is a durable per-agent queue of SendInboundMessage requests.
+ * Entries survive a page reload (localStorage, one key per tenant and participant) and
+ * are flushed in order once the agent's connection is subscribed again.
+ */
+export class MessageOutbox {
+  private entries: OutboxEntry[] = [];
+  private events: MessageOutboxEvents;
+  private flushLocks: Map<string, Promise<void>> = new Map();
+  private storageKey: string | null = null; // Set by setOwner; nothing is persisted before that
+  private participantId = '';
+
+  constructor(events: MessageOutboxEvents) {
+    this.events = events;
+  }
+
+  /**
+   * Switch to the outbox of a tenant and participant. Entries queued under another
+   * participant are dropped so they are never sent under the wrong identity.
+   */
+  setOwner(tenantId: string, participantId: string): void {
+    const storageKey = `${STORAGE_KEY_PREFIX}:${tenantId}:${participantId}`;
+    if (storageKey === this.storageKey) return;
+
+    this.storageKey = storageKey;
+    this.participantId = participantId;
+
+    const saved = this.load();
+    const queued = this.entries.filter(entry => !saved.some(e => e.id === entry.id));
+    const candidates = [...saved, ...queued];
+    this.entries = candidates.filter(entry => this.belongsToOwner(entry));
+
+    const dropped = candidates.length - this.entries.length;
+    if (dropped > 0) {
+      console.warn(`[MessageOutbox] Dropped ${dropped} entries queued for another participant`);
+      this.save();
+    }
+  }
+
+  /**
+   * Queue a request for delivery
+   */
+  enqueue(entry: Omit<OutboxEntry, 'status' | 'attempts' | 'createdAt'>): OutboxEntry {
+    const queued: OutboxEntry = {
+      ...entry,
+      status: 'pending',
+      attempts: 0,
+      createdAt: Date.now()
+    };
+
+    this.entries.push(queued);
+    this.save();
+    console.log(`[MessageOutbox] Queued ${queued.kind} ${queued.id} for ${queued.workflowId}`);
+    return queued;
+  }
+
+  /**
+   * Deliver pending entries for a workflow in order.
+   * Stops at the first entry that could not be sent because the connection went away.
+   */
+  flush(workflowId: string, send: (entry: OutboxEntry) => Promise<void>, canSend: () => boolean): Promise<void> {
+    // Chain flushes per workflow so entries never interleave
+    const previous = this.flushLocks.get(workflowId) || Promise.resolve();
+    const current = previous.then(() => this.doFlush(workflowId, send, canSend));
+    this.flushLocks.set(workflowId, current);
+
+    return current.finally(() => {
+      if (this.flushLocks.get(workflowId) === current) {
+        this.flushLocks.delete(workflowId);
+      }
+    });
+  }
+
+  private async doFlush(workflowId: string, send: (entry: OutboxEntry) => Promise<void>, canSend: () => boolean): Promise<void> {
+    for (const entry of this.getPending(workflowId)) {
+      // Entries discarded mid-flush drop out of this.entries
+      while (entry.status === 'pending' && this.entries.includes(entry)) {
+        if (!canSend()) {
+          console.log(`[MessageOutbox] Connection unavailable for ${workflowId}, ${this.getPending(workflowId).length} entries held`);
+          return;
+        }
+
+        try {
+          entry.attempts++;
+          await send(entry);
+          this.markSent(entry);
+        } catch (error) {
+          entry.lastError = error instanceof Error ? error.message : String(error);
+
+          if (!canSend()) {
+            // Lost the connection mid-send; keep the entry pending for the next flush
+            entry.attempts--;
+            this.save();
+            return;
+          }
+
+          if (entry.attempts >= MAX_ATTEMPTS) {
+            console.error(`[MessageOutbox] Giving up on ${entry.id} after ${entry.attempts} attempts:`, error);
+            entry.status = 'failed';
+            this.save();
+            this.events.onStatusChange({ ...entry });
+          } else {
+            console.warn(`[MessageOutbox] Send attempt ${entry.attempts} failed for ${entry.id}, retrying...`);
+            await new Promise(resolve => setTimeout(resolve, 1000 * entry.attempts));
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Move a failed entry back to pending
+   */
+  retry(id: string): OutboxEntry | null {
+    const entry = this.entries.find(e => e.id === id);
+    if (!entry || entry.status !== 'failed') return null;
+
+    entry.status = 'pending';
+    entry.attempts = 0;
+    entry.lastError = undefined;
+    this.save();
+    this.events.onStatusChange({ ...entry });
+    return entry;
+  }
+
+  /**
+   * Drop an entry without sending it
+   */
+  discard(id: string): void {
+    this.entries = this.entries.filter(e => e.id !== id);
+    this.save();
+  }
+
+  /**
+   * Get undelivered entries for a workflow, oldest first
+   */
+  getPending(workflowId: string): OutboxEntry[] {
+    return this.entries.filter(e => e.workflowId === workflowId && e.status === 'pending');
+  }
+
+  /**
+   * Get all undelivered (pending or failed) entries
+   */
+  getEntries(): OutboxEntry[] {
+    return this.entries.map(e => ({ ...e }));
+  }
+
+  /**
+   * Remove every entry
+   */
+  clear(): void {
+    this.entries = [];
+    this.save();
+  }
+
+  /**
+   * Re-read entries from storage, e.g. after another tab has been the one sending
+   */
+  reload(): void {
+    this.entries = [...this.load(), ...this.entries.filter(e => e.durable === false)];
+  }
+
+  getStats(): { pending: number; failed: number } {
+    return {
+      pending: this.entries.filter(e => e.status === 'pending').length,
+      failed: this.entries.filter(e => e.status === 'failed').length
+    };
+  }
+
+  private markSent(entry: OutboxEntry): void {
+    // Delivered entries no longer need to survive a reload
+    entry.status = 'sent';
+    this.entries = this.entries.filter(e => e.id !== entry.id);
+    this.save();
+    this.events.onStatusChange({ ...entry });
+  }
+
+  private belongsToOwner(entry: OutboxEntry): boolean {
+    return (entry.request?.participantId || '') === this.participantId;
+  }
+
+  private load(): OutboxEntry[] {
+    if (!this.storageKey) return [];
+
+    try {
+      const saved = localStorage.getItem(this.storageKey);
+      const entries: OutboxEntry[] = saved ? JSON.parse(saved) : [];
+      return entries.filter(entry => this.belongsToOwner(entry));
+    } catch (error) {
+      console.error('[MessageOutbox] Failed to load outbox from localStorage:', error);
+      return [];
+    }
+  }
+
+  private save(): void {
+    if (!this.storageKey) return;
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.entries.filter(e => e.durable !== false)));
+    } catch (error) {
+      console.error('[MessageOutbox] Failed to save outbox to localStorage:', error);
+    }
+  }
+}
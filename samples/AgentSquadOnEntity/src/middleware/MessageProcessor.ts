@@ -1,7 +1,17 @@
 import { ChatMessage } from '../types';
 import { MetadataMessageRouter } from './MetadataMessageRouter';
 
+/**
+ * Chunk marker for streamed replies. Deltas are appended to the message keyed by id;
+ * a non-empty content on 'end' is treated as the authoritative full text.
+ */
+export interface MessageStream {
+  id: string;
+  event: 'start' | 'delta' | 'end';
+}
+
 export interface Message {
+  id?: string; // Server-assigned message ID, when the backend provides one
   content: string | null | undefined;
   direction: 'Incoming' | 'Outgoing' | 'Handover' | string | number;
   createdAt: Date;
@@ -9,6 +19,7 @@ export interface Message {
   threadId: string;
   participantId: string;
   metadata?: any;
+  stream?: MessageStream; // May also arrive as metadata.stream
 }
 
 export interface ProcessedChatMessage extends ChatMessage {
@@ -19,14 +30,44 @@ export interface ProcessedChatMessage extends ChatMessage {
   timestamp: Date;
   threadId: string;
   metadata?: any;
+  isStreaming?: boolean;
+}
+
+export interface HistoryPageInfo {
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
 }
 
 export interface MessageProcessorEvents {
   onChatMessage: (stepIndex: number, message: ProcessedChatMessage) => void;
+  /** A previously emitted message changed in place (streamed chunk or stream end) */
+  onChatMessageUpdate: (stepIndex: number, message: ProcessedChatMessage) => void;
+  /** One page of thread history, oldest first */
+  onThreadHistory: (stepIndex: number, messages: ProcessedChatMessage[], page: HistoryPageInfo) => void;
   onThreadUpdate: (stepIndex: number, threadId: string) => void;
   onError: (stepIndex: number, error: any) => void;
 }
 
+const STREAM_IDLE_TIMEOUT = 60000;
+const MAX_SEEN_MESSAGE_IDS = 5000;
+
+/**
+ * 53-bit string hash (cyrb53), used to derive message IDs when the server sends none
+ */
+function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
 /**
  * MessageProcessor handles transformation and routing of messages
  * Separated from connection concerns
@@ -35,6 +76,9 @@ export class MessageProcessor {
   private chatHistories: Map<string, Message[]> = new Map();
   private events: MessageProcessorEvents;
   private metadataRouter: MetadataMessageRouter;
+  private activeStreams: Map<string, { message: ProcessedChatMessage; workflowId: string; idleTimer: ReturnType<typeof setTimeout> }> = new Map();
+  private seenMessageIds: Set<string> = new Set(); // Insertion-ordered so the oldest IDs are evicted first
+  private streamAliases: Map<string, string> = new Map(); // History ID of a finished stream -> the stream ID it was shown under
 
   constructor(events: MessageProcessorEvents, metadataRouter: MetadataMessageRouter) {
     this.events = events;
@@ -47,25 +91,207 @@ export class MessageProcessor {
   processMessage(workflowId: string, message: Message, stepIndex: number): void {
     console.log(`[MessageProcessor] Processing message for step ${stepIndex}`);
 
-    // Store in chat history
-    if (!this.chatHistories.has(workflowId)) {
-      this.chatHistories.set(workflowId, []);
+    const stream = this.getStream(message);
+    if (stream) {
+      this.processStreamChunk(workflowId, message, stream, stepIndex);
+      return;
     }
-    this.chatHistories.get(workflowId)?.push(message);
 
-    // Transform to frontend format
-    const processedMessage: ProcessedChatMessage = {
-      id: crypto.randomUUID(),
+    // Drop redelivered messages (reconnects, duplicate handlers, history overlap)
+    const processedMessage = this.toChatMessage(message, stepIndex);
+    if (!this.markSeen(processedMessage.id)) {
+      console.log(`[MessageProcessor] Skipping duplicate message ${processedMessage.id} for step ${stepIndex}`);
+      return;
+    }
+
+    // Store in chat history
+    this.storeHistory(workflowId, message);
+
+    // Emit processed message
+    this.events.onChatMessage(stepIndex, processedMessage);
+  }
+
+  /**
+   * Transform a backend message to frontend format
+   */
+  private toChatMessage(message: Message, stepIndex: number): ProcessedChatMessage {
+    const id = this.getMessageId(message);
+    return {
+      id: this.streamAliases.get(id) || id,
       content: message.content || '',
       direction: this.mapDirection(message.direction),
       stepIndex,
-      timestamp: message.createdAt || new Date(),
+      timestamp: message.createdAt ? new Date(message.createdAt) : new Date(),
       threadId: message.threadId,
       metadata: message.metadata
     };
+  }
 
-    // Emit processed message
-    this.events.onChatMessage(stepIndex, processedMessage);
+  /**
+   * Append a streamed chunk to its message, creating the message on the first chunk
+   */
+  private processStreamChunk(workflowId: string, message: Message, stream: MessageStream, stepIndex: number): void {
+    const chunk = message.content || '';
+    const active = this.activeStreams.get(stream.id);
+
+    if (!active) {
+      // A stream that already finished here is being redelivered (e.g. after a reconnect)
+      if (!this.markSeen(stream.id)) {
+        console.log(`[MessageProcessor] Skipping chunk of finished stream ${stream.id} for step ${stepIndex}`);
+        return;
+      }
+
+      // First chunk seen (a missed 'start' is tolerated); an 'end' on its own is a whole message
+      const processedMessage: ProcessedChatMessage = {
+        id: stream.id,
+        content: chunk,
+        direction: this.mapDirection(message.direction),
+        stepIndex,
+        timestamp: message.createdAt ? new Date(message.createdAt) : new Date(),
+        threadId: message.threadId,
+        metadata: message.metadata,
+        isStreaming: stream.event !== 'end'
+      };
+
+      if (stream.event === 'end') {
+        this.finishStream(stream.id, message, processedMessage.timestamp);
+        this.storeHistory(workflowId, message);
+      } else {
+        this.activeStreams.set(stream.id, { message: processedMessage, workflowId, idleTimer: this.startIdleTimer(stream.id, stepIndex) });
+      }
+
+      this.events.onChatMessage(stepIndex, processedMessage);
+      return;
+    }
+
+    clearTimeout(active.idleTimer);
+
+    if (stream.event === 'end') {
+      const finalMessage: ProcessedChatMessage = {
+        ...active.message,
+        content: chunk || active.message.content,
+        metadata: message.metadata ?? active.message.metadata,
+        isStreaming: false
+      };
+      this.activeStreams.delete(stream.id);
+      this.finishStream(stream.id, { ...message, content: finalMessage.content }, finalMessage.timestamp);
+      this.storeHistory(workflowId, { ...message, content: finalMessage.content });
+      this.events.onChatMessageUpdate(stepIndex, finalMessage);
+      return;
+    }
+
+    active.message = { ...active.message, content: active.message.content + chunk };
+    active.idleTimer = this.startIdleTimer(stream.id, stepIndex);
+    this.events.onChatMessageUpdate(stepIndex, active.message);
+  }
+
+  /**
+   * Close a stream whose agent stopped sending chunks without an 'end'
+   */
+  private startIdleTimer(streamId: string, stepIndex: number): ReturnType<typeof setTimeout> {
+    return setTimeout(() => {
+      const active = this.activeStreams.get(streamId);
+      if (!active) return;
+
+      console.warn(`[MessageProcessor] Stream ${streamId} idle for ${STREAM_IDLE_TIMEOUT}ms, closing it`);
+      this.activeStreams.delete(streamId);
+      const finalMessage = { ...active.message, isStreaming: false };
+      const historyMessage: Message = {
+        content: finalMessage.content,
+        direction: finalMessage.direction,
+        createdAt: finalMessage.timestamp,
+        workflowId: active.workflowId,
+        threadId: finalMessage.threadId,
+        participantId: '',
+        metadata: finalMessage.metadata
+      };
+      this.finishStream(streamId, historyMessage, finalMessage.timestamp);
+      this.storeHistory(active.workflowId, historyMessage);
+      this.events.onChatMessageUpdate(stepIndex, finalMessage);
+    }, STREAM_IDLE_TIMEOUT);
+  }
+
+  /**
+   * Stable message identity: the server ID, the stream ID, or a fingerprint of the message
+   */
+  getMessageId(message: Message): string {
+    if (message.id) {
+      return message.id;
+    }
+
+    const stream = this.getStream(message);
+    if (stream) {
+      return stream.id;
+    }
+
+    const createdAt = new Date(message.createdAt).getTime();
+    const fingerprint = [
+      message.workflowId,
+      message.threadId,
+      this.mapDirection(message.direction),
+      Number.isNaN(createdAt) ? '' : createdAt,
+      message.content || ''
+    ].join('|');
+    return `msg_${hashString(fingerprint)}`;
+  }
+
+  /**
+   * The history copy of a streamed reply has no stream marker, so it gets the server ID or a
+   * fingerprint instead of the stream ID. Mark those IDs as seen and map them to the stream ID,
+   * so a history reload shows the reply once. The fingerprint is taken at both the end chunk's
+   * time and the stream's start, since either may be what the server stored.
+   */
+  private finishStream(streamId: string, message: Message, startedAt: Date): void {
+    const { stream, ...rest } = message;
+    const plain: Message = { ...rest, metadata: message.metadata && { ...message.metadata, stream: undefined } };
+
+    [plain.createdAt, startedAt].forEach(createdAt => {
+      const historyId = this.getMessageId({ ...plain, createdAt });
+      this.markSeen(historyId);
+      this.streamAliases.set(historyId, streamId);
+    });
+
+    while (this.streamAliases.size > MAX_SEEN_MESSAGE_IDS) {
+      const oldest = this.streamAliases.keys().next().value;
+      if (oldest === undefined) break;
+      this.streamAliases.delete(oldest);
+    }
+  }
+
+  /**
+   * Record a message ID; returns false if it was already seen
+   */
+  private markSeen(id: string): boolean {
+    if (this.seenMessageIds.has(id)) {
+      return false;
+    }
+
+    this.seenMessageIds.add(id);
+    if (this.seenMessageIds.size > MAX_SEEN_MESSAGE_IDS) {
+      const oldest = this.seenMessageIds.values().next().value;
+      if (oldest !== undefined) {
+        this.seenMessageIds.delete(oldest);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Read the stream marker from the message or its metadata
+   */
+  private getStream(message: Message): MessageStream | null {
+    const stream = message.stream || message.metadata?.stream;
+    if (!stream?.id || !['start', 'delta', 'end'].includes(stream.event)) {
+      return null;
+    }
+    return stream;
+  }
+
+  private storeHistory(workflowId: string, message: Message): void {
+    if (!this.chatHistories.has(workflowId)) {
+      this.chatHistories.set(workflowId, []);
+    }
+    this.chatHistories.get(workflowId)?.push(message);
   }
 
   /**
@@ -86,8 +312,8 @@ export class MessageProcessor {
         return;
       }
 
-      // Route to interested subscribers
-      this.metadataRouter.routeMessage(message.metadata);
+      // Route to interested subscribers, scoped by the workflow that sent it
+      this.metadataRouter.routeMessage(message.metadata, { workflowId: message.workflowId });
 
     } catch (error) {
       console.error(`[MessageProcessor] Error processing metadata:`, error);
@@ -96,27 +322,27 @@ export class MessageProcessor {
   }
 
   /**
-   * Process thread history messages
+   * Process one page of thread history and emit it as a single batch
    */
-  processThreadHistory(history: Message[], stepIndex: number): void {
-    if (!history || history.length === 0) {
-      return;
-    }
-    
-    const workflowId = history[0].workflowId; 
-    console.log(`[MessageProcessor] Processing ${history.length} historical messages for step ${stepIndex}, workflow ${workflowId}`);
+  processThreadHistory(history: Message[], stepIndex: number, page: HistoryPageInfo = { page: 1, pageSize: history.length, hasMore: false }): void {
+    console.log(`[MessageProcessor] Processing ${history.length} historical messages for step ${stepIndex} (page ${page.page})`);
 
     // Sort historical messages in chronological order (oldest first)
     const sortedHistory = [...history].sort((a, b) => 
       new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
     );
 
-    // Process each historical message
-    for (const histMessage of sortedHistory) {
-      this.processMessage(workflowId, histMessage, stepIndex);
-    }
+    // Every message is emitted so a reloaded page can fill gaps; only unseen ones are stored
+    const messages = sortedHistory.map(histMessage => {
+      const processedMessage = this.toChatMessage(histMessage, stepIndex);
+      if (this.markSeen(processedMessage.id)) {
+        this.storeHistory(histMessage.workflowId, histMessage);
+      }
+      return processedMessage;
+    });
 
-    console.log(`[MessageProcessor] Processed ${sortedHistory.length} historical messages for step ${stepIndex}`);
+    // Emitted even when empty so listeners can clear their loading state
+    this.events.onThreadHistory(stepIndex, messages, page);
   }
 
   /**
@@ -186,5 +412,9 @@ export class MessageProcessor {
    */
   clearAllHistories(): void {
     this.chatHistories.clear();
+    this.seenMessageIds.clear();
+    this.streamAliases.clear();
+    this.activeStreams.forEach(({ idleTimer }) => clearTimeout(idleTimer));
+    this.activeStreams.clear();
   }
 } 
\ No newline at end of file
@@ -1,10 +1,77 @@
+import { MessageContractRegistry } from './MessageContractRegistry';
 
-export interface MetadataSubscriber {
+/**
+ * Metadata payload sent by an agent; messageType drives routing
+ */
+export interface MetadataMessage {
+  messageType: string;
+  requestId?: string;
+  documentId?: string;
+  [key: string]: any;
+}
+
+/**
+ * Where a metadata message came from
+ */
+export interface MetadataRoutingContext {
+  workflowId?: string;
+  stepIndex?: number | null;
+  /** True when delivered from the replay buffer on subscribe */
+  replayed?: boolean;
+}
+
+/**
+ * Which buffered messages a new subscriber receives on subscribe
+ */
+export interface MetadataReplayOptions {
+  /** Replay at most the last N matching messages (default 1, or all when latestPerDocument is set) */
+  last?: number;
+  /** Replay only the most recent matching message for each documentId */
+  latestPerDocument?: boolean;
+}
+
+/**
+ * Optional scoping for a subscriber. A scope filter only rejects a message whose
+ * own scope is known and differs, so messages without a workflowId still reach everyone.
+ */
+export interface MetadataSubscriptionFilter {
+  stepIndex?: number;
+  workflowId?: string;
+  documentId?: string;
+  predicate?: (message: MetadataMessage, context: MetadataRoutingContext) => boolean;
+}
+
+export interface MetadataSubscriber extends MetadataSubscriptionFilter {
   id: string;
+  /** Exact types, prefix patterns ('Document*') or '*' for everything */
   messageTypes: string[];
-  callback: (message: any) => void;
+  callback: (message: any, context: MetadataRoutingContext) => void;
+  replay?: MetadataReplayOptions;
+}
+
+interface BufferedMessage {
+  sequence: number;
+  message: MetadataMessage;
+  context: MetadataRoutingContext;
 }
 
+export interface AwaitResponseOptions {
+  timeout: number;
+  signal?: AbortSignal;
+}
+
+interface PendingRequest {
+  requestId: string;
+  responseTypes: string[];
+  resolve: (message: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+  cleanup: () => void;
+}
+
+const CLOSED_REQUEST_LIMIT = 200;
+const DEFAULT_REPLAY_BUFFER_SIZE = 20;
+
 /**
  * MetadataMessageRouter routes metadata messages to interested UI components
  * based on messageType
@@ -12,23 +79,55 @@ export interface MetadataSubscriber {
 export class MetadataMessageRouter {
   private subscribers: Map<string, MetadataSubscriber> = new Map();
   private messageTypeIndex: Map<string, Set<string>> = new Map(); // messageType -> subscriber IDs
+  private patternIndex: Map<string, Set<string>> = new Map(); // 'Prefix*' or '*' -> subscriber IDs
+  private stepResolver: ((workflowId: string) => number | null) | null = null;
+  private deliveredCount = 0;
+  private filteredCount = 0;
+  private rejectedByType: Record<string, number> = {};
+  private contracts: MessageContractRegistry = MessageContractRegistry.getInstance();
+
+  // Bounded per-type ring buffer so lazily mounted subscribers can catch up
+  private replayBuffer: Map<string, BufferedMessage[]> = new Map();
+  private readonly replayBufferSize: number;
+  private sequence = 0;
+
+  // Request/response correlation
+  private pendingRequests: Map<string, PendingRequest> = new Map(); // requestId -> pending request
+  private closedRequests: Map<string, string> = new Map(); // requestId -> reason it closed (bounded)
+  private responseTypes: Set<string> = new Set(); // message types ever awaited as responses
+  private lateResponses = 0;
+  private orphanedResponses = 0;
+
+  constructor(replayBufferSize: number = DEFAULT_REPLAY_BUFFER_SIZE) {
+    this.replayBufferSize = replayBufferSize;
+  }
 
   /**
    * Subscribe to specific metadata message types
    */
   subscribe(subscriber: MetadataSubscriber): () => void {
+    // Replacing a subscriber with the same ID must not leave stale index entries
+    if (this.subscribers.has(subscriber.id)) {
+      this.unsubscribe(subscriber.id);
+    }
+
     // Store subscriber
     this.subscribers.set(subscriber.id, subscriber);
 
     // Index by message types
     subscriber.messageTypes.forEach(messageType => {
-      if (!this.messageTypeIndex.has(messageType)) {
-        this.messageTypeIndex.set(messageType, new Set());
+      const index = this.isPattern(messageType) ? this.patternIndex : this.messageTypeIndex;
+      if (!index.has(messageType)) {
+        index.set(messageType, new Set());
       }
-      this.messageTypeIndex.get(messageType)!.add(subscriber.id);
+      index.get(messageType)!.add(subscriber.id);
     });
 
-    console.log(`[MetadataMessageRouter] Subscriber ${subscriber.id} registered for types: ${subscriber.messageTypes.join(', ')}`);
+    console.log(`[MetadataMessageRouter] Subscriber ${subscriber.id} registered for types: ${subscriber.messageTypes.join(', ')}${this.describeScope(subscriber)}`);
+
+    if (subscriber.replay) {
+      this.replayTo(subscriber);
+    }
 
     // Return unsubscribe function
     return () => this.unsubscribe(subscriber.id);
@@ -43,11 +142,12 @@ export class MetadataMessageRouter {
 
     // Remove from message type index
     subscriber.messageTypes.forEach(messageType => {
-      const subscriberSet = this.messageTypeIndex.get(messageType);
+      const index = this.isPattern(messageType) ? this.patternIndex : this.messageTypeIndex;
+      const subscriberSet = index.get(messageType);
       if (subscriberSet) {
         subscriberSet.delete(subscriberId);
         if (subscriberSet.size === 0) {
-          this.messageTypeIndex.delete(messageType);
+          index.delete(messageType);
         }
       }
     });
@@ -57,15 +157,137 @@ export class MetadataMessageRouter {
     console.log(`[MetadataMessageRouter] Subscriber ${subscriberId} unregistered`);
   }
 
+  /**
+   * Wait for a response carrying the given requestId.
+   * Rejects on timeout, or with an AbortError when the signal is aborted.
+   */
+  awaitResponse<T = any>(requestId: string, responseTypes: string[], options: AwaitResponseOptions): Promise<T> {
+    if (this.pendingRequests.has(requestId)) {
+      return Promise.reject(new Error(`Request ${requestId} is already awaiting a response`));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const { timeout, signal } = options;
+
+      if (signal?.aborted) {
+        reject(new DOMException(`Request ${requestId} aborted`, 'AbortError'));
+        return;
+      }
+
+      const onAbort = () => {
+        this.closeRequest(requestId, 'aborted');
+        reject(new DOMException(`Request ${requestId} aborted`, 'AbortError'));
+      };
+
+      const timer = setTimeout(() => {
+        this.closeRequest(requestId, 'timed out');
+        reject(new Error(`Request ${requestId} timed out after ${timeout}ms waiting for ${responseTypes.join(' | ')}`));
+      }, timeout);
+
+      signal?.addEventListener('abort', onAbort);
+      responseTypes.forEach(type => this.responseTypes.add(type));
+
+      this.pendingRequests.set(requestId, {
+        requestId,
+        responseTypes,
+        resolve,
+        reject,
+        timer,
+        cleanup: () => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        }
+      });
+    });
+  }
+
+  /**
+   * Reject a pending request without waiting for its timeout
+   */
+  cancelResponse(requestId: string, reason: string): void {
+    const pending = this.closeRequest(requestId, reason);
+    pending?.reject(new Error(`Request ${requestId} cancelled: ${reason}`));
+  }
+
+  /**
+   * Stop waiting for a request; responses arriving afterwards are reported as late
+   */
+  private closeRequest(requestId: string, reason: string): PendingRequest | undefined {
+    const pending = this.pendingRequests.get(requestId);
+    if (pending) {
+      pending.cleanup();
+      this.pendingRequests.delete(requestId);
+    }
+
+    this.closedRequests.set(requestId, reason);
+    if (this.closedRequests.size > CLOSED_REQUEST_LIMIT) {
+      const oldest = this.closedRequests.keys().next().value;
+      if (oldest !== undefined) this.closedRequests.delete(oldest);
+    }
+    return pending;
+  }
+
+  /**
+   * Resolve a pending request if the message answers it
+   */
+  private resolvePendingRequest(message: any): void {
+    const { messageType, requestId } = message;
+    if (!requestId || !this.responseTypes.has(messageType)) return;
+
+    const pending = this.pendingRequests.get(requestId);
+    if (pending && pending.responseTypes.includes(messageType)) {
+      this.closeRequest(requestId, 'completed');
+      pending.resolve(message);
+      console.log(`[MetadataMessageRouter] Resolved request ${requestId} with ${messageType}`);
+      return;
+    }
+
+    const closedReason = this.closedRequests.get(requestId);
+    if (closedReason) {
+      this.lateResponses++;
+      console.warn(`[MetadataMessageRouter] Late ${messageType} for request ${requestId} (request ${closedReason})`);
+    } else if (!pending) {
+      this.orphanedResponses++;
+      console.warn(`[MetadataMessageRouter] Orphaned ${messageType} for unknown request ${requestId}`);
+    }
+  }
+
+  /**
+   * Set how a workflowId is mapped to the step it belongs to
+   */
+  setStepResolver(resolver: (workflowId: string) => number | null): void {
+    this.stepResolver = resolver;
+  }
+
   /**
    * Route a metadata message to interested subscribers
    */
-  routeMessage(message: any): void {
+  routeMessage(message: MetadataMessage, context: MetadataRoutingContext = {}): void {
     const { messageType } = message;
+    const routingContext: MetadataRoutingContext = {
+      ...context,
+      stepIndex: context.stepIndex ?? (context.workflowId && this.stepResolver ? this.stepResolver(context.workflowId) : null)
+    };
+
+    // Malformed agent output is dropped here rather than crashing a subscriber
+    const validation = this.contracts.validate(message);
+    if (!validation.valid) {
+      const diagnostic = MessageContractRegistry.formatIssues(validation);
+      this.rejectedByType[messageType] = (this.rejectedByType[messageType] || 0) + 1;
+      console.error(`[MetadataMessageRouter] Rejected malformed ${messageType} from ${routingContext.workflowId || 'unknown workflow'}: ${diagnostic}`, message);
+
+      if (message.requestId && this.pendingRequests.has(message.requestId)) {
+        this.cancelResponse(message.requestId, `malformed ${messageType} (${diagnostic})`);
+      }
+      return;
+    }
+
+    this.resolvePendingRequest(message);
+    this.bufferMessage(message, routingContext);
     
     // Find subscribers interested in this message type
-    const interestedSubscribers = this.messageTypeIndex.get(messageType);
-    if (!interestedSubscribers || interestedSubscribers.size === 0) {
+    const interestedSubscribers = this.getSubscribersForType(messageType);
+    if (interestedSubscribers.size === 0) {
       console.log(`[MetadataMessageRouter] No subscribers for messageType: ${messageType}`);
       return;
     }
@@ -74,8 +296,14 @@ export class MetadataMessageRouter {
       const subscriber = this.subscribers.get(subscriberId);
       if (!subscriber) return;
 
+      if (!this.matchesFilter(subscriber, message, routingContext)) {
+        this.filteredCount++;
+        return;
+      }
+
       try {
-        subscriber.callback(message);
+        this.deliveredCount++;
+        subscriber.callback(message, routingContext);
         console.log(`[MetadataMessageRouter] Routed ${messageType} message to subscriber ${subscriberId}`);
       } catch (error) {
         console.error(`[MetadataMessageRouter] Error in subscriber ${subscriberId} callback:`, error);
@@ -83,6 +311,141 @@ export class MetadataMessageRouter {
     });
   }
 
+  /**
+   * Keep a message in its type's ring buffer
+   */
+  private bufferMessage(message: MetadataMessage, context: MetadataRoutingContext): void {
+    if (this.replayBufferSize <= 0 || !message.messageType) return;
+
+    if (!this.replayBuffer.has(message.messageType)) {
+      this.replayBuffer.set(message.messageType, []);
+    }
+    const buffer = this.replayBuffer.get(message.messageType)!;
+    buffer.push({ sequence: this.sequence++, message, context });
+    if (buffer.length > this.replayBufferSize) {
+      buffer.shift();
+    }
+  }
+
+  /**
+   * Deliver buffered messages matching a new subscriber's types and filters
+   */
+  private replayTo(subscriber: MetadataSubscriber): void {
+    const { last, latestPerDocument } = subscriber.replay!;
+
+    let matches: BufferedMessage[] = [];
+    this.replayBuffer.forEach((buffer, messageType) => {
+      const wanted = subscriber.messageTypes.some(type =>
+        this.isPattern(type) ? this.matchesPattern(type, messageType) : type === messageType
+      );
+      if (wanted) {
+        matches.push(...buffer.filter(entry => this.matchesFilter(subscriber, entry.message, entry.context)));
+      }
+    });
+
+    matches.sort((a, b) => a.sequence - b.sequence);
+
+    if (latestPerDocument) {
+      const latestByDocument = new Map<string, BufferedMessage>();
+      matches.forEach(entry => latestByDocument.set(this.getDocumentId(entry.message) || '', entry));
+      matches = Array.from(latestByDocument.values()).sort((a, b) => a.sequence - b.sequence);
+    }
+
+    const limit = last ?? (latestPerDocument ? matches.length : 1);
+    matches = matches.slice(Math.max(0, matches.length - limit));
+
+    if (matches.length === 0) return;
+    console.log(`[MetadataMessageRouter] Replaying ${matches.length} buffered messages to subscriber ${subscriber.id}`);
+
+    for (const entry of matches) {
+      // The callback may unsubscribe or replace the subscriber
+      if (this.subscribers.get(subscriber.id) !== subscriber) return;
+
+      try {
+        this.deliveredCount++;
+        subscriber.callback(entry.message, { ...entry.context, replayed: true });
+      } catch (error) {
+        console.error(`[MetadataMessageRouter] Error replaying to subscriber ${subscriber.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Drop all buffered messages
+   */
+  clearReplayBuffer(): void {
+    this.replayBuffer.clear();
+  }
+
+  /**
+   * Collect subscribers whose exact types or patterns match a message type
+   */
+  private getSubscribersForType(messageType: string): Set<string> {
+    const result = new Set(this.messageTypeIndex.get(messageType) || []);
+
+    this.patternIndex.forEach((subscriberIds, pattern) => {
+      if (this.matchesPattern(pattern, messageType)) {
+        subscriberIds.forEach(id => result.add(id));
+      }
+    });
+
+    return result;
+  }
+
+  private isPattern(messageType: string): boolean {
+    return messageType.endsWith('*');
+  }
+
+  private matchesPattern(pattern: string, messageType: string): boolean {
+    return messageType.startsWith(pattern.slice(0, -1));
+  }
+
+  /**
+   * Check a subscriber's scope and predicate against a message
+   */
+  private matchesFilter(subscriber: MetadataSubscriber, message: MetadataMessage, context: MetadataRoutingContext): boolean {
+    if (subscriber.stepIndex !== undefined && context.stepIndex !== null && context.stepIndex !== undefined
+      && subscriber.stepIndex !== context.stepIndex) {
+      return false;
+    }
+
+    if (subscriber.workflowId && context.workflowId && subscriber.workflowId !== context.workflowId) {
+      return false;
+    }
+
+    const documentId = this.getDocumentId(message);
+    if (subscriber.documentId && documentId && subscriber.documentId !== documentId) {
+      return false;
+    }
+
+    if (subscriber.predicate) {
+      try {
+        return subscriber.predicate(message, context);
+      } catch (error) {
+        console.error(`[MetadataMessageRouter] Error in subscriber ${subscriber.id} predicate:`, error);
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Document a message refers to, either directly or through an audit result
+   */
+  private getDocumentId(message: MetadataMessage): string | undefined {
+    return message.documentId || message.auditResult?.document?.documentId;
+  }
+
+  private describeScope(subscriber: MetadataSubscriber): string {
+    const scope: string[] = [];
+    if (subscriber.stepIndex !== undefined) scope.push(`step ${subscriber.stepIndex}`);
+    if (subscriber.workflowId) scope.push(`workflow ${subscriber.workflowId}`);
+    if (subscriber.documentId) scope.push(`document ${subscriber.documentId}`);
+    if (subscriber.predicate) scope.push('predicate');
+    return scope.length > 0 ? ` (scoped to ${scope.join(', ')})` : '';
+  }
+
   /**
    * Get statistics about current subscriptions
    */
@@ -90,18 +453,62 @@ export class MetadataMessageRouter {
     totalSubscribers: number;
     messageTypes: string[];
     subscribersByType: Record<string, number>;
+    subscribersByScope: {
+      global: number;
+      byStep: Record<string, number>;
+      byWorkflow: Record<string, number>;
+      byDocument: Record<string, number>;
+      withPredicate: number;
+    };
+    deliveredMessages: number;
+    filteredMessages: number;
+    bufferedMessages: Record<string, number>;
+    rejectedMessages: Record<string, number>;
+    pendingRequests: number;
+    lateResponses: number;
+    orphanedResponses: number;
   } {
-    const messageTypes = Array.from(this.messageTypeIndex.keys());
+    const messageTypes = [...this.messageTypeIndex.keys(), ...this.patternIndex.keys()];
     const subscribersByType: Record<string, number> = {};
     
     messageTypes.forEach(type => {
-      subscribersByType[type] = this.messageTypeIndex.get(type)?.size || 0;
+      subscribersByType[type] = (this.messageTypeIndex.get(type) || this.patternIndex.get(type))?.size || 0;
+    });
+
+    const subscribersByScope = {
+      global: 0,
+      byStep: {} as Record<string, number>,
+      byWorkflow: {} as Record<string, number>,
+      byDocument: {} as Record<string, number>,
+      withPredicate: 0
+    };
+    const increment = (counts: Record<string, number>, key: string) => {
+      counts[key] = (counts[key] || 0) + 1;
+    };
+
+    this.subscribers.forEach(subscriber => {
+      const scoped = subscriber.stepIndex !== undefined || subscriber.workflowId || subscriber.documentId || subscriber.predicate;
+      if (!scoped) subscribersByScope.global++;
+      if (subscriber.stepIndex !== undefined) increment(subscribersByScope.byStep, String(subscriber.stepIndex));
+      if (subscriber.workflowId) increment(subscribersByScope.byWorkflow, subscriber.workflowId);
+      if (subscriber.documentId) increment(subscribersByScope.byDocument, subscriber.documentId);
+      if (subscriber.predicate) subscribersByScope.withPredicate++;
     });
 
     return {
       totalSubscribers: this.subscribers.size,
       messageTypes,
-      subscribersByType
+      subscribersByType,
+      subscribersByScope,
+      deliveredMessages: this.deliveredCount,
+      filteredMessages: this.filteredCount,
+      rejectedMessages: { ...this.rejectedByType },
+      bufferedMessages: Object.fromEntries(
+        Array.from(this.replayBuffer.entries()).map(([type, buffer]) => [type, buffer.length])
+      ),
+      pendingRequests: this.pendingRequests.size,
+      lateResponses: this.lateResponses,
+      orphanedResponses: this.orphanedResponses
     };
   }
 
@@ -111,6 +518,13 @@ export class MetadataMessageRouter {
   clear(): void {
     this.subscribers.clear();
     this.messageTypeIndex.clear();
+    this.patternIndex.clear();
+    this.replayBuffer.clear();
+    this.pendingRequests.forEach(pending => {
+      pending.cleanup();
+      pending.reject(new Error(`Request ${pending.requestId} cancelled: router cleared`));
+    });
+    this.pendingRequests.clear();
     console.log(`[MetadataMessageRouter] All subscriptions cleared`);
   }
 } 
\ No newline at end of file
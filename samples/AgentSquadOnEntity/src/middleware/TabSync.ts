@@ -0,0 +1,375 @@
+import { BaseEntity, EntitySyncChange } from '../types';
+import { EntityStore } from './EntityStore';
+
+export type TabRole = 'leader' | 'follower';
+
+/**
+ * Envelope for everything sent over the channel
+ */
+interface TabMessage {
+  kind: string;
+  from: string;
+  /** Tab ID of the only recipient; every other tab when omitted */
+  to?: string;
+  payload: any;
+}
+
+export type TabMessageHandler = (payload: any, from: string) => void;
+
+/**
+ * Answers calls from follower tabs in the leader tab; may return a promise
+ */
+export type TabCallHandler = (method: string, args: any[]) => any;
+
+type SeenEntity = { entity: BaseEntity; category?: { category: string; key: string } };
+
+const CHANNEL_NAME = 'agent-squad-tabs';
+const LEADER_LOCK = 'agent-squad-leader';
+const DEFAULT_CALL_TIMEOUT = 15000;
+
+const sameCategory = (a?: SeenEntity['category'], b?: SeenEntity['category']): boolean =>
+  a?.category === b?.category && a?.key === b?.key;
+
+/**
+ * TabSync connects the open tabs of the app over a BroadcastChannel.
+ * One tab is elected leader through the Web Locks API and holds the lock until it closes;
+ * the next tab waiting for the lock then takes over. Followers reach the leader with call().
+ * It also mirrors EntityStore changes between tabs (see syncEntityStore).
+ */
+export class TabSync {
+  private static instance: TabSync | null = null;
+
+  readonly tabId: string;
+  private channel: BroadcastChannel | null = null;
+  private role: TabRole | null = null;
+  private starting: Promise<TabRole> | null = null;
+  private releaseLeadership: (() => void) | null = null;
+  private leadershipQueue: AbortController | null = null;
+  private roleListeners: Array<(role: TabRole) => void> = [];
+  private handlers: Map<string, Set<TabMessageHandler>> = new Map();
+  private callHandler: TabCallHandler | null = null;
+  private pendingCalls: Map<string, { resolve: (value: any) => void; reject: (error: Error) => void; timer: ReturnType<typeof setTimeout> }> = new Map();
+  private sentCount = 0;
+  private receivedCount = 0;
+
+  // Last entity states this tab has seen, to turn store notifications into changes
+  private seenEntities: Map<string, SeenEntity> = new Map();
+  private applyingRemoteChanges = false;
+
+  private constructor() {
+    this.tabId = crypto.randomUUID();
+    console.log(`[TabSync] Instance created for tab ${this.tabId}`);
+  }
+
+  public static getInstance(): TabSync {
+    if (TabSync.instance === null) {
+      TabSync.instance = new TabSync();
+    }
+    return TabSync.instance;
+  }
+
+  /**
+   * Open the channel and join the leader election. Resolves with this tab's first role;
+   * calling it again returns the same result.
+   */
+  start(): Promise<TabRole> {
+    if (!this.starting) {
+      this.starting = this.elect();
+    }
+    return this.starting;
+  }
+
+  /**
+   * This tab's role, or null until start() has resolved
+   */
+  getRole(): TabRole | null {
+    return this.role;
+  }
+
+  isLeader(): boolean {
+    return this.role === 'leader';
+  }
+
+  /**
+   * Listen for role changes after the first election (a follower taking over from a closed leader)
+   */
+  onRoleChange(listener: (role: TabRole) => void): () => void {
+    this.roleListeners.push(listener);
+    return () => {
+      this.roleListeners = this.roleListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Listen for messages of one kind from other tabs
+   */
+  on(kind: string, handler: TabMessageHandler): () => void {
+    if (!this.handlers.has(kind)) {
+      this.handlers.set(kind, new Set());
+    }
+    this.handlers.get(kind)!.add(handler);
+    return () => {
+      this.handlers.get(kind)?.delete(handler);
+    };
+  }
+
+  /**
+   * Send a message to every other tab, or only to the tab with the given ID
+   */
+  post(kind: string, payload: any = {}, to?: string): void {
+    if (!this.channel) return;
+
+    const message: TabMessage = { kind, from: this.tabId, to, payload };
+    try {
+      this.channel.postMessage(message);
+      this.sentCount++;
+    } catch (error) {
+      console.error(`[TabSync] Failed to post ${kind}:`, error);
+    }
+  }
+
+  /**
+   * Run a method in the leader tab and resolve with its result.
+   * In the leader (or a tab running on its own) the handler is called directly.
+   */
+  call<T = any>(method: string, args: any[] = [], timeout: number = DEFAULT_CALL_TIMEOUT): Promise<T> {
+    if (this.role !== 'follower' || !this.channel) {
+      const handler = this.callHandler;
+      if (!handler) {
+        return Promise.reject(new Error(`No handler for tab call: ${method}`));
+      }
+      return Promise.resolve().then(() => handler(method, args));
+    }
+
+    const callId = crypto.randomUUID();
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingCalls.delete(callId);
+        reject(new Error(`Leader tab did not answer ${method} within ${timeout}ms`));
+      }, timeout);
+
+      this.pendingCalls.set(callId, { resolve, reject, timer });
+      this.post('call', { callId, method, args });
+    });
+  }
+
+  /**
+   * Set the handler that answers call() while this tab is leader
+   */
+  handleCalls(handler: TabCallHandler): () => void {
+    this.callHandler = handler;
+    return () => {
+      if (this.callHandler === handler) {
+        this.callHandler = null;
+      }
+    };
+  }
+
+  /**
+   * Mirror entity changes between this tab's store and the stores of the other tabs.
+   * A follower first asks the leader for all of its entities. Returns a function that stops syncing.
+   */
+  syncEntityStore(store: EntityStore = EntityStore.getInstance()): () => void {
+    this.seenEntities = this.readEntities(store);
+
+    const unsubscribe = store.subscribe(() => this.publishEntityChanges(store));
+    const offChanges = this.on('entities', ({ changes }) => this.applyEntityChanges(store, changes));
+    const offRequest = this.on('entities_request', (_, from) => {
+      if (this.role !== 'leader') return;
+      const changes: EntitySyncChange[] = Array.from(this.seenEntities, ([entityId, { entity, category }]) => ({ entityId, entity, category }));
+      this.post('entities', { changes }, from);
+    });
+
+    if (this.role === 'follower') {
+      this.post('entities_request');
+    }
+
+    return () => {
+      unsubscribe();
+      offChanges();
+      offRequest();
+    };
+  }
+
+  /**
+   * Leave the election and close the channel
+   */
+  stop(): void {
+    this.releaseLeadership?.();
+    this.releaseLeadership = null;
+    this.leadershipQueue?.abort();
+    this.leadershipQueue = null;
+    this.channel?.close();
+    this.channel = null;
+    this.pendingCalls.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(new Error('Tab sync stopped'));
+    });
+    this.pendingCalls.clear();
+    this.role = null;
+    this.starting = null;
+  }
+
+  getStats() {
+    return {
+      tabId: this.tabId,
+      role: this.role,
+      sent: this.sentCount,
+      received: this.receivedCount,
+      pendingCalls: this.pendingCalls.size
+    };
+  }
+
+  private elect(): Promise<TabRole> {
+    if (typeof BroadcastChannel === 'undefined' || typeof navigator === 'undefined' || !navigator.locks) {
+      console.warn('[TabSync] BroadcastChannel or Web Locks not available, this tab runs on its own');
+      this.role = 'leader';
+      return Promise.resolve(this.role);
+    }
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<TabMessage>) => this.receive(event.data);
+
+    return new Promise(resolve => {
+      navigator.locks.request(LEADER_LOCK, { ifAvailable: true }, lock => {
+        if (lock) {
+          const held = this.holdLeadership();
+          resolve('leader');
+          return held;
+        }
+
+        this.setRole('follower');
+        resolve('follower');
+        // Granted once the current leader's tab closes
+        this.leadershipQueue = new AbortController();
+        navigator.locks.request(LEADER_LOCK, { signal: this.leadershipQueue.signal }, () => this.holdLeadership()).catch(error => {
+          if (error?.name !== 'AbortError') {
+            console.error('[TabSync] Waiting for leadership failed:', error);
+          }
+        });
+        return undefined;
+      }).catch(error => {
+        console.error('[TabSync] Leader election failed, this tab runs on its own:', error);
+        this.setRole('leader');
+        resolve('leader');
+      });
+    });
+  }
+
+  // The lock is held until the returned promise settles
+  private holdLeadership(): Promise<void> {
+    this.setRole('leader');
+    return new Promise(release => {
+      this.releaseLeadership = release;
+    });
+  }
+
+  private setRole(role: TabRole): void {
+    const previous = this.role;
+    this.role = role;
+    console.log(`[TabSync] Tab ${this.tabId} is ${role}`);
+
+    if (previous === null || previous === role) return;
+    this.roleListeners.forEach(listener => {
+      try {
+        listener(role);
+      } catch (error) {
+        console.error('[TabSync] Error in role listener:', error);
+      }
+    });
+  }
+
+  private receive(message: TabMessage): void {
+    if (!message || message.from === this.tabId) return;
+    if (message.to && message.to !== this.tabId) return;
+    this.receivedCount++;
+
+    switch (message.kind) {
+      case 'call':
+        this.answerCall(message);
+        return;
+      case 'call_result':
+        this.settleCall(message.payload);
+        return;
+    }
+
+    this.handlers.get(message.kind)?.forEach(handler => {
+      try {
+        handler(message.payload, message.from);
+      } catch (error) {
+        console.error(`[TabSync] Error in ${message.kind} handler:`, error);
+      }
+    });
+  }
+
+  private async answerCall(message: TabMessage): Promise<void> {
+    if (this.role !== 'leader' || !this.callHandler) return;
+
+    const { callId, method, args } = message.payload;
+    try {
+      const result = await this.callHandler(method, args);
+      this.post('call_result', { callId, result }, message.from);
+    } catch (error) {
+      this.post('call_result', { callId, error: error instanceof Error ? error.message : String(error) }, message.from);
+    }
+  }
+
+  private settleCall({ callId, result, error }: { callId: string; result?: any; error?: string }): void {
+    const pending = this.pendingCalls.get(callId);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pendingCalls.delete(callId);
+    if (error !== undefined) {
+      pending.reject(new Error(error));
+    } else {
+      pending.resolve(result);
+    }
+  }
+
+  private readEntities(store: EntityStore): Map<string, SeenEntity> {
+    const entries = new Map<string, SeenEntity>();
+    store.getState().entities.forEach((entity, entityId) => {
+      entries.set(entityId, { entity, category: store.getCategoryOf(entityId) });
+    });
+    return entries;
+  }
+
+  /**
+   * Broadcast what changed since the last store notification
+   */
+  private publishEntityChanges(store: EntityStore): void {
+    const previous = this.seenEntities;
+    const current = this.readEntities(store);
+    this.seenEntities = current;
+
+    // The other tabs already have what they sent us
+    if (this.applyingRemoteChanges) return;
+
+    const changes: EntitySyncChange[] = [];
+    current.forEach(({ entity, category }, entityId) => {
+      const before = previous.get(entityId);
+      if (!before || before.entity !== entity || !sameCategory(before.category, category)) {
+        changes.push({ entityId, entity, category });
+      }
+    });
+    previous.forEach((_, entityId) => {
+      if (!current.has(entityId)) {
+        changes.push({ entityId });
+      }
+    });
+
+    if (changes.length > 0) {
+      this.post('entities', { changes });
+    }
+  }
+
+  private applyEntityChanges(store: EntityStore, changes: EntitySyncChange[]): void {
+    this.applyingRemoteChanges = true;
+    try {
+      store.applyExternalChanges(changes);
+    } finally {
+      this.applyingRemoteChanges = false;
+    }
+  }
+}
@@ -1,11 +1,14 @@
-import { ConnectionState, HubEvent} from '../types';
+import { ConnectionState, HubEvent, ChatMessage } from '../types';
 import { SettingsData } from '../context/SettingsContext';
 import { StepDefinition, Agent } from '../components/types';
 import { Agents, getAgentByWorkflowId, getAgentById, generateDefaultMetadata } from '../modules/poa/steps';
-import { ConnectionManager, ConnectionManagerEvents } from './ConnectionManager';
+import { ConnectionManager, ConnectionManagerEvents, HistoryState } from './ConnectionManager';
 import { MessageProcessor, MessageProcessorEvents, Message } from './MessageProcessor';
-import { MetadataMessageRouter } from './MetadataMessageRouter';
+import { MetadataMessageRouter, MetadataSubscriptionFilter, MetadataReplayOptions, MetadataRoutingContext } from './MetadataMessageRouter';
 import { EventDispatcher } from './EventDispatcher';
+import { CredentialProvider } from './CredentialProvider';
+import { MessageOutbox, OutboxEntry } from './MessageOutbox';
+import { TabSync } from './TabSync';
 
 export interface SendMessageRequest {
   threadId?: string;
@@ -20,9 +23,43 @@ export interface SendMessageRequest {
 // Hub event types for the EventDispatcher
 export interface HubEvents {
   message: HubEvent;
+  message_update: HubEvent;
   connection_change: HubEvent;
   error: HubEvent;
   thread_history: HubEvent;
+  outbox_update: HubEvent;
+}
+
+export interface MetadataSubscriptionOptions extends MetadataSubscriptionFilter {
+  /** Agent ID from the Agents list; resolved to its workflowId */
+  agentId?: string;
+  /** Receive recently buffered messages on subscribe */
+  replay?: MetadataReplayOptions;
+}
+
+export interface RequestOptions {
+  /** messageType(s) accepted as the reply */
+  responseType: string | string[];
+  /** Per-attempt timeout in ms (default 30000) */
+  timeout?: number;
+  /** Extra attempts after a timeout; retries reuse the same requestId (default 0) */
+  retries?: number;
+  signal?: AbortSignal;
+}
+
+export interface SendOptions {
+  /** Outbox entry ID; chat sends pass the optimistic message ID so status updates can be matched */
+  clientMessageId?: string;
+  /** Persist the outbox entry so it is still sent after a reload (default true) */
+  durable?: boolean;
+  /** Resolve once the entry has been delivered rather than when it is queued */
+  awaitDelivery?: boolean;
+}
+
+// Connection details the leader tab shares with follower tabs
+interface TabLinkState {
+  connectionStates: Array<[number, ConnectionState]>;
+  threadIds: Array<[number, string]>;
 }
 
 /**
@@ -44,12 +81,22 @@ export class WebSocketHub {
   private messageProcessor: MessageProcessor;
   private metadataRouter: MetadataMessageRouter;
   private eventDispatcher: EventDispatcher<HubEvents>;
+  private outbox: MessageOutbox;
   private settings: SettingsData | null = null;
   private steps: StepDefinition[] = [];
   private agents: Agent[] = [];
   private agentIndexMap: Map<string, number> = new Map(); // Maps workflowId to agent index
   private readonly hubInstanceId: string;
 
+  // Cross-tab coordination (see enableTabSync); follower tabs mirror the leader's link state
+  private tabSync: TabSync | null = null;
+  private remoteConnectionStates: Map<number, ConnectionState> = new Map();
+  private remoteThreadIds: Map<number, string> = new Map();
+  private forwardingMetadata = false;
+
+  // Senders waiting for their outbox entry to be delivered (SendOptions.awaitDelivery)
+  private deliveryWaiters: Map<string, { resolve: () => void; reject: (error: Error) => void }> = new Map();
+
   // Helper function to find step index for a given agent index
   private getStepIndexForAgent(agentIndex: number): number | null {
     const agent = this.agents[agentIndex];
@@ -78,7 +125,23 @@ export class WebSocketHub {
 
     // Initialize components
     this.metadataRouter = new MetadataMessageRouter();
+    this.metadataRouter.setStepResolver((workflowId) => {
+      const agentIndex = this.agentIndexMap.get(workflowId);
+      return agentIndex !== undefined ? this.getStepIndexForAgent(agentIndex) : null;
+    });
     this.eventDispatcher = new EventDispatcher<HubEvents>();
+    this.outbox = new MessageOutbox({
+      onStatusChange: (entry) => {
+        this.settleDelivery(entry);
+        const agentIndex = this.agentIndexMap.get(entry.workflowId);
+        const stepIndex = agentIndex !== undefined ? this.getStepIndexForAgent(agentIndex) : null;
+        this.emit('outbox_update', {
+          type: 'outbox_update',
+          stepIndex: stepIndex !== null ? stepIndex : (agentIndex ?? -1),
+          data: { id: entry.id, kind: entry.kind, status: entry.status, error: entry.lastError }
+        });
+      }
+    });
 
     // Initialize MessageProcessor with event handlers - CORRECTED VERSION
     const messageEvents: MessageProcessorEvents = {
@@ -96,21 +159,47 @@ export class WebSocketHub {
           stepIndex: finalStepIndex
         };
         
-        this.eventDispatcher.emit('message', {
+        this.emit('message', {
           type: 'message',
           stepIndex: finalStepIndex,
           data: correctedMessage
         });
       },
+      onChatMessageUpdate: (agentIndex, message) => {
+        const correctStepIndex = this.getStepIndexForAgent(agentIndex);
+        const finalStepIndex = correctStepIndex !== null ? correctStepIndex : agentIndex;
+
+        this.emit('message_update', {
+          type: 'message_update',
+          stepIndex: finalStepIndex,
+          data: { ...message, stepIndex: finalStepIndex }
+        });
+      },
+      onThreadHistory: (agentIndex, messages, page) => {
+        const correctStepIndex = this.getStepIndexForAgent(agentIndex);
+        const finalStepIndex = correctStepIndex !== null ? correctStepIndex : agentIndex;
+
+        this.emit('thread_history', {
+          type: 'thread_history',
+          stepIndex: finalStepIndex,
+          data: {
+            messages: messages.map(message => ({ ...message, stepIndex: finalStepIndex })),
+            ...page
+          }
+        });
+      },
       onThreadUpdate: (agentIndex, threadId) => {
         // Keep using agentIndex for ConnectionManager
         this.connectionManager.setThreadId(agentIndex, threadId);
+        if (this.tabSync?.isLeader()) {
+          this.tabSync.post('hub_link', this.getLinkState());
+        }
       },
       onError: (agentIndex, error) => {
         const correctStepIndex = this.getStepIndexForAgent(agentIndex);
         const finalStepIndex = correctStepIndex !== null ? correctStepIndex : agentIndex;
         
-        this.eventDispatcher.emit('error', {
+        this.emit('error', {
           type: 'error',
           stepIndex: finalStepIndex,
           data: { error: `Message processing error: ${error}`, stepIndex: finalStepIndex }
@@ -125,7 +214,7 @@ export class WebSocketHub {
     const connectionEvents: ConnectionManagerEvents = {
       onConnectionChange: (agentIndex, state) => {
         const stepIndex = this.getStepIndexForAgent(agentIndex);
-        this.eventDispatcher.emit('connection_change', {
+        this.emit('connection_change', {
           type: 'connection_change',
           stepIndex: stepIndex !== null ? stepIndex : agentIndex,
           data: state
@@ -133,14 +222,19 @@ export class WebSocketHub {
       },
       onConnectionError: (agentIndex, error) => {
         const stepIndex = this.getStepIndexForAgent(agentIndex);
-        this.eventDispatcher.emit('error', {
+        this.emit('error', {
           type: 'error',
           stepIndex: stepIndex !== null ? stepIndex : agentIndex,
           data: { error: `Connection error: ${error}`, stepIndex: stepIndex !== null ? stepIndex : agentIndex }
         });
+      },
+      onAgentSubscribed: (agentIndex) => {
+        // Deliver anything queued while the agent was unreachable
+        this.flushOutbox(agentIndex);
       }
     };
-    this.connectionManager = new ConnectionManager(connectionEvents, this.messageProcessor);
+    // All agents share one hub connection; traffic is demultiplexed by workflowId
+    this.connectionManager = new ConnectionManager(connectionEvents, this.messageProcessor, { mode: 'shared' });
   }
 
   // Singleton pattern
@@ -179,6 +273,7 @@ export class WebSocketHub {
     this.settings = settings;
     this.steps = steps;
     this.agents = [...Agents]; // Copy the agents array
+    this.outbox.setOwner(settings.tenantId, settings.participantId);
 
     // Build agent index map
     this.agentIndexMap.clear();
@@ -189,51 +284,294 @@ export class WebSocketHub {
     console.log(`[WebSocketHub] Initializing with ${this.agents.length} agents and ${steps.length} steps`);
     console.log(`[WebSocketHub] Agents:`, this.agents.map(a => ({ workflowId: a.workflowId, title: a.title })));
 
+    // With tab sync, only the leader tab opens connections
+    if (this.tabSync && await this.tabSync.start() === 'follower') {
+      console.log(`[WebSocketHub] Follower tab, using the connections of the leader tab`);
+      await this.syncFromLeader();
+      return;
+    }
+    this.startForwardingMetadata();
+
     // Initialize connections for all agents
     await this.connectionManager.initialize(settings, this.agents);
   }
 
   /**
-   * Send metadata directly to an agent by ID
+   * Share one set of agent connections between the open tabs. The leader tab connects and
+   * relays hub events, metadata and link state; the other tabs send through it.
+   * Call before initialize().
    */
-  async sendMetadataToAgent(metadata: any, agentId: string): Promise<void> {
-    const agent = getAgentById(agentId);
-    if (!agent) {
-      throw new Error(`Agent not found for ID: ${agentId}`);
+  enableTabSync(tabSync: TabSync = TabSync.getInstance()): void {
+    if (this.tabSync) return;
+    this.tabSync = tabSync;
+
+    tabSync.handleCalls((method, args) => this.handleTabCall(method, args));
+    tabSync.on('hub_event', ({ event, payload, link }) => {
+      if (link && !tabSync.isLeader()) {
+        this.applyLinkState(link);
+      }
+      this.eventDispatcher.emit(event, payload);
+    });
+    tabSync.on('hub_link', link => {
+      if (!tabSync.isLeader()) {
+        this.applyLinkState(link);
+      }
+    });
+    tabSync.on('metadata', ({ message, workflowId }) => {
+      if (!tabSync.isLeader()) {
+        this.metadataRouter.routeMessage(message, { workflowId });
+      }
+    });
+    tabSync.onRoleChange(role => {
+      if (role === 'leader') {
+        this.takeOverConnections();
+      }
+    });
+  }
+
+  /**
+   * Show a chat message sent from this tab in the other tabs as well
+   */
+  shareChatMessage(message: ChatMessage): void {
+    this.tabSync?.post('hub_event', {
+      event: 'message',
+      payload: { type: 'message', stepIndex: message.stepIndex, data: message }
+    });
+  }
+
+  /**
+   * Emit a hub event here and, in the leader tab, in every follower tab
+   */
+  private emit(event: keyof HubEvents, payload: HubEvent): void {
+    this.eventDispatcher.emit(event, payload);
+
+    if (this.tabSync?.isLeader()) {
+      // Followers answer getConnectionStates() from their mirror, so it travels with the event
+      const link = event === 'connection_change' ? this.getLinkState() : undefined;
+      this.tabSync.post('hub_event', { event, payload, link });
     }
+  }
 
-    const agentIndex = this.agentIndexMap.get(agent.workflowId);
-    if (agentIndex === undefined) {
-      throw new Error(`Agent index not found for agent ID: ${agentId} (workflow ID: ${agent.workflowId})`);
+  /**
+   * True when another tab holds the agent connections and this one proxies through it
+   */
+  isFollowerTab(): boolean {
+    return this.tabSync?.getRole() === 'follower';
+  }
+
+  /**
+   * Calls from follower tabs, answered by the leader
+   */
+  private handleTabCall(method: string, args: any[]): any {
+    switch (method) {
+      case 'sendMessageToAgent':
+        return this.sendMessageToAgent(args[0], args[1], args[2]);
+      case 'sendMetadataToAgent':
+        return this.sendMetadataToAgent(args[0], args[1], args[2]);
+      case 'loadOlderHistory':
+        return this.loadOlderHistory(args[0]);
+      case 'reloadHistory':
+        return this.reloadHistory();
+      case 'retryOutboxEntry':
+        return this.retryOutboxEntry(args[0]);
+      case 'discardOutboxEntry':
+        return this.discardOutboxEntry(args[0]);
+      case 'getLinkState':
+        return this.getLinkState();
+      default:
+        throw new Error(`Unknown tab call: ${method}`);
     }
+  }
+
+  /**
+   * Mirror the leader's link state and have it resend the latest history page of every agent
+   */
+  private async syncFromLeader(): Promise<void> {
+    if (!this.tabSync) return;
 
-    const connection = this.connectionManager.getConnection(agentIndex);
-    if (!connection || connection.state !== 'Connected') {
-      throw new Error(`No connection available for agent ${agentId} (${agent.workflowId})`);
+    try {
+      this.applyLinkState(await this.tabSync.call<TabLinkState>('getLinkState'));
+      await this.tabSync.call('reloadHistory');
+    } catch (error) {
+      console.warn(`[WebSocketHub] Could not sync with the leader tab:`, error);
     }
+  }
+
+  /**
+   * Open the connections after the previous leader tab closed
+   */
+  private async takeOverConnections(): Promise<void> {
+    if (!this.settings) return;
+
+    console.log(`[WebSocketHub] Taking over agent connections from the previous leader tab`);
+    this.remoteConnectionStates.clear();
+    this.remoteThreadIds.clear();
+    // The previous leader kept the shared outbox up to date
+    this.outbox.reload();
+    this.startForwardingMetadata();
 
     try {
-      const request: SendMessageRequest = {
-        threadId: this.connectionManager.getThreadId(agentIndex),
-        agent: agent.agent,
-        workflowType: agent.workflowType || '',
-        workflowId: agent.workflowId,
-        participantId: this.settings?.participantId || '',
-        metadata: metadata
-      };
-
-      await connection.invoke('SendInboundMessage', request);
-      console.log(`[WebSocketHub] Message sent successfully to agent ${agentId} (${agent.workflowId})`);
+      await this.connectionManager.initialize(this.settings, this.agents);
     } catch (error) {
-      console.error(`[WebSocketHub] Error sending message to agent ${agentId}:`, error);
-      throw error;
+      console.error(`[WebSocketHub] Failed to take over agent connections:`, error);
+    }
+  }
+
+  // Relay validated metadata so follower subscribers (and their awaitResponse) see it too
+  private startForwardingMetadata(): void {
+    if (!this.tabSync || this.forwardingMetadata) return;
+    this.forwardingMetadata = true;
+
+    this.metadataRouter.subscribe({
+      id: `tab-sync-${this.hubInstanceId}`,
+      messageTypes: ['*'],
+      callback: (message, context) => {
+        if (context.replayed) return;
+        this.tabSync?.post('metadata', { message, workflowId: context.workflowId });
+      }
+    });
+  }
+
+  private async reloadHistory(): Promise<void> {
+    const connected = this.agents
+      .map((_, agentIndex) => agentIndex)
+      .filter(agentIndex => this.isAgentConnected(agentIndex));
+    await Promise.all(connected.map(agentIndex => this.connectionManager.reloadLatestHistory(agentIndex)));
+  }
+
+  private getLinkState(): TabLinkState {
+    const threadIds: Array<[number, string]> = [];
+    this.agents.forEach((_, agentIndex) => {
+      const threadId = this.connectionManager.getThreadId(agentIndex);
+      if (threadId) {
+        threadIds.push([agentIndex, threadId]);
+      }
+    });
+
+    return {
+      connectionStates: Array.from(this.connectionManager.getConnectionStates()),
+      threadIds
+    };
+  }
+
+  private applyLinkState(link: TabLinkState): void {
+    this.remoteConnectionStates = new Map(link.connectionStates);
+    this.remoteThreadIds = new Map(link.threadIds);
+  }
+
+  /**
+   * Replace the credential provider (e.g. a callback issuing short-lived JWTs).
+   * Call refreshCredentials() to apply it to already open connections.
+   */
+  setCredentialProvider(provider: CredentialProvider): void {
+    this.connectionManager.setCredentialProvider(provider);
+  }
+
+  /**
+   * Reconnect with a freshly issued token and re-subscribe every agent
+   */
+  async refreshCredentials(): Promise<void> {
+    await this.connectionManager.refreshCredentials();
+  }
+
+  /**
+   * Send metadata directly to an agent by ID.
+   * The request is queued in the outbox and delivered as soon as the agent is connected.
+   */
+  async sendMetadataToAgent(metadata: any, agentId: string, options: SendOptions = {}): Promise<void> {
+    if (this.isFollowerTab()) {
+      return this.tabSync!.call('sendMetadataToAgent', [metadata, agentId, options]);
+    }
+
+    const { agent, agentIndex } = this.resolveAgent(agentId);
+
+    const request: SendMessageRequest = {
+      agent: agent.agent,
+      workflowType: agent.workflowType || '',
+      workflowId: agent.workflowId,
+      participantId: this.settings?.participantId || '',
+      metadata: metadata
+    };
+
+    await this.queueRequest(agentIndex, request, 'metadata', options);
+  }
+
+  /**
+   * Send message directly to an agent by ID.
+   * The request is queued in the outbox and delivered as soon as the agent is connected.
+   */
+  async sendMessageToAgent(message: any, agentId: string, options: SendOptions = {}): Promise<void> {
+    if (this.isFollowerTab()) {
+      return this.tabSync!.call('sendMessageToAgent', [message, agentId, options]);
+    }
+
+    const { agent, agentIndex } = this.resolveAgent(agentId);
+
+    const defaultMetadata = generateDefaultMetadata();
+
+    const request: SendMessageRequest = {
+      agent: agent.agent,
+      workflowType: agent.workflowType || '',
+      workflowId: agent.workflowId,
+      participantId: this.settings?.participantId || '',
+      content: typeof message === 'string' ? message : message.content,
+      metadata: defaultMetadata
+    };
+
+    await this.queueRequest(agentIndex, request, 'message', options);
+  }
+
+  /**
+   * Send a metadata request to an agent and resolve with the reply matched by requestId.
+   * A requestId is generated unless the metadata already carries one.
+   */
+  async request<T = any>(agentId: string, metadata: Record<string, any>, options: RequestOptions): Promise<T> {
+    const { timeout = 30000, retries = 0, signal } = options;
+    const responseTypes = Array.isArray(options.responseType) ? options.responseType : [options.responseType];
+    const requestId: string = metadata.requestId || `${metadata.messageType || 'request'}_${crypto.randomUUID()}`;
+    const payload = { ...metadata, requestId };
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      const entryId = `${requestId}_${attempt}`;
+      // Register before sending so a fast reply can't slip past. The timeout covers the whole
+      // attempt, so a request still queued for an unreachable agent fails too.
+      const response = this.metadataRouter.awaitResponse<T>(requestId, responseTypes, { timeout, signal });
+      let sendFailed = false;
+
+      try {
+        // Requests are kept out of the durable outbox: nobody waits for their reply after a reload
+        const delivered = this.sendMetadataToAgent(payload, agentId, { clientMessageId: entryId, durable: false, awaitDelivery: true })
+          .catch(error => {
+            sendFailed = true;
+            throw error;
+          });
+        await Promise.race([delivered, response]);
+        console.log(`[WebSocketHub] Request ${requestId} sent to ${agentId} (attempt ${attempt + 1}/${retries + 1})`);
+        return await response;
+      } catch (error) {
+        // Aborted, undeliverable or timed out: make sure the queued entry is never sent later
+        this.discardOutboxEntry(entryId);
+        if (sendFailed) {
+          response.catch(() => {});
+          this.metadataRouter.cancelResponse(requestId, 'send failed');
+        }
+
+        const isAbort = error instanceof DOMException && error.name === 'AbortError';
+        if (sendFailed || isAbort || attempt === retries) {
+          throw error;
+        }
+        console.warn(`[WebSocketHub] Request ${requestId} attempt ${attempt + 1} timed out, retrying...`);
+      }
     }
+
+    // Unreachable: the loop either returns or throws
+    throw new Error(`Request ${requestId} failed`);
   }
 
   /**
-   * Send message directly to an agent by ID
+   * Look up an agent and its connection index by agent ID
    */
-  async sendMessageToAgent(message: any, agentId: string): Promise<void> {
+  private resolveAgent(agentId: string): { agent: Agent; agentIndex: number } {
     const agent = getAgentById(agentId);
     if (!agent) {
       throw new Error(`Agent not found for ID: ${agentId}`);
@@ -244,41 +582,141 @@ export class WebSocketHub {
       throw new Error(`Agent index not found for agent ID: ${agentId} (workflow ID: ${agent.workflowId})`);
     }
 
-    const connection = this.connectionManager.getConnection(agentIndex);
-    if (!connection || connection.state !== 'Connected') {
-      throw new Error(`No connection available for agent ${agentId} (${agent.workflowId})`);
+    return { agent, agentIndex };
+  }
+
+  /**
+   * Put a request in the outbox and try to deliver it straight away
+   */
+  private async queueRequest(agentIndex: number, request: SendMessageRequest, kind: OutboxEntry['kind'], options: SendOptions): Promise<void> {
+    const entry = this.outbox.enqueue({
+      id: options.clientMessageId || crypto.randomUUID(),
+      workflowId: request.workflowId,
+      kind,
+      request,
+      durable: options.durable ?? true
+    });
+
+    const delivered = options.awaitDelivery
+      ? new Promise<void>((resolve, reject) => this.deliveryWaiters.set(entry.id, { resolve, reject }))
+      : Promise.resolve();
+
+    if (!this.isAgentConnected(agentIndex)) {
+      console.log(`[WebSocketHub] Agent ${request.workflowId} not connected, ${kind} ${entry.id} held in outbox`);
+      return delivered;
     }
 
-    const defaultMetadata = generateDefaultMetadata();
+    await this.flushOutbox(agentIndex);
+    return delivered;
+  }
 
-    try {
-      const request: SendMessageRequest = {
-        threadId: this.connectionManager.getThreadId(agentIndex),
-        agent: agent.agent,
-        workflowType: agent.workflowType || '',
-        workflowId: agent.workflowId,
-        participantId: this.settings?.participantId || '',
-        content: typeof message === 'string' ? message : message.content,
-        metadata: defaultMetadata
-      };
-
-      await connection.invoke('SendInboundMessage', request);
-      console.log(`[WebSocketHub] Message sent successfully to agent ${agentId} (${agent.workflowId})`);
-    } catch (error) {
-      console.error(`[WebSocketHub] Error sending message to agent ${agentId}:`, error);
-      throw error;
+  /**
+   * Resolve or reject a sender waiting for an entry once it has been sent, has failed or was discarded
+   */
+  private settleDelivery(entry: OutboxEntry, discarded: boolean = false): void {
+    const waiter = this.deliveryWaiters.get(entry.id);
+    if (!waiter || (entry.status === 'pending' && !discarded)) return;
+
+    this.deliveryWaiters.delete(entry.id);
+    if (entry.status === 'sent') {
+      waiter.resolve();
+    } else {
+      waiter.reject(new Error(discarded ? `Outbox entry ${entry.id} was discarded` : entry.lastError || `Outbox entry ${entry.id} could not be delivered`));
+    }
+  }
+
+  /**
+   * Deliver queued requests for an agent in order
+   */
+  private flushOutbox(agentIndex: number): Promise<void> {
+    const agent = this.agents[agentIndex];
+    if (!agent) return Promise.resolve();
+
+    return this.outbox.flush(
+      agent.workflowId,
+      async (entry) => {
+        // Resolve the thread at send time so requests queued before InboundProcessed join the thread
+        const request: SendMessageRequest = {
+          ...entry.request,
+          threadId: entry.request.threadId || this.connectionManager.getThreadId(agentIndex)
+        };
+        await this.connectionManager.sendInboundMessage(agentIndex, request);
+        console.log(`[WebSocketHub] ${entry.kind} ${entry.id} sent successfully to ${agent.workflowId}`);
+      },
+      () => this.isAgentConnected(agentIndex)
+    );
+  }
+
+  private isAgentConnected(agentIndex: number): boolean {
+    return this.connectionManager.getStepConnectionState(agentIndex)?.status === 'connected';
+  }
+
+  /**
+   * Re-queue a failed outbox entry and attempt delivery again
+   */
+  async retryOutboxEntry(id: string): Promise<void> {
+    if (this.isFollowerTab()) {
+      return this.tabSync!.call('retryOutboxEntry', [id]);
+    }
+
+    const entry = this.outbox.retry(id);
+    if (!entry) return;
+
+    const agentIndex = this.agentIndexMap.get(entry.workflowId);
+    if (agentIndex !== undefined && this.isAgentConnected(agentIndex)) {
+      await this.flushOutbox(agentIndex);
+    }
+  }
+
+  /**
+   * Drop an undelivered outbox entry
+   */
+  discardOutboxEntry(id: string): void {
+    if (this.isFollowerTab()) {
+      this.tabSync!.call('discardOutboxEntry', [id]).catch(error => {
+        console.warn(`[WebSocketHub] Could not discard outbox entry ${id} in the leader tab:`, error);
+      });
+      return;
     }
+
+    const entry = this.outbox.getEntries().find(e => e.id === id);
+    this.outbox.discard(id);
+    if (entry) this.settleDelivery(entry, true);
+  }
+
+  /**
+   * Get undelivered outbox entries (pending or failed)
+   */
+  getOutboxEntries(): OutboxEntry[] {
+    return this.outbox.getEntries();
   }
 
   /**
-   * Subscribe to metadata messages by messageType
+   * Subscribe to metadata messages by messageType.
+   * Pass a step index, or options to scope by step, agent/workflow, document or predicate.
    */
-  subscribeToMetadata(subscriberId: string, messageTypes: string[], callback: (message: any) => void, stepIndex?: number) {
+  subscribeToMetadata(
+    subscriberId: string,
+    messageTypes: string[],
+    callback: (message: any, context: MetadataRoutingContext) => void,
+    scope?: number | MetadataSubscriptionOptions
+  ) {
+    const { agentId, ...filter }: MetadataSubscriptionOptions = typeof scope === 'number' ? { stepIndex: scope } : (scope || {});
+
+    if (agentId) {
+      const agent = getAgentById(agentId);
+      if (!agent) {
+        console.warn(`[WebSocketHub] subscribeToMetadata: Agent not found for ID ${agentId}, subscribing without agent scope`);
+      } else {
+        filter.workflowId = agent.workflowId;
+      }
+    }
+
     return this.metadataRouter.subscribe({
       id: subscriberId,
       messageTypes,
       callback,
-      stepIndex
+      ...filter
     });
   }
 
@@ -289,6 +727,42 @@ export class WebSocketHub {
     this.metadataRouter.unsubscribe(subscriberId);
   }
 
+  /**
+   * Request the next older page of thread history for a step's agent.
+   * The page arrives as a 'thread_history' event; resolves false if there is nothing to load.
+   */
+  async loadOlderHistory(stepIndex: number): Promise<boolean> {
+    if (this.isFollowerTab()) {
+      return this.tabSync!.call<boolean>('loadOlderHistory', [stepIndex]);
+    }
+
+    const agentIndex = this.getAgentIndexForStep(stepIndex);
+    if (agentIndex === null) {
+      return false;
+    }
+    return this.connectionManager.loadOlderHistory(agentIndex);
+  }
+
+  /**
+   * Get thread history paging state for a step's agent (null in a follower tab)
+   */
+  getHistoryState(stepIndex: number): HistoryState | null {
+    if (this.isFollowerTab()) {
+      return null;
+    }
+    const agentIndex = this.getAgentIndexForStep(stepIndex);
+    return agentIndex !== null ? this.connectionManager.getHistoryState(agentIndex) : null;
+  }
+
+  private getAgentIndexForStep(stepIndex: number): number | null {
+    const step = this.steps[stepIndex];
+    const agent = step?.botId ? getAgentById(step.botId) : undefined;
+    if (!agent) {
+      return null;
+    }
+    return this.agentIndexMap.get(agent.workflowId) ?? null;
+  }
+
   /**
    * Get chat history for a specific workflow
    */
@@ -311,6 +785,9 @@ export class WebSocketHub {
    * Get connection states for all agents
    */
   getConnectionStates(): Map<number, ConnectionState> {
+    if (this.isFollowerTab()) {
+      return new Map(this.remoteConnectionStates);
+    }
     return this.connectionManager.getConnectionStates();
   }
 
@@ -318,6 +795,9 @@ export class WebSocketHub {
    * Get connection state for specific agent by index
    */
   getAgentConnectionState(agentIndex: number): ConnectionState | null {
+    if (this.isFollowerTab()) {
+      return this.remoteConnectionStates.get(agentIndex) ?? null;
+    }
     return this.connectionManager.getStepConnectionState(agentIndex);
   }
 
@@ -345,6 +825,9 @@ export class WebSocketHub {
    * Get current thread ID for an agent
    */
   getAgentThreadId(agentIndex: number): string | undefined {
+    if (this.isFollowerTab()) {
+      return this.remoteThreadIds.get(agentIndex);
+    }
     return this.connectionManager.getThreadId(agentIndex);
   }
 
@@ -413,16 +896,24 @@ export class WebSocketHub {
     agentCount: number;
     stepCount: number;
     connectionStats: any;
+    connectionMode: string;
+    socketCount: number;
     metadataStats: any;
+    outboxStats: any;
     eventStats: any;
+    tabRole: string | null;
   } {
     return {
       hubId: this.hubInstanceId,
       agentCount: this.agents.length,
       stepCount: this.steps.length,
       connectionStats: this.connectionManager.getConnectionStates(),
+      connectionMode: this.connectionManager.getMode(),
+      socketCount: this.connectionManager.getSocketCount(),
       metadataStats: this.metadataRouter.getStats(),
-      eventStats: this.eventDispatcher.getStats()
+      outboxStats: this.outbox.getStats(),
+      eventStats: this.eventDispatcher.getStats(),
+      tabRole: this.tabSync?.getRole() ?? null
     };
   }
 }
@@ -0,0 +1,152 @@
+import { BaseEntity, ChatMessage } from '../types';
+import { schema, validateSchema, ValidationIssue, MessageContractRegistry } from './MessageContractRegistry';
+import { reviveEntity } from './EntityPersistence';
+
+export const WORKSPACE_BUNDLE_FORMAT = 'agent-squad-workspace';
+export const WORKSPACE_BUNDLE_VERSION = 1;
+
+/**
+ * Entities, category slots and chat transcripts as plain JSON, for bug reports and demo seeds.
+ * Dates are ISO strings; they are revived on import.
+ */
+export interface WorkspaceBundle {
+  format: typeof WORKSPACE_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** The document the bundle was scoped to; null for the whole workspace */
+  documentId: string | null;
+  entities: Record<string, any>[];
+  categories: Array<{ category: string; key: string; entityId: string }>;
+  transcripts: Array<{ stepIndex: number; messages: Record<string, any>[] }>;
+}
+
+/**
+ * How an import treats what is already in the store
+ * - merge: bundle entities are added or overwrite entities with the same id
+ * - replace: entities in the bundle's scope (its document, or everything) that the bundle lacks are removed first
+ */
+export type WorkspaceImportMode = 'merge' | 'replace';
+
+export interface WorkspaceImportResult {
+  documentId: string | null;
+  entities: number;
+  removed: number;
+  /** Chat messages by step index, for the chat state to load */
+  transcripts: Map<number, ChatMessage[]>;
+}
+
+const { string, number, any, literal, array, object, optional, nullable } = schema;
+
+const bundleSchema = object({
+  format: literal(WORKSPACE_BUNDLE_FORMAT),
+  version: number(),
+  exportedAt: string(),
+  documentId: nullable(string()),
+  entities: array(object({
+    id: string(),
+    type: string(),
+    version: optional(number()),
+    createdAt: optional(string()),
+    updatedAt: optional(string())
+  })),
+  categories: array(object({ category: string(), key: string(), entityId: string() })),
+  transcripts: array(object({
+    stepIndex: number(),
+    messages: array(object({
+      id: string(),
+      content: string(),
+      direction: literal('Incoming', 'Outgoing', 'Handover'),
+      stepIndex: optional(number()),
+      threadId: optional(nullable(string())),
+      timestamp: string(),
+      metadata: optional(any())
+    }))
+  }))
+});
+
+/**
+ * Build a bundle; entities and messages are copied through JSON so the bundle is exactly what gets saved
+ */
+export const createWorkspaceBundle = (contents: {
+  documentId?: string | null;
+  entities: BaseEntity[];
+  categories: WorkspaceBundle['categories'];
+  transcripts?: Map<number, ChatMessage[]>;
+}): WorkspaceBundle => {
+  const transcripts = Array.from(contents.transcripts || new Map<number, ChatMessage[]>())
+    .filter(([, messages]) => messages.length > 0)
+    .sort(([a], [b]) => a - b)
+    .map(([stepIndex, messages]) => ({
+      stepIndex,
+      // Streaming and delivery flags describe this session, not the conversation
+      messages: messages.map(({ isStreaming, deliveryStatus, ...message }) => JSON.parse(JSON.stringify(message)))
+    }));
+
+  return {
+    format: WORKSPACE_BUNDLE_FORMAT,
+    version: WORKSPACE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    documentId: contents.documentId ?? null,
+    entities: contents.entities.map(entity => JSON.parse(JSON.stringify(entity))),
+    categories: contents.categories,
+    transcripts
+  };
+};
+
+/**
+ * Parse and check a bundle (a JSON string or an already parsed object). Throws with every issue found.
+ */
+export const parseWorkspaceBundle = (input: unknown): WorkspaceBundle => {
+  let value: any = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch (error) {
+      throw new Error(`Workspace bundle is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (value?.format === WORKSPACE_BUNDLE_FORMAT && value.version !== WORKSPACE_BUNDLE_VERSION) {
+    throw new Error(`Unsupported workspace bundle version ${value.version} (expected ${WORKSPACE_BUNDLE_VERSION})`);
+  }
+
+  const issues = validateSchema(value, bundleSchema);
+  if (issues.length === 0) {
+    issues.push(...findReferenceIssues(value as WorkspaceBundle));
+  }
+  if (issues.length > 0) {
+    const diagnostic = MessageContractRegistry.formatIssues({ valid: false, messageType: WORKSPACE_BUNDLE_FORMAT, issues });
+    throw new Error(`Invalid workspace bundle: ${diagnostic}`);
+  }
+
+  return value as WorkspaceBundle;
+};
+
+export const reviveBundleEntities = (bundle: WorkspaceBundle): BaseEntity[] =>
+  bundle.entities.map(raw => reviveEntity(raw));
+
+export const reviveBundleTranscripts = (bundle: WorkspaceBundle): Map<number, ChatMessage[]> =>
+  new Map(bundle.transcripts.map(({ stepIndex, messages }) => [
+    stepIndex,
+    messages.map(message => ({ ...message, stepIndex, timestamp: new Date(message.timestamp) }) as ChatMessage)
+  ]));
+
+// Ids must be unique and category slots must point at entities in the bundle
+const findReferenceIssues = (bundle: WorkspaceBundle): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const ids = new Set<string>();
+
+  bundle.entities.forEach((entity, index) => {
+    if (ids.has(entity.id)) {
+      issues.push({ path: `$.entities[${index}].id`, message: `duplicates entity ${entity.id}` });
+    }
+    ids.add(entity.id);
+  });
+  bundle.categories.forEach((entry, index) => {
+    if (!ids.has(entry.entityId)) {
+      issues.push({ path: `$.categories[${index}].entityId`, message: `refers to ${entry.entityId}, which is not in the bundle` });
+    }
+  });
+
+  return issues;
+};
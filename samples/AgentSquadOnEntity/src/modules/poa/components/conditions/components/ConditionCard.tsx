@@ -0,0 +1,192 @@
+import React, { useEffect, useRef } from 'react';
+import { FiTrash2 } from 'react-icons/fi';
+import { Condition, ConditionTarget, EditableConditionField } from '../types/condition.types';
+import { CONDITION_TYPES, getConditionTypeLabel, findConditionTarget, hasMissingTarget } from '../utils/condition.utils';
+import { getThemeColors } from '../../../../../components/theme';
+
+interface ConditionCardProps {
+  condition: Condition;
+  targets: ConditionTarget[];
+  isEditing: boolean;
+  onToggleEdit: (id: string) => void;
+  onUpdate: <K extends EditableConditionField>(id: string, field: K, value: Condition[K]) => void;
+  onRemove: (id: string) => void;
+  onExitEdit: () => void;
+}
+
+const ConditionCard: React.FC<ConditionCardProps> = ({
+  condition,
+  targets,
+  isEditing,
+  onToggleEdit,
+  onUpdate,
+  onRemove,
+  onExitEdit
+}) => {
+  const cardRef = useRef<HTMLDivElement>(null);
+  const theme = getThemeColors('lavender');
+  const successTheme = getThemeColors('blue');
+  const errorTheme = getThemeColors('error');
+
+  // Handle click outside to cancel edit mode
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (isEditing && cardRef.current && !cardRef.current.contains(event.target as Node)) {
+        onExitEdit();
+      }
+    };
+
+    if (isEditing) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isEditing, onExitEdit]);
+
+  return (
+    <div
+      ref={cardRef}
+      className={`border rounded-lg p-4 bg-white shadow-sm transition-all cursor-pointer ${
+        isEditing
+          ? `${theme.border.replace('-200', '-500')} ring-2 ${theme.border.replace('border-', 'ring-')}`
+          : 'border-gray-200 hover:border-gray-300 hover:shadow-md'
+      }`}
+      onClick={() => !isEditing && onToggleEdit(condition.id)}
+    >
+      <div className="flex justify-between items-center mb-3">
+        <span className={`px-2 py-1 text-xs rounded-full ${theme.bgLight} ${theme.text}`}>
+          {getConditionTypeLabel(condition.type)}
+        </span>
+
+        {isEditing && (
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onExitEdit();
+              }}
+              className={`${successTheme.bg.replace('bg-', 'text-')} text-xs px-2 py-1 ${successTheme.bgLight} rounded border ${successTheme.border}`}
+              title="Exit edit mode"
+            >
+              ✓ Done
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove(condition.id);
+              }}
+              className={`${errorTheme.bg.replace('bg-', 'text-')} text-xs p-1 rounded`}
+              title="Remove condition"
+            >
+              <FiTrash2 size={14} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isEditing ? (
+        <EditMode condition={condition} targets={targets} onUpdate={onUpdate} />
+      ) : (
+        <ViewMode condition={condition} targets={targets} />
+      )}
+    </div>
+  );
+};
+
+interface EditModeProps {
+  condition: Condition;
+  targets: ConditionTarget[];
+  onUpdate: ConditionCardProps['onUpdate'];
+}
+
+const EditMode: React.FC<EditModeProps> = ({ condition, targets, onUpdate }) => {
+  const theme = getThemeColors('lavender');
+  const inputClass = `w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 ${theme.buttonPrimaryFocus.replace('focus:', '')} bg-white`;
+
+  return (
+    <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">
+          Condition *
+        </label>
+        <textarea
+          value={condition.text}
+          onChange={(e) => onUpdate(condition.id, 'text', e.target.value)}
+          rows={3}
+          className={inputClass}
+          placeholder="Describe the condition..."
+          autoFocus
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Type
+          </label>
+          <select
+            value={condition.type}
+            onChange={(e) => onUpdate(condition.id, 'type', Number(e.target.value))}
+            className={inputClass}
+          >
+            {CONDITION_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+            {!CONDITION_TYPES.some(type => type.value === condition.type) && (
+              <option value={condition.type}>{getConditionTypeLabel(condition.type)}</option>
+            )}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Applies to
+          </label>
+          <select
+            value={condition.targetId || ''}
+            onChange={(e) => onUpdate(condition.id, 'targetId', e.target.value || null)}
+            className={inputClass}
+          >
+            <option value="">All representatives</option>
+            {targets.map(target => (
+              <option key={target.id} value={target.id}>{target.fullName}</option>
+            ))}
+            {hasMissingTarget(condition, targets) && (
+              <option value={condition.targetId!}>Removed representative</option>
+            )}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ViewModeProps {
+  condition: Condition;
+  targets: ConditionTarget[];
+}
+
+const ViewMode: React.FC<ViewModeProps> = ({ condition, targets }) => {
+  const warningTheme = getThemeColors('warning');
+  const target = findConditionTarget(condition, targets);
+
+  return (
+    <div className="space-y-2">
+      <p className={`text-sm ${condition.text ? 'text-gray-900' : 'text-gray-400 italic'}`}>
+        {condition.text || 'No condition text yet'}
+      </p>
+      <p className="text-xs text-gray-500">
+        Applies to: {target ? target.fullName : condition.targetId ? 'a representative no longer on this document' : 'all representatives'}
+      </p>
+      {hasMissingTarget(condition, targets) && (
+        <p className={`text-xs px-2 py-1 rounded ${warningTheme.bgLight} ${warningTheme.text}`}>
+          Choose another representative or apply it to all
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ConditionCard;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Condition } from '../types/condition.types';
+import { getValidConditions } from '../utils/condition.utils';
+import { SectionSaveStatus } from '../../../hooks/useAgentDocumentSection';
+import { getThemeColors } from '../../../../../components/theme';
+
+interface ConditionsHeaderProps {
+  conditions: Condition[];
+  isDirty: boolean;
+  saveStatus: SectionSaveStatus;
+  saveError: string | null;
+  onSave: () => void;
+  canRevertAgentChange?: boolean;
+  lastAgentChange?: string;
+  onRevertAgentChange?: () => void;
+}
+
+const ConditionsHeader: React.FC<ConditionsHeaderProps> = ({
+  conditions,
+  isDirty,
+  saveStatus,
+  saveError,
+  onSave,
+  canRevertAgentChange = false,
+  lastAgentChange,
+  onRevertAgentChange
+}) => {
+  const conditionCount = getValidConditions(conditions).length;
+  const canSave = isDirty && saveStatus !== 'saving';
+
+  const successTheme = getThemeColors('warm');
+  const errorTheme = getThemeColors('error');
+
+  return (
+    <header className="px-6 py-4 border-b border-gray-200 flex-shrink-0">
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="text-sm text-gray-600 mt-1">Define the conditions the representatives must follow</p>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <div className="text-sm text-gray-600">
+            {conditionCount} condition(s){isDirty && ' · unsaved changes'}
+          </div>
+
+          {canRevertAgentChange && onRevertAgentChange && (
+            <button
+              onClick={onRevertAgentChange}
+              title={lastAgentChange ? `Undo: ${lastAgentChange}` : 'Undo the last agent change'}
+              className="px-3 py-2 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Undo agent change
+            </button>
+          )}
+
+          <button
+            onClick={onSave}
+            disabled={!canSave}
+            className={`px-4 py-2 text-sm rounded-md transition-colors ${
+              canSave
+                ? `${successTheme.buttonPrimary} text-white ${successTheme.buttonPrimaryHover}`
+                : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+            }`}
+          >
+            {saveStatus === 'saving' ? 'Saving...' : saveStatus === 'saved' && !isDirty ? 'Saved' : 'Save'}
+          </button>
+        </div>
+      </div>
+
+      {saveStatus === 'failed' && saveError && (
+        <p className={`mt-2 text-xs px-3 py-2 rounded ${errorTheme.bgLight} ${errorTheme.bg.replace('bg-', 'text-')}`}>
+          Conditions were not saved: {saveError}
+        </p>
+      )}
+    </header>
+  );
+};
+
+export default ConditionsHeader;
@@ -0,0 +1,129 @@
+import React from 'react';
+import { useConditionsData } from './hooks/useConditionsData';
+import ConditionsHeader from './components/ConditionsHeader';
+import ConditionCard from './components/ConditionCard';
+import AddConditionCard from './components/AddConditionCard';
+import { getThemeColors } from '../../../../components/theme';
+
+const Conditions: React.FC = () => {
+  const {
+    conditions,
+    targets,
+    editingId,
+    setEditingId,
+    addCondition,
+    updateCondition,
+    removeCondition,
+    toggleEditMode,
+    saveConditions,
+    isDirty,
+    saveStatus,
+    saveError,
+    latestActivity,
+    canRevertAgentChange,
+    lastAgentChange,
+    revertAgentChange,
+    documentLoading,
+    documentError
+  } = useConditionsData();
+
+  const theme = getThemeColors('lavender');
+  const errorTheme = getThemeColors('error');
+
+  const handleExitEdit = () => {
+    setEditingId(null);
+  };
+
+  const header = (
+    <ConditionsHeader
+      conditions={conditions}
+      isDirty={isDirty}
+      saveStatus={saveStatus}
+      saveError={saveError}
+      onSave={saveConditions}
+      canRevertAgentChange={canRevertAgentChange}
+      lastAgentChange={lastAgentChange}
+      onRevertAgentChange={revertAgentChange}
+    />
+  );
+
+  if (documentLoading) {
+    return (
+      <div className="h-full flex flex-col bg-white">
+        {header}
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center">
+            <div className={`animate-spin w-12 h-12 border-4 ${theme.bg} border-t-transparent rounded-full mx-auto mb-4`}></div>
+            <h3 className={`text-lg font-medium ${theme.text} mb-2`}>Loading document...</h3>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (documentError) {
+    return (
+      <div className="h-full flex flex-col bg-white">
+        {header}
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center max-w-md">
+            <h3 className={`text-lg font-semibold ${theme.text} mb-2`}>Error Loading Document</h3>
+            <p className="text-gray-600 mb-4">{documentError}</p>
+            <button
+              onClick={() => window.location.reload()}
+              className={`px-4 py-2 ${errorTheme.buttonPrimary} text-white rounded-md ${errorTheme.buttonPrimaryHover} transition-colors`}
+            >
+              Retry Loading Document
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      {header}
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="p-6">
+          <div className="max-w-6xl mx-auto space-y-4">
+
+            {/* Latest Condition Bot activity */}
+            {latestActivity?.summary && (
+              <div className={`px-4 py-2 rounded-lg border ${theme.border} ${theme.bgLight}`}>
+                <p className={`text-sm ${theme.text}`}>{latestActivity.summary}</p>
+                {latestActivity.details && <p className="text-xs text-gray-600 mt-1">{latestActivity.details}</p>}
+              </div>
+            )}
+
+            {/* Conditions Grid */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {conditions.map(condition => (
+                <ConditionCard
+                  key={condition.id}
+                  condition={condition}
+                  targets={targets}
+                  isEditing={editingId === condition.id}
+                  onToggleEdit={toggleEditMode}
+                  onUpdate={updateCondition}
+                  onRemove={removeCondition}
+                  onExitEdit={handleExitEdit}
+                />
+              ))}
+
+              {/* Add Condition Card */}
+              <AddConditionCard onAdd={addCondition} />
+            </div>
+
+            {/* Add bottom padding to ensure content is not hidden by footer */}
+            <div className="pb-20"></div>
+
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Conditions;
@@ -0,0 +1,77 @@
+import { useState, useCallback, useMemo } from 'react';
+import { useAgentDocumentSection } from '../../../hooks/useAgentDocumentSection';
+import { Condition, EditableConditionField } from '../types/condition.types';
+import {
+  toCondition,
+  createEmptyCondition,
+  getValidConditions,
+  toConditionTargets
+} from '../utils/condition.utils';
+
+export const useConditionsData = () => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const {
+    items: conditions,
+    editItems,
+    save,
+    revertAgentChange: revert,
+    document,
+    ...section
+  } = useAgentDocumentSection<Condition>({
+    section: 'conditions',
+    agentId: 'condition_bot',
+    updateMessageType: 'UpdateConditions',
+    normalize: toCondition
+  });
+
+  // Conditions can be limited to one of the document's representatives
+  const targets = useMemo(() => toConditionTargets(document?.representatives), [document?.representatives]);
+
+  const addCondition = useCallback(() => {
+    const condition = createEmptyCondition();
+    editItems(prev => [...prev, condition]);
+    setEditingId(condition.id); // Automatically enter edit mode for the new condition
+  }, [editItems]);
+
+  const updateCondition = useCallback(<K extends EditableConditionField>(id: string, field: K, value: Condition[K]) => {
+    editItems(prev => prev.map(condition =>
+      condition.id === id ? { ...condition, [field]: value, updatedAt: new Date().toISOString() } : condition
+    ));
+  }, [editItems]);
+
+  const removeCondition = useCallback((id: string) => {
+    editItems(prev => prev.filter(condition => condition.id !== id));
+    setEditingId(current => (current === id ? null : current));
+  }, [editItems]);
+
+  const toggleEditMode = useCallback((id: string) => {
+    setEditingId(current => (current === id ? null : id));
+  }, []);
+
+  const saveConditions = useCallback(() => {
+    setEditingId(null);
+    // Conditions without text are drafts the user never filled in
+    return save(getValidConditions(conditions));
+  }, [save, conditions]);
+
+  const revertAgentChange = useCallback(() => {
+    setEditingId(null);
+    return revert();
+  }, [revert]);
+
+  return {
+    conditions,
+    targets,
+    editingId,
+    setEditingId,
+    addCondition,
+    updateCondition,
+    removeCondition,
+    toggleEditMode,
+    saveConditions,
+    revertAgentChange,
+    document,
+    ...section
+  };
+};
@@ -0,0 +1,20 @@
+export { default } from './conditions';
+
+/**
+ * Conditions Module Structure:
+ * 
+ * ├── conditions.tsx                         - Main orchestrator component
+ * ├── types/
+ * │   └── condition.types.ts                - Condition shape shared with the Condition Bot
+ * ├── hooks/
+ * │   └── useConditionsData.ts              - Editing state on top of useAgentDocumentSection
+ * ├── components/
+ * │   ├── ConditionCard.tsx                 - Individual condition card (view/edit modes)
+ * │   ├── AddConditionCard.tsx              - Add new condition card
+ * │   └── ConditionsHeader.tsx              - Header with count, save status and actions
+ * └── utils/
+ *     └── condition.utils.ts                - Condition types, targets and validation
+ * 
+ * Conditions are read from the current document and saved through the Condition Bot
+ * (UpdateConditions). The bot's ActivityLog updates are reflected as they arrive.
+ */
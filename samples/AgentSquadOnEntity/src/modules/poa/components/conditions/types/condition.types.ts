@@ -0,0 +1,17 @@
+// Condition as stored on the document and exchanged with the Condition Bot (see AuditCondition)
+export interface Condition {
+  id: string;
+  type: number;
+  text: string;
+  /** Representative the condition applies to; all representatives when empty */
+  targetId?: string | null;
+  createdAt: string;
+  updatedAt?: string | null;
+}
+
+export interface ConditionTarget {
+  id: string;
+  fullName: string;
+}
+
+export type EditableConditionField = 'type' | 'text' | 'targetId';
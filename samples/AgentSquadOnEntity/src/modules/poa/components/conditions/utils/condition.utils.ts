@@ -0,0 +1,50 @@
+import { Condition, ConditionTarget } from '../types/condition.types';
+
+// Condition types as numbered by the Condition Bot
+export const CONDITION_TYPES: Array<{ value: number; label: string }> = [
+  { value: 0, label: 'General' },
+  { value: 1, label: 'Time limit' },
+  { value: 2, label: 'Financial limit' },
+  { value: 3, label: 'Restriction' }
+];
+
+export const getConditionTypeLabel = (type: number): string => {
+  return CONDITION_TYPES.find(t => t.value === type)?.label || `Type ${type}`;
+};
+
+export const toCondition = (raw: any): Condition => ({
+  id: raw.id || crypto.randomUUID(),
+  type: typeof raw.type === 'number' ? raw.type : 0,
+  text: raw.text || '',
+  targetId: raw.targetId || null,
+  createdAt: raw.createdAt || new Date().toISOString(),
+  updatedAt: raw.updatedAt || null
+});
+
+export const createEmptyCondition = (): Condition => toCondition({});
+
+export const validateCondition = (condition: Condition): boolean => {
+  return !!condition.text.trim();
+};
+
+export const getValidConditions = (conditions: Condition[]): Condition[] => {
+  return conditions.filter(validateCondition);
+};
+
+export const toConditionTargets = (representatives: Array<{ id?: string; fullName?: string }> = []): ConditionTarget[] => {
+  return representatives
+    .filter((rep): rep is { id: string; fullName?: string } => !!rep.id)
+    .map(rep => ({ id: rep.id, fullName: rep.fullName || 'Unnamed representative' }));
+};
+
+/**
+ * Representative a condition points at; undefined for conditions on all representatives
+ * and for targets no longer on the document
+ */
+export const findConditionTarget = (condition: Condition, targets: ConditionTarget[]): ConditionTarget | undefined => {
+  return condition.targetId ? targets.find(target => target.id === condition.targetId) : undefined;
+};
+
+export const hasMissingTarget = (condition: Condition, targets: ConditionTarget[]): boolean => {
+  return !!condition.targetId && !findConditionTarget(condition, targets);
+};
@@ -7,11 +7,17 @@ interface RepresentativesHeaderProps {
   representatives: Representative[];
   latestActivity: ActivityData | null;
   onSave: () => void;
+  canRevertAgentChange?: boolean;
+  lastAgentChange?: string;
+  onRevertAgentChange?: () => void;
 }
 
 const RepresentativesHeader: React.FC<RepresentativesHeaderProps> = ({
   representatives,
-  onSave
+  onSave,
+  canRevertAgentChange = false,
+  lastAgentChange,
+  onRevertAgentChange
 }) => {
   const representativeCount = countRepresentativesWithNames(representatives);
   const hasValidData = getValidRepresentatives(representatives).length > 0;
@@ -29,6 +35,16 @@ const RepresentativesHeader: React.FC<RepresentativesHeaderProps> = ({
           <div className="text-sm text-gray-600">
             {representativeCount} representative(s)
           </div>
+
+          {canRevertAgentChange && onRevertAgentChange && (
+            <button
+              onClick={onRevertAgentChange}
+              title={lastAgentChange ? `Undo: ${lastAgentChange}` : 'Undo the last agent change'}
+              className="px-3 py-2 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Undo agent change
+            </button>
+          )}
           
           <button
             onClick={onSave}
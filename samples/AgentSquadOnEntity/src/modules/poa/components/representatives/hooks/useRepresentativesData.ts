@@ -1,6 +1,8 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useMetadataSubscription } from '../../../../../hooks/useMetadataSubscription';
 import { useDocumentData } from './useDocumentData';
+import { useEntityHistory } from '../../../../../context/EntityContext';
+import { Document } from '../../../services/DocumentService';
 import { Representative, ActivityData } from '../types/representative.types';
 import { 
   createEmptyRepresentative, 
@@ -21,6 +23,17 @@ export const useRepresentativesData = () => {
     representatives: documentRepresentatives 
   } = useDocumentData();
 
+  // Let the user take back the latest change an agent made to the document
+  const { latestVersion, canRevert, revert } = useEntityHistory<Document>(document?.id);
+  const canRevertAgentChange = canRevert && latestVersion?.source === 'agent';
+  const lastAgentChange = canRevertAgentChange ? latestVersion?.label : undefined;
+
+  const revertAgentChange = useCallback(() => {
+    if (revert()) {
+      setEditingIndex(null);
+    }
+  }, [revert]);
+
   // Initialize representatives from document data when available
   useEffect(() => {
     if (documentRepresentatives && documentRepresentatives.length > 0) {
@@ -80,6 +93,9 @@ export const useRepresentativesData = () => {
   const { latestMessage } = useMetadataSubscription({
     subscriberId: 'representatives',
     messageTypes: ['ActivityLog'],
+    agentId: 'representative_bot',
+    // The step is lazy-loaded; catch up on activity that arrived before it mounted
+    replay: { latestPerDocument: true },
     onMessage: handleActivityLogMessage
   });
 
@@ -144,6 +160,9 @@ export const useRepresentativesData = () => {
     toggleEditMode,
     clearAllRepresentatives,
     saveRepresentatives,
+    canRevertAgentChange,
+    lastAgentChange,
+    revertAgentChange,
     // Document-related data
     document,
     documentLoading,
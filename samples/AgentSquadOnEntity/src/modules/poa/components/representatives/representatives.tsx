@@ -18,6 +18,9 @@ const Representatives: React.FC = () => {
     toggleEditMode,
     clearAllRepresentatives,
     saveRepresentatives,
+    canRevertAgentChange,
+    lastAgentChange,
+    revertAgentChange,
     documentLoading,
     documentError,
     documentConnectionStatus
@@ -146,6 +149,9 @@ const Representatives: React.FC = () => {
         representatives={representatives}
         latestActivity={latestActivity}
         onSave={saveRepresentatives}
+        canRevertAgentChange={canRevertAgentChange}
+        lastAgentChange={lastAgentChange}
+        onRevertAgentChange={revertAgentChange}
       />
 
       <div className="flex-1 overflow-y-auto">
@@ -0,0 +1,27 @@
+import React from 'react';
+import { diffWords } from '../utils/scope.utils';
+
+interface DiffTextProps {
+  before: string;
+  after: string;
+}
+
+// Inline word diff: removed words struck through, added words highlighted
+const DiffText: React.FC<DiffTextProps> = ({ before, after }) => (
+  <p className="text-sm leading-relaxed whitespace-pre-wrap">
+    {diffWords(before, after).map((segment, index) => (
+      <span
+        key={index}
+        className={
+          segment.kind === 'added' ? 'bg-green-100 text-green-900' :
+          segment.kind === 'removed' ? 'bg-red-100 text-red-800 line-through' :
+          'text-gray-800'
+        }
+      >
+        {segment.text}
+      </span>
+    ))}
+  </p>
+);
+
+export default DiffText;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Principal, EditablePrincipalField } from '../types/scope.types';
+import { PRINCIPAL_FIELDS } from '../utils/scope.utils';
+import { StepThemeColors } from '../../../../../components/types';
+
+interface PrincipalEditorProps {
+  principal: Principal;
+  savedPrincipal: Principal;
+  themeColors: StepThemeColors | null;
+  onUpdate: (field: EditablePrincipalField, value: string) => void;
+}
+
+const PrincipalEditor: React.FC<PrincipalEditorProps> = ({ principal, savedPrincipal, themeColors, onUpdate }) => (
+  <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+    <div className="flex items-center mb-4">
+      <div className={`w-8 h-8 ${themeColors?.bgLight || 'bg-emerald-100'} rounded-xl flex items-center justify-center mr-3`}>
+        <svg className={`w-4 h-4 ${themeColors?.bg?.replace('bg-', 'text-') || 'text-emerald-600'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+        </svg>
+      </div>
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Principal Information</h2>
+        <p className="text-xs text-gray-500">The individual granting authority</p>
+      </div>
+    </div>
+
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {PRINCIPAL_FIELDS.map(({ field, label }) => {
+        const changed = principal[field].trim() !== savedPrincipal[field].trim();
+        return (
+          <div key={field} className={field === 'address' ? 'md:col-span-2' : undefined}>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              {label}{field !== 'address' && ' *'}{changed && <span className="ml-1 text-amber-600">(edited)</span>}
+            </label>
+            <input
+              type="text"
+              value={principal[field]}
+              onChange={(e) => onUpdate(field, e.target.value)}
+              className={`w-full border rounded-lg px-3 py-2 text-gray-900 text-sm focus:outline-none focus:ring-2 ${themeColors?.buttonPrimaryFocus || 'focus:ring-blue-500'} ${
+                changed ? 'border-amber-300 bg-amber-50' : 'border-gray-200 bg-gray-50'
+              } ${field === 'nationalId' ? 'font-mono' : ''}`}
+            />
+          </div>
+        );
+      })}
+
+      {principal.userId && (
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">User ID</label>
+          <div className="bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-gray-900 font-mono text-xs">
+            {principal.userId}
+          </div>
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+export default PrincipalEditor;
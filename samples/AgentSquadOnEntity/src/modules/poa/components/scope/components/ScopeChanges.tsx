@@ -0,0 +1,36 @@
+import React from 'react';
+import { FieldChange } from '../types/scope.types';
+import DiffText from './DiffText';
+
+interface ScopeChangesProps {
+  changes: FieldChange[];
+}
+
+// Unsaved edits compared with the last saved version of the document
+const ScopeChanges: React.FC<ScopeChangesProps> = ({ changes }) => {
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-amber-200 p-6">
+      <h2 className="text-sm font-semibold text-gray-900 mb-3">Unsaved changes ({changes.length})</h2>
+      <div className="space-y-3">
+        {changes.map(change => (
+          <div key={change.field}>
+            <p className="text-xs font-medium text-gray-700 mb-1">{change.label}</p>
+            {change.field === 'scope' ? (
+              <DiffText before={change.before} after={change.after} />
+            ) : (
+              <p className="text-sm">
+                <span className="bg-red-100 text-red-800 line-through">{change.before || '(empty)'}</span>
+                {' → '}
+                <span className="bg-green-100 text-green-900">{change.after || '(empty)'}</span>
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScopeChanges;
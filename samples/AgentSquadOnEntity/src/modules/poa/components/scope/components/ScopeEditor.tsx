@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { ScopeProposal } from '../types/scope.types';
+import { StepThemeColors } from '../../../../../components/types';
+import DiffText from './DiffText';
+
+interface ScopeEditorProps {
+  scope: string;
+  themeColors: StepThemeColors | null;
+  onChange: (scope: string) => void;
+  proposal: ScopeProposal | null;
+  isProposing: boolean;
+  proposalError: string | null;
+  onRequestProposal: (instructions?: string) => void;
+  onAcceptProposal: () => void;
+  onRejectProposal: () => void;
+}
+
+const ScopeEditor: React.FC<ScopeEditorProps> = ({
+  scope,
+  themeColors,
+  onChange,
+  proposal,
+  isProposing,
+  proposalError,
+  onRequestProposal,
+  onAcceptProposal,
+  onRejectProposal
+}) => {
+  const [instructions, setInstructions] = useState('');
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center mb-4">
+        <div className={`w-8 h-8 ${themeColors?.bgLight || 'bg-blue-100'} rounded-xl flex items-center justify-center mr-3`}>
+          <svg className={`w-4 h-4 ${themeColors?.bg?.replace('bg-', 'text-') || 'text-blue-600'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+          </svg>
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Document Scope</h2>
+          <p className="text-xs text-gray-500">Purpose and authority outlined in this document</p>
+        </div>
+      </div>
+
+      <textarea
+        value={scope}
+        onChange={(e) => onChange(e.target.value)}
+        rows={5}
+        className={`w-full rounded-xl p-4 border ${themeColors?.border || 'border-blue-100'} text-gray-800 leading-relaxed focus:outline-none focus:ring-2 ${themeColors?.buttonPrimaryFocus || 'focus:ring-blue-500'}`}
+        placeholder="Describe what the representatives may do on the principal's behalf..."
+      />
+
+      {/* Agent-assisted drafting */}
+      <div className="mt-3 flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1"
+          placeholder="Optional: tell the agent what to focus on (e.g. limit to banking matters)"
+        />
+        <button
+          onClick={() => onRequestProposal(instructions)}
+          disabled={isProposing}
+          className={`px-4 py-2 text-sm rounded-md ${themeColors?.buttonSecondary || 'bg-blue-50'} ${themeColors?.buttonSecondaryHover || ''} border ${themeColors?.buttonSecondaryBorder || 'border-blue-200'} ${themeColors?.text || 'text-blue-900'} disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          {isProposing ? 'Asking agent...' : 'Suggest wording'}
+        </button>
+      </div>
+
+      {proposalError && (
+        <p className="mt-2 text-xs text-red-600">No proposal received: {proposalError}</p>
+      )}
+
+      {proposal && (
+        <div className={`mt-4 rounded-xl p-4 border ${themeColors?.border || 'border-blue-100'} ${themeColors?.bgLight || 'bg-blue-50'}`}>
+          <div className="flex items-start justify-between mb-2">
+            <p className={`text-sm font-medium ${themeColors?.text || 'text-blue-900'}`}>Agent proposal</p>
+            <div className="flex space-x-2">
+              <button
+                onClick={onAcceptProposal}
+                className={`px-3 py-1 text-xs rounded-md text-white ${themeColors?.buttonPrimary || 'bg-blue-600'} ${themeColors?.buttonPrimaryHover || ''}`}
+              >
+                Accept
+              </button>
+              <button
+                onClick={onRejectProposal}
+                className="px-3 py-1 text-xs rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Reject
+              </button>
+            </div>
+          </div>
+          <DiffText before={scope} after={proposal.proposedScope} />
+          {proposal.rationale && (
+            <p className="mt-2 text-xs text-gray-600">{proposal.rationale}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScopeEditor;
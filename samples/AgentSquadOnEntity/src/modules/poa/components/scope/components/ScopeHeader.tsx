@@ -0,0 +1,82 @@
+import React from 'react';
+import { SectionSaveStatus } from '../../../hooks/useAgentDocumentSection';
+import { StepThemeColors } from '../../../../../components/types';
+
+interface ScopeHeaderProps {
+  changeCount: number;
+  saveStatus: SectionSaveStatus;
+  saveError: string | null;
+  themeColors: StepThemeColors | null;
+  onSave: () => void;
+  onDiscard: () => void;
+  canRevertAgentChange?: boolean;
+  lastAgentChange?: string;
+  onRevertAgentChange?: () => void;
+}
+
+const ScopeHeader: React.FC<ScopeHeaderProps> = ({
+  changeCount,
+  saveStatus,
+  saveError,
+  themeColors,
+  onSave,
+  onDiscard,
+  canRevertAgentChange = false,
+  lastAgentChange,
+  onRevertAgentChange
+}) => {
+  const isDirty = changeCount > 0;
+  const canSave = isDirty && saveStatus !== 'saving';
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 px-6 py-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-gray-600">
+          {isDirty ? `${changeCount} unsaved change(s)` : saveStatus === 'saved' ? 'All changes saved' : 'No unsaved changes'}
+        </div>
+
+        <div className="flex items-center space-x-3">
+          {canRevertAgentChange && onRevertAgentChange && (
+            <button
+              onClick={onRevertAgentChange}
+              title={lastAgentChange ? `Undo: ${lastAgentChange}` : 'Undo the last agent change'}
+              className="px-3 py-2 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Undo agent change
+            </button>
+          )}
+
+          {isDirty && (
+            <button
+              onClick={onDiscard}
+              disabled={saveStatus === 'saving'}
+              className="px-3 py-2 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              Discard
+            </button>
+          )}
+
+          <button
+            onClick={onSave}
+            disabled={!canSave}
+            className={`px-4 py-2 text-sm rounded-md transition-colors ${
+              canSave
+                ? `${themeColors?.buttonPrimary || 'bg-blue-600'} text-white ${themeColors?.buttonPrimaryHover || 'hover:bg-blue-700'}`
+                : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+            }`}
+          >
+            {saveStatus === 'saving' ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+
+      {saveStatus === 'failed' && saveError && (
+        <p className="mt-2 text-xs px-3 py-2 rounded bg-red-50 text-red-700">
+          Scope was not saved: {saveError}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ScopeHeader;
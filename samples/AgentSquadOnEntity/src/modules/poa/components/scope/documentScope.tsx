@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { useSteps } from '../../../../context/StepsContext';
+import { getThemeColors, ThemeName } from '../../../../components/theme';
+import { useScopeData } from './hooks/useScopeData';
+import ScopeHeader from './components/ScopeHeader';
+import ScopeEditor from './components/ScopeEditor';
+import PrincipalEditor from './components/PrincipalEditor';
+import ScopeChanges from './components/ScopeChanges';
+
+const DocumentScope: React.FC = () => {
+  const {
+    draft,
+    saved,
+    changes,
+    updateScope,
+    updatePrincipal,
+    discardChanges,
+    saveScope,
+    saveStatus,
+    saveError,
+    proposal,
+    isProposing,
+    proposalError,
+    requestProposal,
+    acceptProposal,
+    rejectProposal,
+    canRevertAgentChange,
+    lastAgentChange,
+    revertAgentChange,
+    documentId,
+    document,
+    documentLoading,
+    documentError,
+    documentConnectionStatus,
+    refreshDocument
+  } = useScopeData();
+  const [retryCount, setRetryCount] = useState(0);
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  // Get theme colors
+  const { steps, activeStep } = useSteps();
+  const currentStep = steps[activeStep];
+  const themeColors = currentStep ? getThemeColors(currentStep.theme as ThemeName) : null;
+
+  const retryDocumentLoad = async () => {
+    console.log(`[DocumentScope] Manual retry attempt ${retryCount + 1} for document: ${documentId}`);
+    setRetryCount(prev => prev + 1);
+    setIsRetrying(true);
+    try {
+      await refreshDocument();
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  // Render loading state with connection status information
+  if (documentLoading) {
+    const getLoadingMessage = () => {
+      switch (documentConnectionStatus) {
+        case 'initializing':
+          return 'Initializing document service...';
+        case 'waiting_for_connection':
+          return 'Establishing connection to document service...';
+        case 'ready':
+          return 'Loading document...';
+        default:
+          return 'Please wait while we retrieve your document...';
+      }
+    };
+
+    const getLoadingDetail = () => {
+      switch (documentConnectionStatus) {
+        case 'waiting_for_connection':
+          return 'This may take a few seconds while connections are established.';
+        case 'ready':
+          return 'Fetching document data from server...';
+        default:
+          return 'Setting up document service...';
+      }
+    };
+
+    return (
+      <div className={`h-full flex items-center justify-center bg-gradient-to-br from-slate-50 ${themeColors?.bgLight || 'to-blue-50'}`}>
+        <div className="text-center">
+          <div className={`w-12 h-12 border-3 ${themeColors?.bg?.replace('bg-', 'border-') || 'border-blue-600'} border-t-transparent rounded-full animate-spin mx-auto mb-4`}></div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">{getLoadingMessage()}</h3>
+          <p className="text-gray-600 text-sm">{getLoadingDetail()}</p>
+          {documentConnectionStatus === 'waiting_for_connection' && (
+            <div className="mt-4 px-4 py-2 bg-blue-50 border border-blue-200 rounded-lg">
+              <p className="text-xs text-blue-700">
+                Connecting to document service... This usually completes within 5-10 seconds.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (documentError) {
+    return (
+      <div className="h-full flex items-center justify-center bg-gradient-to-br from-slate-50 to-red-50">
+        <div className="text-center max-w-md">
+          <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <svg className="w-8 h-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
+            </svg>
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Error Loading Document</h3>
+          <p className="text-gray-600 mb-4">{documentError}</p>
+          <div className="space-y-2">
+            <button 
+              onClick={retryDocumentLoad} 
+              disabled={isRetrying}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isRetrying ? 'Retrying...' : 'Retry Loading Document'}
+            </button>
+            {retryCount > 0 && (
+              <p className="text-sm text-gray-500">Retry attempts: {retryCount}</p>
+            )}
+            <p className="text-xs text-gray-400 mt-2">
+              Document ID: {documentId}
+            </p>
+            {documentConnectionStatus === 'failed' && (
+              <div className="mt-3 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                <p className="text-xs text-amber-700">
+                  If the problem persists, please refresh the page or check your internet connection.
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!document) {
+    return (
+      <div className="h-full flex items-center justify-center bg-gradient-to-br from-slate-50 to-gray-50">
+        <div className="text-center">
+          <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <svg className="w-8 h-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No Document Found</h3>
+          <p className="text-gray-600">Please select a valid document to continue.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`h-full overflow-y-auto bg-gradient-to-br from-slate-50 ${themeColors?.bgLight || 'to-blue-50'} p-4`}>
+      <div className="max-w-4xl mx-auto space-y-4">
+
+        <ScopeHeader
+          changeCount={changes.length}
+          saveStatus={saveStatus}
+          saveError={saveError}
+          themeColors={themeColors}
+          onSave={saveScope}
+          onDiscard={discardChanges}
+          canRevertAgentChange={canRevertAgentChange}
+          lastAgentChange={lastAgentChange}
+          onRevertAgentChange={revertAgentChange}
+        />
+
+        {/* Scope Section */}
+        <ScopeEditor
+          scope={draft.scope}
+          themeColors={themeColors}
+          onChange={updateScope}
+          proposal={proposal}
+          isProposing={isProposing}
+          proposalError={proposalError}
+          onRequestProposal={requestProposal}
+          onAcceptProposal={acceptProposal}
+          onRejectProposal={rejectProposal}
+        />
+
+        {/* Principal Information Section */}
+        <PrincipalEditor
+          principal={draft.principal}
+          savedPrincipal={saved.principal}
+          themeColors={themeColors}
+          onUpdate={updatePrincipal}
+        />
+
+        {/* Diff against the last saved version */}
+        <ScopeChanges changes={changes} />
+
+        {/* Document Status Footer */}
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="flex items-center">
+                <span className="text-xs font-medium text-gray-700 mr-2">Status:</span>
+                <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                  document.status === 'approved' ? 'bg-green-100 text-green-800' :
+                  document.status === 'pending_review' ? 'bg-yellow-100 text-yellow-800' :
+                  document.status === 'rejected' ? 'bg-red-100 text-red-800' :
+                  'bg-gray-100 text-gray-800'
+                }`}>
+                  {document.status.charAt(0).toUpperCase() + document.status.slice(1).replace('_', ' ')}
+                </span>
+              </div>
+              <div className="flex items-center">
+                <span className="text-xs font-medium text-gray-700 mr-2">Version:</span>
+                <span className="text-xs text-gray-900 font-mono">{document.version}</span>
+              </div>
+            </div>
+            <div className="text-xs text-gray-500">
+              Last updated: {document.updatedAt.toLocaleDateString()}
+            </div>
+          </div>
+        </div>
+
+      </div>
+    </div>
+  );
+};
+
+export default DocumentScope;
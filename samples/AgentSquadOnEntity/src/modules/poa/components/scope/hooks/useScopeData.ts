@@ -0,0 +1,186 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { useMetadataSubscription } from '../../../../../hooks/useMetadataSubscription';
+import { useEntityHistory } from '../../../../../context/EntityContext';
+import { WebSocketHub } from '../../../../../middleware/WebSocketHub';
+import { MetadataMessage } from '../../../../../middleware/MetadataMessageRouter';
+import { ActivityLogMessage, ScopeProposalMessage } from '../../../../../types/messages';
+import { useDocumentData } from '../../representatives/hooks/useDocumentData';
+import { SectionSaveStatus } from '../../../hooks/useAgentDocumentSection';
+import { Document } from '../../../services/DocumentService';
+import { ScopeDraft, ScopeProposal, EditablePrincipalField } from '../types/scope.types';
+import { toScopeDraft, getChangedFields, validatePrincipal } from '../utils/scope.utils';
+
+const SCOPE_AGENT_ID = 'document_data_flow';
+
+export const useScopeData = () => {
+  const [draft, setDraft] = useState<ScopeDraft>(() => toScopeDraft(null));
+  const [saveStatus, setSaveStatus] = useState<SectionSaveStatus>('idle');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [proposal, setProposal] = useState<ScopeProposal | null>(null);
+  const [isProposing, setIsProposing] = useState(false);
+  const [proposalError, setProposalError] = useState<string | null>(null);
+
+  const {
+    documentId,
+    document,
+    loading: documentLoading,
+    error: documentError,
+    connectionStatus: documentConnectionStatus,
+    refreshDocument
+  } = useDocumentData();
+
+  // The last saved version is whatever the stored document holds
+  const saved = useMemo(() => toScopeDraft(document), [document]);
+  const changes = useMemo(() => getChangedFields(saved, draft), [saved, draft]);
+  const isDirty = changes.length > 0;
+
+  // Follow the saved version while there are no local edits; keep the user's edits otherwise
+  const previousSaved = useRef(saved);
+  useEffect(() => {
+    setDraft(current => (getChangedFields(previousSaved.current, current).length === 0 ? saved : current));
+    previousSaved.current = saved;
+  }, [saved]);
+
+  // Let the user take back the latest change an agent made to the document
+  const { latestVersion, canRevert, revert } = useEntityHistory<Document>(document?.id);
+  const canRevertAgentChange = canRevert && latestVersion?.source === 'agent';
+  const lastAgentChange = canRevertAgentChange ? latestVersion?.label : undefined;
+
+  const handleProposal = useCallback((message: MetadataMessage) => {
+    const { requestId, proposedScope, rationale } = message as ScopeProposalMessage;
+    console.log('[useScopeData] Scope proposal received:', requestId);
+    setProposal({ requestId, proposedScope, rationale: rationale || undefined, receivedAt: new Date() });
+    setProposalError(null);
+  }, []);
+
+  // Proposals answer ProposeScope, but the agent may also suggest wording from the chat
+  useMetadataSubscription({
+    subscriberId: 'scope_proposals',
+    messageTypes: ['ScopeProposal'],
+    agentId: SCOPE_AGENT_ID,
+    onMessage: handleProposal
+  });
+
+  const updateScope = useCallback((scope: string) => {
+    setDraft(current => ({ ...current, scope }));
+    setSaveStatus('idle');
+  }, []);
+
+  const updatePrincipal = useCallback((field: EditablePrincipalField, value: string) => {
+    setDraft(current => ({ ...current, principal: { ...current.principal, [field]: value } }));
+    setSaveStatus('idle');
+  }, []);
+
+  const discardChanges = useCallback(() => {
+    setDraft(saved);
+    setSaveStatus('idle');
+    setSaveError(null);
+  }, [saved]);
+
+  /**
+   * Send the scope and principal to the Document Data Flow agent and wait for its ActivityLog.
+   * The stored document is updated from the reply (DocumentService).
+   */
+  const saveScope = useCallback(async (): Promise<boolean> => {
+    if (!documentId || documentId === 'new') {
+      setSaveStatus('failed');
+      setSaveError('Open a saved document before saving');
+      return false;
+    }
+    if (!validatePrincipal(draft)) {
+      setSaveStatus('failed');
+      setSaveError("The principal's full name and national ID are required");
+      return false;
+    }
+
+    setSaveStatus('saving');
+    setSaveError(null);
+
+    try {
+      const reply = await WebSocketHub.getInstance().request<ActivityLogMessage>(
+        SCOPE_AGENT_ID,
+        { messageType: 'UpdateScope', documentId, scope: draft.scope.trim(), principal: draft.principal },
+        { responseType: 'ActivityLog', timeout: 30000 }
+      );
+
+      if (reply.success === false) {
+        throw new Error(reply.details || reply.summary || 'The agent did not accept the scope');
+      }
+
+      console.log(`[useScopeData] Saved scope for document ${documentId}`);
+      setSaveStatus('saved');
+      return true;
+    } catch (error) {
+      console.error('[useScopeData] Failed to save scope:', error);
+      setSaveStatus('failed');
+      setSaveError(error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  }, [documentId, draft]);
+
+  /**
+   * Ask the agent to draft scope wording from the current draft and optional instructions
+   */
+  const requestProposal = useCallback(async (instructions?: string) => {
+    if (!documentId || documentId === 'new') {
+      setProposalError('Open a saved document before asking for a proposal');
+      return;
+    }
+
+    setIsProposing(true);
+    setProposalError(null);
+
+    try {
+      // The reply also reaches the subscription above, which shows it
+      await WebSocketHub.getInstance().request<ScopeProposalMessage>(
+        SCOPE_AGENT_ID,
+        { messageType: 'ProposeScope', documentId, scope: draft.scope, instructions: instructions?.trim() || undefined },
+        { responseType: 'ScopeProposal', timeout: 60000 }
+      );
+    } catch (error) {
+      console.error('[useScopeData] Scope proposal failed:', error);
+      setProposalError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsProposing(false);
+    }
+  }, [documentId, draft.scope]);
+
+  // Accepting only changes the draft; the user still reviews the diff and saves
+  const acceptProposal = useCallback(() => {
+    if (!proposal) return;
+    updateScope(proposal.proposedScope);
+    setProposal(null);
+  }, [proposal, updateScope]);
+
+  const rejectProposal = useCallback(() => {
+    setProposal(null);
+  }, []);
+
+  return {
+    draft,
+    saved,
+    changes,
+    isDirty,
+    updateScope,
+    updatePrincipal,
+    discardChanges,
+    saveScope,
+    saveStatus,
+    saveError,
+    proposal,
+    isProposing,
+    proposalError,
+    requestProposal,
+    acceptProposal,
+    rejectProposal,
+    canRevertAgentChange,
+    lastAgentChange,
+    revertAgentChange: revert,
+    documentId,
+    document,
+    documentLoading,
+    documentError,
+    documentConnectionStatus,
+    refreshDocument
+  };
+};
@@ -0,0 +1,22 @@
+export { default } from './documentScope';
+
+/**
+ * Scope Module Structure:
+ * 
+ * ├── documentScope.tsx                      - Main orchestrator component
+ * ├── types/
+ * │   └── scope.types.ts                    - Draft, diff and proposal types
+ * ├── hooks/
+ * │   └── useScopeData.ts                   - Draft state, save and proposals via the Document Data Flow agent
+ * ├── components/
+ * │   ├── ScopeHeader.tsx                   - Change count, save, discard and undo actions
+ * │   ├── ScopeEditor.tsx                   - Scope text with inline agent proposals
+ * │   ├── PrincipalEditor.tsx               - Principal fields with edited markers
+ * │   ├── ScopeChanges.tsx                  - Unsaved changes against the saved version
+ * │   └── DiffText.tsx                      - Inline word diff
+ * └── utils/
+ *     └── scope.utils.ts                    - Draft conversion, change detection and word diff
+ * 
+ * Saves send UpdateScope; "Suggest wording" sends ProposeScope and shows the agent's
+ * ScopeProposal for the user to accept into the draft or reject.
+ */
@@ -0,0 +1,34 @@
+export interface Principal {
+  userId: string;
+  fullName: string;
+  nationalId: string;
+  address: string;
+}
+
+// What the Scope step edits and saves together
+export interface ScopeDraft {
+  scope: string;
+  principal: Principal;
+}
+
+export type EditablePrincipalField = Exclude<keyof Principal, 'userId'>;
+
+export interface FieldChange {
+  field: 'scope' | EditablePrincipalField;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface DiffSegment {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Scope wording suggested by the Document Data Flow agent, awaiting accept or reject
+export interface ScopeProposal {
+  requestId?: string;
+  proposedScope: string;
+  rationale?: string;
+  receivedAt: Date;
+}
@@ -0,0 +1,82 @@
+import { Document } from '../../../services/DocumentService';
+import { ScopeDraft, FieldChange, DiffSegment, EditablePrincipalField } from '../types/scope.types';
+
+export const PRINCIPAL_FIELDS: Array<{ field: EditablePrincipalField; label: string }> = [
+  { field: 'fullName', label: 'Full Name' },
+  { field: 'nationalId', label: 'National ID' },
+  { field: 'address', label: 'Address' }
+];
+
+export const toScopeDraft = (document: Document | null): ScopeDraft => ({
+  scope: document?.scope || '',
+  principal: {
+    userId: document?.principal?.userId || '',
+    fullName: document?.principal?.fullName || '',
+    nationalId: document?.principal?.nationalId || '',
+    address: document?.principal?.address || ''
+  }
+});
+
+/**
+ * Fields that differ between the saved version and the draft, ignoring surrounding whitespace
+ */
+export const getChangedFields = (saved: ScopeDraft, draft: ScopeDraft): FieldChange[] => {
+  const changes: FieldChange[] = [];
+  if (saved.scope.trim() !== draft.scope.trim()) {
+    changes.push({ field: 'scope', label: 'Scope', before: saved.scope, after: draft.scope });
+  }
+  PRINCIPAL_FIELDS.forEach(({ field, label }) => {
+    if (saved.principal[field].trim() !== draft.principal[field].trim()) {
+      changes.push({ field, label, before: saved.principal[field], after: draft.principal[field] });
+    }
+  });
+  return changes;
+};
+
+/**
+ * Word-level diff (longest common subsequence), with runs of the same kind merged
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (kind: DiffSegment['kind'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.kind === kind) {
+      last.text += text;
+    } else {
+      segments.push({ kind, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return segments;
+};
+
+export const validatePrincipal = (draft: ScopeDraft): boolean => {
+  return !!(draft.principal.fullName.trim() && draft.principal.nationalId.trim());
+};
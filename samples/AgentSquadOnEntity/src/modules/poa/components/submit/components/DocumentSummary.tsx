@@ -0,0 +1,57 @@
+import React from 'react';
+import { SubmissionReceiptEntity } from '../../../../../types/entities';
+import { SummaryRow } from '../types/submit.types';
+
+interface DocumentSummaryProps {
+  rows: SummaryRow[];
+  receipt: SubmissionReceiptEntity | null;
+  onDownload: () => void;
+  onPrint: () => void;
+  isRendering: boolean;
+}
+
+const getStatus = (receipt: SubmissionReceiptEntity | null): { label: string; className: string } => {
+  switch (receipt?.status) {
+    case 'blocked':
+      return { label: 'Audit errors must be resolved', className: 'text-red-600' };
+    case 'failed':
+      return { label: 'Last submission failed', className: 'text-yellow-600' };
+    default:
+      return { label: 'Ready for submission', className: 'text-green-600' };
+  }
+};
+
+const DocumentSummary: React.FC<DocumentSummaryProps> = ({ rows, receipt, onDownload, onPrint, isRendering }) => {
+  const status = getStatus(receipt);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Document Summary</h3>
+        <div className="flex space-x-3 text-sm">
+          <button onClick={onPrint} disabled={isRendering} className="text-blue-600 hover:text-blue-800 disabled:opacity-50">
+            Print view
+          </button>
+          <button onClick={onDownload} disabled={isRendering} className="text-blue-600 hover:text-blue-800 disabled:opacity-50">
+            Download PDF
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-3 text-sm">
+        {rows.map(row => (
+          <div key={row.label} className="flex justify-between">
+            <span className="text-gray-600">{row.label}:</span>
+            <span className="font-medium">{row.value}</span>
+          </div>
+        ))}
+        <div className="flex justify-between">
+          <span className="text-gray-600">Status:</span>
+          <span className={`font-medium ${status.className}`}>{status.label}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentSummary;
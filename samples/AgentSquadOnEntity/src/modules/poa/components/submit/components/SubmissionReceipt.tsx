@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { SubmissionReceiptEntity } from '../../../../../types/entities';
+import { getMethodLabel } from '../utils/submit.utils';
+
+interface SubmissionReceiptProps {
+  receipt: SubmissionReceiptEntity;
+  onStartNew: () => void;
+  onDownload: () => void;
+  onPrint: () => void;
+  isRendering: boolean;
+  renderError: string | null;
+}
+
+const SubmissionReceipt: React.FC<SubmissionReceiptProps> = ({ receipt, onStartNew, onDownload, onPrint, isRendering, renderError }) => {
+  const [showDetails, setShowDetails] = useState(false);
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      <header className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-xl font-semibold text-gray-900">Document Submitted</h2>
+        <p className="text-sm text-gray-600 mt-1">Your document has been successfully processed</p>
+      </header>
+
+      <div className="flex-1 flex items-center justify-center p-6">
+        <div className="text-center max-w-md w-full">
+          <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <svg className="w-8 h-8 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+            </svg>
+          </div>
+
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Document Successfully Submitted!</h3>
+          <p className="text-gray-600 mb-6">
+            Your document has been processed and distributed according to your preferences.
+          </p>
+
+          {showDetails && (
+            <dl className="text-left text-sm border border-gray-200 rounded-lg p-4 mb-6 space-y-2">
+              {receipt.reference && (
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Reference:</dt>
+                  <dd className="font-medium">{receipt.reference}</dd>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Submitted:</dt>
+                <dd className="font-medium">{new Date(receipt.submittedAt || receipt.updatedAt).toLocaleString()}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Method:</dt>
+                <dd className="font-medium">{getMethodLabel(receipt.submissionMethod)}</dd>
+              </div>
+              {receipt.recipients.length > 0 && (
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Recipients:</dt>
+                  <dd className="font-medium text-right">{receipt.recipients.join(', ')}</dd>
+                </div>
+              )}
+              {receipt.notes && (
+                <div>
+                  <dt className="text-gray-600">Notes:</dt>
+                  <dd className="mt-1 whitespace-pre-wrap">{receipt.notes}</dd>
+                </div>
+              )}
+            </dl>
+          )}
+
+          {renderError && (
+            <p className="mb-3 text-sm text-red-600">Could not prepare the document: {renderError}</p>
+          )}
+
+          <div className="space-y-3">
+            <button
+              onClick={onDownload}
+              disabled={isRendering}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isRendering ? 'Preparing Document...' : 'Download Final Document'}
+            </button>
+            <button
+              onClick={onPrint}
+              disabled={isRendering}
+              className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Print View
+            </button>
+            <button
+              onClick={() => setShowDetails(current => !current)}
+              className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+            >
+              {showDetails ? 'Hide Submission Details' : 'View Submission Details'}
+            </button>
+            <button
+              onClick={onStartNew}
+              className="w-full px-4 py-2 text-blue-600 hover:text-blue-800"
+            >
+              Start New Document
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubmissionReceipt;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { SubmissionReceiptEntity } from '../../../../../types/entities';
+
+interface SubmissionStatusProps {
+  receipt: SubmissionReceiptEntity | null;
+  isSubmitting: boolean;
+}
+
+const SubmissionStatus: React.FC<SubmissionStatusProps> = ({ receipt, isSubmitting }) => {
+  if (!receipt) return null;
+
+  // Progress is only live while this tab is submitting; a stale in-flight receipt is not shown
+  if (isSubmitting && (receipt.status === 'auditing' || receipt.status === 'submitting')) {
+    const percentage = receipt.progress?.percentage ?? 0;
+    return (
+      <div className="border border-blue-200 bg-blue-50 rounded-lg p-4">
+        <div className="flex justify-between text-sm text-blue-900 mb-2">
+          <span>{receipt.progress?.label || (receipt.status === 'auditing' ? 'Running final audit' : 'Submitting')}</span>
+          {receipt.status === 'submitting' && <span>{Math.round(percentage)}%</span>}
+        </div>
+        <div className="w-full h-2 bg-blue-100 rounded-full overflow-hidden">
+          <div
+            className={`h-2 bg-blue-600 rounded-full transition-all ${receipt.status === 'auditing' ? 'animate-pulse w-full' : ''}`}
+            style={receipt.status === 'submitting' ? { width: `${percentage}%` } : undefined}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (receipt.status === 'blocked') {
+    const findings = receipt.blockingFindings || [];
+    return (
+      <div className="border border-red-200 bg-red-50 rounded-lg p-4">
+        <h4 className="text-sm font-medium text-red-800 mb-2">
+          The final audit found {findings.length > 0 ? `${findings.length} error(s)` : 'errors'} that must be resolved before submitting
+        </h4>
+        <ul className="space-y-2">
+          {findings.map((finding, index) => (
+            <li key={index} className="text-sm text-red-700">
+              <p className="font-medium">{finding.message}</p>
+              {finding.description && <p className="text-xs text-red-600">{finding.description}</p>}
+              {finding.link && (
+                <a href={finding.link} target="_blank" rel="noopener noreferrer" className="text-xs underline">
+                  Learn more
+                </a>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  if (receipt.status === 'failed') {
+    return (
+      <div className="border border-yellow-200 bg-yellow-50 rounded-lg p-4 text-sm text-yellow-800">
+        Submission failed: {receipt.error || 'Unknown error'}. You can try again.
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default SubmissionStatus;
@@ -0,0 +1,137 @@
+import { useState, useCallback, useMemo } from 'react';
+import { useEntityQueryResult } from '../../../../../context/EntityContext';
+import { SubmissionMethod, SubmissionReceiptEntity } from '../../../../../types/entities';
+import { useDocumentData } from '../../representatives/hooks/useDocumentData';
+import { SubmissionService } from '../../../services/SubmissionService';
+import { downloadDocumentPdf, openDocumentPrintView } from '../../../services/pdf';
+import { SubmissionDraft } from '../types/submit.types';
+import { getDocumentSummary, getRecipients, sendsDownload, validateSubmission } from '../utils/submit.utils';
+
+export const useSubmitDocument = () => {
+  const [submissionMethod, setSubmissionMethod] = useState<SubmissionMethod>('both');
+  const [emailRecipients, setEmailRecipients] = useState<string[]>(['']);
+  const [additionalNotes, setAdditionalNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [renderError, setRenderError] = useState<string | null>(null);
+
+  const {
+    documentId,
+    document,
+    loading: documentLoading,
+    error: documentError
+  } = useDocumentData();
+
+  const summary = useMemo(() => getDocumentSummary(document), [document]);
+
+  // Latest receipt for this document; SubmissionService keeps it current while submitting
+  const { entities: receipts } = useEntityQueryResult<SubmissionReceiptEntity>({
+    type: 'submission_receipt',
+    where: { field: 'documentId', eq: documentId || '' },
+    orderBy: [{ field: 'createdAt', direction: 'desc' }],
+    limit: 1
+  });
+  const receipt = receipts[0] || null;
+
+  const addEmailRecipient = useCallback(() => {
+    setEmailRecipients(current => [...current, '']);
+  }, []);
+
+  const updateEmailRecipient = useCallback((index: number, email: string) => {
+    setEmailRecipients(current => current.map((existing, i) => (i === index ? email : existing)));
+    setValidationError(null);
+  }, []);
+
+  const removeEmailRecipient = useCallback((index: number) => {
+    setEmailRecipients(current => current.filter((_, i) => i !== index));
+  }, []);
+
+  const selectSubmissionMethod = useCallback((method: SubmissionMethod) => {
+    setSubmissionMethod(method);
+    setValidationError(null);
+  }, []);
+
+  /**
+   * Render the current document in the browser: a PDF download or the print view
+   */
+  const renderDocument = useCallback(async (output: 'pdf' | 'print') => {
+    if (!document) {
+      setRenderError('The document has not been loaded yet');
+      return;
+    }
+
+    setIsRendering(true);
+    setRenderError(null);
+    try {
+      await (output === 'pdf' ? downloadDocumentPdf(document) : openDocumentPrintView(document));
+    } catch (error) {
+      console.error(`[useSubmitDocument] Failed to render document (${output}):`, error);
+      setRenderError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsRendering(false);
+    }
+  }, [document]);
+
+  const downloadPdf = useCallback(() => renderDocument('pdf'), [renderDocument]);
+  const openPrintView = useCallback(() => renderDocument('print'), [renderDocument]);
+
+  /**
+   * Run the final audit and submit through the Document Data Flow agent.
+   * The outcome is read from the receipt entity rather than returned here; methods that
+   * include a download also save the PDF once submitted.
+   */
+  const handleSubmit = useCallback(async () => {
+    if (!documentId || documentId === 'new') {
+      setValidationError('Open a saved document before submitting');
+      return;
+    }
+
+    const draft: SubmissionDraft = { submissionMethod, recipients: emailRecipients, notes: additionalNotes };
+    const problem = validateSubmission(draft);
+    if (problem) {
+      setValidationError(problem);
+      return;
+    }
+
+    setValidationError(null);
+    setIsSubmitting(true);
+    try {
+      const result = await SubmissionService.getInstance().submit({
+        documentId,
+        submissionMethod,
+        recipients: getRecipients(draft),
+        notes: additionalNotes.trim() || undefined
+      });
+      if (result.status === 'submitted' && sendsDownload(submissionMethod)) {
+        await downloadPdf();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [documentId, submissionMethod, emailRecipients, additionalNotes, downloadPdf]);
+
+  return {
+    submissionMethod,
+    selectSubmissionMethod,
+    emailRecipients,
+    addEmailRecipient,
+    updateEmailRecipient,
+    removeEmailRecipient,
+    additionalNotes,
+    setAdditionalNotes,
+    validationError,
+    isSubmitting,
+    handleSubmit,
+    downloadPdf,
+    openPrintView,
+    isRendering,
+    renderError,
+    receipt,
+    summary,
+    documentId,
+    document,
+    documentLoading,
+    documentError
+  };
+};
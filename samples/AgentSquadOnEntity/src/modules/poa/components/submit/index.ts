@@ -0,0 +1,21 @@
+export { default } from './submitDocument';
+
+/**
+ * Submit Module Structure:
+ * 
+ * ├── submitDocument.tsx                     - Main orchestrator component
+ * ├── types/
+ * │   └── submit.types.ts                   - Submission draft and summary types
+ * ├── hooks/
+ * │   └── useSubmitDocument.ts              - Form state, latest receipt and submit via SubmissionService
+ * ├── components/
+ * │   ├── DocumentSummary.tsx               - Counts from the current document, PDF and print actions
+ * │   ├── SubmissionStatus.tsx              - Audit/submission progress, blocking findings and failures
+ * │   └── SubmissionReceipt.tsx             - Submitted view with receipt details
+ * └── utils/
+ *     └── submit.utils.ts                   - Submission methods, recipient validation and summary rows
+ * 
+ * Submitting runs a final audit (AuditDocument), stops on error findings and otherwise sends
+ * SubmitDocument to the Document Data Flow agent. Every stage is recorded on a submission_receipt entity.
+ * The PDF and print view are rendered in the browser (services/pdf).
+ */
@@ -0,0 +1,195 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { getFirstStepUrl } from '../../steps';
+import { useSubmitDocument } from './hooks/useSubmitDocument';
+import DocumentSummary from './components/DocumentSummary';
+import SubmissionStatus from './components/SubmissionStatus';
+import SubmissionReceipt from './components/SubmissionReceipt';
+import { SUBMISSION_METHODS, sendsEmail } from './utils/submit.utils';
+
+const SubmitDocument: React.FC = () => {
+  const {
+    submissionMethod,
+    selectSubmissionMethod,
+    emailRecipients,
+    addEmailRecipient,
+    updateEmailRecipient,
+    removeEmailRecipient,
+    additionalNotes,
+    setAdditionalNotes,
+    validationError,
+    isSubmitting,
+    handleSubmit,
+    downloadPdf,
+    openPrintView,
+    isRendering,
+    renderError,
+    receipt,
+    summary,
+    documentLoading,
+    documentError
+  } = useSubmitDocument();
+  const navigate = useNavigate();
+
+  if (receipt?.status === 'submitted' && !isSubmitting) {
+    return (
+      <SubmissionReceipt
+        receipt={receipt}
+        onStartNew={() => navigate(getFirstStepUrl('new'))}
+        onDownload={downloadPdf}
+        onPrint={openPrintView}
+        isRendering={isRendering}
+        renderError={renderError}
+      />
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      <header className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-xl font-semibold text-gray-900">Submit Document</h2>
+        <p className="text-sm text-gray-600 mt-1">Review and submit your completed document</p>
+      </header>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-2xl mx-auto space-y-6">
+
+          {documentError && (
+            <div className="border border-red-200 bg-red-50 rounded-lg p-4 text-sm text-red-700">
+              Error loading document: {documentError}
+            </div>
+          )}
+
+          {/* Document Summary */}
+          {documentLoading ? (
+            <div className="border border-gray-200 rounded-lg p-6 text-sm text-gray-600">Loading document...</div>
+          ) : (
+            <DocumentSummary
+              rows={summary}
+              receipt={receipt}
+              onDownload={downloadPdf}
+              onPrint={openPrintView}
+              isRendering={isRendering}
+            />
+          )}
+
+          {renderError && (
+            <p className="text-sm text-red-600">Could not prepare the document: {renderError}</p>
+          )}
+
+          {/* Submission Method */}
+          <div className="border border-gray-200 rounded-lg p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Submission Method</h3>
+
+            <div className="space-y-3">
+              {SUBMISSION_METHODS.map(option => (
+                <label key={option.value} className="flex items-center">
+                  <input
+                    type="radio"
+                    name="method"
+                    value={option.value}
+                    checked={submissionMethod === option.value}
+                    onChange={() => selectSubmissionMethod(option.value)}
+                    disabled={isSubmitting}
+                    className="mr-3"
+                  />
+                  <div>
+                    <div className="font-medium">{option.label}</div>
+                    <div className="text-sm text-gray-600">{option.description}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Email Recipients */}
+          {sendsEmail(submissionMethod) && (
+            <div className="border border-gray-200 rounded-lg p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Email Recipients</h3>
+
+              <div className="space-y-2">
+                {emailRecipients.map((email, index) => (
+                  <div key={index} className="flex gap-2">
+                    <input
+                      type="email"
+                      value={email}
+                      onChange={(e) => updateEmailRecipient(index, e.target.value)}
+                      disabled={isSubmitting}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Enter email address"
+                    />
+                    {emailRecipients.length > 1 && (
+                      <button
+                        onClick={() => removeEmailRecipient(index)}
+                        disabled={isSubmitting}
+                        className="px-3 py-2 text-red-600 hover:text-red-800 hover:bg-red-50 rounded-md"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                ))}
+
+                <button
+                  onClick={addEmailRecipient}
+                  disabled={isSubmitting}
+                  className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                >
+                  + Add Another Recipient
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Additional Notes */}
+          <div className="border border-gray-200 rounded-lg p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Additional Notes</h3>
+            <textarea
+              value={additionalNotes}
+              onChange={(e) => setAdditionalNotes(e.target.value)}
+              disabled={isSubmitting}
+              rows={4}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Add any additional notes or instructions for the recipients..."
+            />
+          </div>
+
+          {/* Audit and submission progress */}
+          <SubmissionStatus receipt={receipt} isSubmitting={isSubmitting} />
+
+          {validationError && (
+            <p className="text-sm text-red-600">{validationError}</p>
+          )}
+
+          {/* Submit Button */}
+          <div className="flex gap-4">
+            <button
+              onClick={handleSubmit}
+              disabled={isSubmitting || documentLoading}
+              className="flex-1 px-6 py-3 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+            >
+              {isSubmitting ? (
+                <span className="flex items-center justify-center gap-2">
+                  <svg className="animate-spin w-4 h-4" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                  </svg>
+                  Submitting...
+                </span>
+              ) : (
+                'Submit Document'
+              )}
+            </button>
+
+            <button className="px-6 py-3 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 font-medium">
+              Save Draft
+            </button>
+          </div>
+
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubmitDocument;
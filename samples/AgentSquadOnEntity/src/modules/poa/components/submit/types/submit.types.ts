@@ -0,0 +1,19 @@
+import { SubmissionMethod } from '../../../../../types/entities';
+
+// What the user fills in before submitting
+export interface SubmissionDraft {
+  submissionMethod: SubmissionMethod;
+  recipients: string[];
+  notes: string;
+}
+
+export interface SubmissionMethodOption {
+  value: SubmissionMethod;
+  label: string;
+  description: string;
+}
+
+export interface SummaryRow {
+  label: string;
+  value: string;
+}
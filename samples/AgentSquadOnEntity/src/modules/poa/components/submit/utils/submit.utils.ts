@@ -0,0 +1,60 @@
+import { SubmissionMethod } from '../../../../../types/entities';
+import { Document } from '../../../services/DocumentService';
+import { SubmissionDraft, SubmissionMethodOption, SummaryRow } from '../types/submit.types';
+
+export const SUBMISSION_METHODS: SubmissionMethodOption[] = [
+  { value: 'email', label: 'Email Only', description: 'Send document via email to specified recipients' },
+  { value: 'download', label: 'Download Only', description: 'Download document to your device' },
+  { value: 'both', label: 'Email & Download', description: 'Both email and download options' }
+];
+
+export const sendsEmail = (method: SubmissionMethod): boolean => {
+  return method === 'email' || method === 'both';
+};
+
+export const sendsDownload = (method: SubmissionMethod): boolean => {
+  return method === 'download' || method === 'both';
+};
+
+export const isValidEmail = (email: string): boolean => {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+};
+
+/**
+ * Trimmed, de-duplicated recipients; none when the document is only downloaded
+ */
+export const getRecipients = (draft: SubmissionDraft): string[] => {
+  if (!sendsEmail(draft.submissionMethod)) return [];
+  const entered = draft.recipients.map(email => email.trim()).filter(Boolean);
+  return entered.filter((email, index) => entered.findIndex(e => e.toLowerCase() === email.toLowerCase()) === index);
+};
+
+/**
+ * First problem that prevents submitting the draft, or null
+ */
+export const validateSubmission = (draft: SubmissionDraft): string | null => {
+  if (!sendsEmail(draft.submissionMethod)) return null;
+
+  const recipients = getRecipients(draft);
+  if (recipients.length === 0) {
+    return 'Add at least one email recipient';
+  }
+  const invalid = recipients.find(email => !isValidEmail(email));
+  return invalid ? `"${invalid}" is not a valid email address` : null;
+};
+
+const countLabel = (count: number, singular: string, plural: string): string => {
+  return `${count} ${count === 1 ? singular : plural}`;
+};
+
+export const getDocumentSummary = (document: Document | null): SummaryRow[] => [
+  { label: 'Document Type', value: 'Power of Attorney' },
+  { label: 'Principal', value: document?.principal?.fullName || 'Not specified' },
+  { label: 'Representatives', value: countLabel(document?.representatives?.length || 0, 'representative', 'representatives') },
+  { label: 'Conditions', value: countLabel(document?.conditions?.length || 0, 'condition defined', 'conditions defined') },
+  { label: 'Witnesses', value: countLabel(document?.witnesses?.length || 0, 'witness', 'witnesses') }
+];
+
+export const getMethodLabel = (method: SubmissionMethod): string => {
+  return SUBMISSION_METHODS.find(option => option.value === method)?.label || method;
+};
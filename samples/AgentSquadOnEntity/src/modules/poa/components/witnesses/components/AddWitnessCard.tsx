@@ -0,0 +1,27 @@
+import React from 'react';
+import { getThemeColors } from '../../../../../components/theme';
+
+interface AddWitnessCardProps {
+  onAdd: () => void;
+}
+
+const AddWitnessCard: React.FC<AddWitnessCardProps> = ({ onAdd }) => {
+  const theme = getThemeColors('blue');
+  
+  return (
+    <div 
+      className={`border-2 border-dashed ${theme.border} rounded-lg p-4 ${theme.bgLight} hover:${theme.buttonSecondaryHover} hover:${theme.border.replace('-200', '-400')} transition-all cursor-pointer flex items-center justify-center min-h-[160px]`}
+      onClick={onAdd}
+    >
+      <div className="text-center">
+        <div className={`w-12 h-12 mx-auto mb-3 ${theme.buttonSecondary} rounded-full flex items-center justify-center border ${theme.buttonSecondaryBorder}`}>
+          <span className={`${theme.bg.replace('bg-', 'text-')} text-xl font-bold`}>+</span>
+        </div>
+        <div className={`text-sm font-medium ${theme.text} mb-1`}>Add Witness</div>
+        <div className="text-xs text-gray-500">Click to add a new witness</div>
+      </div>
+    </div>
+  );
+};
+
+export default AddWitnessCard; 
\ No newline at end of file
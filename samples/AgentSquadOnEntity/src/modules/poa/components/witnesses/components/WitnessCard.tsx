@@ -0,0 +1,169 @@
+import React, { useEffect, useRef } from 'react';
+import { FiTrash2 } from 'react-icons/fi';
+import { Witness, EditableWitnessField } from '../types/witness.types';
+import { WITNESS_RELATIONSHIPS, getRelationshipLabel, validateWitness } from '../utils/witness.utils';
+import { getThemeColors } from '../../../../../components/theme';
+
+interface WitnessCardProps {
+  witness: Witness;
+  isEditing: boolean;
+  onToggleEdit: (id: string) => void;
+  onUpdate: (id: string, field: EditableWitnessField, value: string) => void;
+  onRemove: (id: string) => void;
+  onExitEdit: () => void;
+}
+
+const WitnessCard: React.FC<WitnessCardProps> = ({
+  witness,
+  isEditing,
+  onToggleEdit,
+  onUpdate,
+  onRemove,
+  onExitEdit
+}) => {
+  const cardRef = useRef<HTMLDivElement>(null);
+  const theme = getThemeColors('blue');
+  const errorTheme = getThemeColors('error');
+
+  // Handle click outside to finish editing
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (isEditing && cardRef.current && !cardRef.current.contains(event.target as Node)) {
+        onExitEdit();
+      }
+    };
+
+    if (isEditing) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isEditing, onExitEdit]);
+
+  return (
+    <div
+      ref={cardRef}
+      className={`border rounded-lg p-4 bg-white shadow-sm transition-all cursor-pointer ${
+        isEditing
+          ? `${theme.border.replace('-200', '-500')} ring-2 ${theme.border.replace('border-', 'ring-')}`
+          : 'border-gray-200 hover:border-gray-300 hover:shadow-md'
+      }`}
+      onClick={() => !isEditing && onToggleEdit(witness.id)}
+    >
+      {isEditing && (
+        <div className="flex justify-end items-center space-x-2 mb-3">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onExitEdit();
+            }}
+            className={`${theme.bg.replace('bg-', 'text-')} text-xs px-2 py-1 ${theme.bgLight} rounded border ${theme.border}`}
+            title="Save and exit edit mode"
+          >
+            ✓ Done
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onRemove(witness.id);
+            }}
+            className={`${errorTheme.bg.replace('bg-', 'text-')} text-xs p-1 rounded`}
+            title="Remove witness"
+          >
+            <FiTrash2 size={14} />
+          </button>
+        </div>
+      )}
+
+      {isEditing ? (
+        <EditMode witness={witness} onUpdate={onUpdate} />
+      ) : (
+        <ViewMode witness={witness} />
+      )}
+    </div>
+  );
+};
+
+interface EditModeProps {
+  witness: Witness;
+  onUpdate: WitnessCardProps['onUpdate'];
+}
+
+const EditMode: React.FC<EditModeProps> = ({ witness, onUpdate }) => {
+  const theme = getThemeColors('blue');
+  const inputClass = `w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 ${theme.buttonPrimaryFocus.replace('focus:', '')} bg-white`;
+
+  return (
+    <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">
+          Full Name *
+        </label>
+        <input
+          type="text"
+          value={witness.fullName}
+          onChange={(e) => onUpdate(witness.id, 'fullName', e.target.value)}
+          className={inputClass}
+          placeholder="Enter witness name"
+          autoFocus
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">
+          National ID *
+        </label>
+        <input
+          type="text"
+          value={witness.nationalId}
+          onChange={(e) => onUpdate(witness.id, 'nationalId', e.target.value)}
+          className={inputClass}
+          placeholder="Enter national ID"
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">
+          Relationship to Parties
+        </label>
+        <select
+          value={witness.relationship}
+          onChange={(e) => onUpdate(witness.id, 'relationship', e.target.value)}
+          className={inputClass}
+        >
+          <option value="">Select relationship...</option>
+          {WITNESS_RELATIONSHIPS.map(relationship => (
+            <option key={relationship.value} value={relationship.value}>{relationship.label}</option>
+          ))}
+          {witness.relationship && !WITNESS_RELATIONSHIPS.some(r => r.value === witness.relationship) && (
+            <option value={witness.relationship}>{witness.relationship}</option>
+          )}
+        </select>
+      </div>
+
+      {!validateWitness(witness) && (
+        <p className="text-xs text-gray-500">Name and national ID are needed before the witness is sent to the agent</p>
+      )}
+    </div>
+  );
+};
+
+const ViewMode: React.FC<{ witness: Witness }> = ({ witness }) => (
+  <div className="space-y-1">
+    <h4 className={`text-md font-medium ${witness.fullName ? 'text-gray-900' : 'text-gray-400 italic'}`}>
+      {witness.fullName || 'Unnamed witness'}
+    </h4>
+    {witness.nationalId && (
+      <p className="text-sm text-gray-600">
+        <span className="font-medium">National ID:</span> {witness.nationalId}
+      </p>
+    )}
+    {witness.relationship && (
+      <p className="text-sm text-gray-600">{getRelationshipLabel(witness.relationship)}</p>
+    )}
+  </div>
+);
+
+export default WitnessCard;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Witness } from '../types/witness.types';
+import { getValidWitnesses } from '../utils/witness.utils';
+import { ActivityData } from '../../representatives/types/representative.types';
+import { SectionSaveStatus } from '../../../hooks/useAgentDocumentSection';
+import { getThemeColors } from '../../../../../components/theme';
+
+interface WitnessesHeaderProps {
+  witnesses: Witness[];
+  latestActivity: ActivityData | null;
+  saveStatus: SectionSaveStatus;
+  saveError: string | null;
+  onRetry: () => void;
+  canRevertAgentChange?: boolean;
+  lastAgentChange?: string;
+  onRevertAgentChange?: () => void;
+}
+
+const WitnessesHeader: React.FC<WitnessesHeaderProps> = ({
+  witnesses,
+  latestActivity,
+  saveStatus,
+  saveError,
+  onRetry,
+  canRevertAgentChange = false,
+  lastAgentChange,
+  onRevertAgentChange
+}) => {
+  const witnessCount = getValidWitnesses(witnesses).length;
+  const theme = getThemeColors('blue');
+  const errorTheme = getThemeColors('error');
+
+  return (
+    <header className="px-6 py-4 border-b border-gray-200 flex-shrink-0">
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="text-sm text-gray-600 mt-1">Add witnesses who will observe the document signing</p>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <div className="text-sm text-gray-600">
+            {witnessCount} witness(es)
+            {saveStatus === 'saving' && ' · syncing with agent...'}
+            {saveStatus === 'saved' && ' · synced'}
+          </div>
+
+          {canRevertAgentChange && onRevertAgentChange && (
+            <button
+              onClick={onRevertAgentChange}
+              title={lastAgentChange ? `Undo: ${lastAgentChange}` : 'Undo the last agent change'}
+              className="px-3 py-2 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Undo agent change
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Latest Witness Bot activity */}
+      {latestActivity?.summary && (
+        <div className={`mt-3 px-3 py-2 rounded border ${theme.border} ${theme.bgLight}`}>
+          <p className={`text-sm ${theme.text}`}>{latestActivity.summary}</p>
+          {latestActivity.details && <p className="text-xs text-gray-600 mt-1">{latestActivity.details}</p>}
+        </div>
+      )}
+
+      {saveStatus === 'failed' && saveError && (
+        <div className={`mt-2 flex items-center justify-between text-xs px-3 py-2 rounded ${errorTheme.bgLight} ${errorTheme.bg.replace('bg-', 'text-')}`}>
+          <span>Witnesses were not synced: {saveError}</span>
+          <button onClick={onRetry} className="ml-3 underline">Retry</button>
+        </div>
+      )}
+    </header>
+  );
+};
+
+export default WitnessesHeader;
@@ -0,0 +1,81 @@
+import { useState, useCallback } from 'react';
+import { useAgentDocumentSection } from '../../../hooks/useAgentDocumentSection';
+import { Witness, EditableWitnessField } from '../types/witness.types';
+import { toWitness, createEmptyWitness, getValidWitnesses } from '../utils/witness.utils';
+
+export const useWitnessesData = () => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const {
+    items: witnesses,
+    editItems,
+    save,
+    isDirty,
+    revertAgentChange: revert,
+    ...section
+  } = useAgentDocumentSection<Witness>({
+    section: 'witnesses',
+    agentId: 'witness_bot',
+    updateMessageType: 'UpdateWitnesses',
+    normalize: toWitness
+  });
+
+  // Every finished change goes to the Witness Bot right away; incomplete drafts stay local
+  const syncWitnesses = useCallback((next: Witness[]) => save(getValidWitnesses(next)), [save]);
+
+  const addWitness = useCallback(() => {
+    const witness = createEmptyWitness();
+    editItems(prev => [...prev, witness]);
+    setEditingId(witness.id); // Automatically enter edit mode for the new witness
+  }, [editItems]);
+
+  const updateWitness = useCallback((id: string, field: EditableWitnessField, value: string) => {
+    editItems(prev => prev.map(witness => (witness.id === id ? { ...witness, [field]: value } : witness)));
+  }, [editItems]);
+
+  const finishEditing = useCallback(() => {
+    setEditingId(null);
+    if (isDirty) {
+      syncWitnesses(witnesses);
+    }
+  }, [isDirty, syncWitnesses, witnesses]);
+
+  const toggleEditMode = useCallback((id: string) => {
+    if (editingId === id) {
+      finishEditing();
+    } else {
+      if (editingId !== null && isDirty) {
+        syncWitnesses(witnesses);
+      }
+      setEditingId(id);
+    }
+  }, [editingId, isDirty, finishEditing, syncWitnesses, witnesses]);
+
+  const removeWitness = useCallback((id: string) => {
+    const next = witnesses.filter(witness => witness.id !== id);
+    editItems(() => next);
+    setEditingId(current => (current === id ? null : current));
+    syncWitnesses(next);
+  }, [witnesses, editItems, syncWitnesses]);
+
+  const retrySync = useCallback(() => syncWitnesses(witnesses), [syncWitnesses, witnesses]);
+
+  const revertAgentChange = useCallback(() => {
+    setEditingId(null);
+    return revert();
+  }, [revert]);
+
+  return {
+    witnesses,
+    editingId,
+    addWitness,
+    updateWitness,
+    removeWitness,
+    toggleEditMode,
+    finishEditing,
+    retrySync,
+    revertAgentChange,
+    isDirty,
+    ...section
+  };
+};
@@ -0,0 +1,20 @@
+export { default } from './witnesses';
+
+/**
+ * Witnesses Module Structure:
+ * 
+ * ├── witnesses.tsx                          - Main orchestrator component
+ * ├── types/
+ * │   └── witness.types.ts                  - Witness shape shared with the Witness Bot
+ * ├── hooks/
+ * │   └── useWitnessesData.ts               - Editing state on top of useAgentDocumentSection
+ * ├── components/
+ * │   ├── WitnessCard.tsx                   - Individual witness card (view/edit modes)
+ * │   ├── AddWitnessCard.tsx                - Add new witness card
+ * │   └── WitnessesHeader.tsx               - Header with count, agent activity and sync status
+ * └── utils/
+ *     └── witness.utils.ts                  - Relationships and validation
+ * 
+ * Witnesses are read from the current document. Each finished add, edit or remove is sent
+ * to the Witness Bot (UpdateWitnesses), and its ActivityLog updates are shown as they arrive.
+ */
@@ -0,0 +1,9 @@
+// Witness as stored on the document and exchanged with the Witness Bot
+export interface Witness {
+  id: string;
+  fullName: string;
+  nationalId: string;
+  relationship: string;
+}
+
+export type EditableWitnessField = Exclude<keyof Witness, 'id'>;
@@ -0,0 +1,30 @@
+import { Witness } from '../types/witness.types';
+
+export const WITNESS_RELATIONSHIPS: Array<{ value: string; label: string }> = [
+  { value: 'independent', label: 'Independent/Neutral' },
+  { value: 'colleague', label: 'Colleague' },
+  { value: 'legal-counsel', label: 'Legal Counsel' },
+  { value: 'notary', label: 'Notary Public' },
+  { value: 'other', label: 'Other' }
+];
+
+export const getRelationshipLabel = (relationship: string): string => {
+  return WITNESS_RELATIONSHIPS.find(r => r.value === relationship)?.label || relationship;
+};
+
+export const toWitness = (raw: any): Witness => ({
+  id: raw.id || crypto.randomUUID(),
+  fullName: raw.fullName || raw.name || '',
+  nationalId: raw.nationalId || '',
+  relationship: raw.relationship || ''
+});
+
+export const createEmptyWitness = (): Witness => toWitness({});
+
+export const validateWitness = (witness: Witness): boolean => {
+  return !!(witness.fullName.trim() && witness.nationalId.trim());
+};
+
+export const getValidWitnesses = (witnesses: Witness[]): Witness[] => {
+  return witnesses.filter(validateWitness);
+};
@@ -0,0 +1,125 @@
+import React from 'react';
+import { useWitnessesData } from './hooks/useWitnessesData';
+import WitnessesHeader from './components/WitnessesHeader';
+import WitnessCard from './components/WitnessCard';
+import AddWitnessCard from './components/AddWitnessCard';
+import { getThemeColors } from '../../../../components/theme';
+
+const Witnesses: React.FC = () => {
+  const {
+    witnesses,
+    editingId,
+    addWitness,
+    updateWitness,
+    removeWitness,
+    toggleEditMode,
+    finishEditing,
+    retrySync,
+    latestActivity,
+    saveStatus,
+    saveError,
+    canRevertAgentChange,
+    lastAgentChange,
+    revertAgentChange,
+    documentLoading,
+    documentError
+  } = useWitnessesData();
+
+  const theme = getThemeColors('blue');
+  const errorTheme = getThemeColors('error');
+
+  const header = (
+    <WitnessesHeader
+      witnesses={witnesses}
+      latestActivity={latestActivity}
+      saveStatus={saveStatus}
+      saveError={saveError}
+      onRetry={retrySync}
+      canRevertAgentChange={canRevertAgentChange}
+      lastAgentChange={lastAgentChange}
+      onRevertAgentChange={revertAgentChange}
+    />
+  );
+
+  if (documentLoading) {
+    return (
+      <div className="h-full flex flex-col bg-white">
+        {header}
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center">
+            <div className={`animate-spin w-12 h-12 border-4 ${theme.bg} border-t-transparent rounded-full mx-auto mb-4`}></div>
+            <h3 className={`text-lg font-medium ${theme.text} mb-2`}>Loading document...</h3>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (documentError) {
+    return (
+      <div className="h-full flex flex-col bg-white">
+        {header}
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center max-w-md">
+            <h3 className={`text-lg font-semibold ${theme.text} mb-2`}>Error Loading Document</h3>
+            <p className="text-gray-600 mb-4">{documentError}</p>
+            <button
+              onClick={() => window.location.reload()}
+              className={`px-4 py-2 ${errorTheme.buttonPrimary} text-white rounded-md ${errorTheme.buttonPrimaryHover} transition-colors`}
+            >
+              Retry Loading Document
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      {header}
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="p-6">
+          <div className="max-w-6xl mx-auto space-y-4">
+
+            {/* Witnesses Grid */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-4">
+              {witnesses.map(witness => (
+                <WitnessCard
+                  key={witness.id}
+                  witness={witness}
+                  isEditing={editingId === witness.id}
+                  onToggleEdit={toggleEditMode}
+                  onUpdate={updateWitness}
+                  onRemove={removeWitness}
+                  onExitEdit={finishEditing}
+                />
+              ))}
+
+              {/* Add Witness Card */}
+              <AddWitnessCard onAdd={addWitness} />
+            </div>
+
+            {/* Requirements Notice */}
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+              <h4 className="text-sm font-medium text-yellow-800 mb-2">Witness Requirements</h4>
+              <ul className="text-sm text-yellow-700 space-y-1">
+                <li>• Witnesses must be at least 18 years old</li>
+                <li>• Witnesses should be independent parties (not beneficiaries)</li>
+                <li>• All witnesses must be present during document signing</li>
+                <li>• Valid identification will be required from all witnesses</li>
+              </ul>
+            </div>
+
+            {/* Add bottom padding to ensure content is not hidden by footer */}
+            <div className="pb-20"></div>
+
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Witnesses;
@@ -0,0 +1,177 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useMetadataSubscription } from '../../../hooks/useMetadataSubscription';
+import { useEntityHistory } from '../../../context/EntityContext';
+import { EntityStore } from '../../../middleware/EntityStore';
+import { WebSocketHub } from '../../../middleware/WebSocketHub';
+import { MetadataMessage } from '../../../middleware/MetadataMessageRouter';
+import { ActivityLogMessage } from '../../../types/messages';
+import { useDocumentData } from '../components/representatives/hooks/useDocumentData';
+import { ActivityData } from '../components/representatives/types/representative.types';
+import { Document } from '../services/DocumentService';
+
+export type DocumentSection = 'conditions' | 'witnesses';
+
+export type SectionSaveStatus = 'idle' | 'saving' | 'saved' | 'failed';
+
+interface AgentDocumentSectionOptions<T> {
+  section: DocumentSection;
+  /** Bot that owns the section: it receives saves and reports changes with ActivityLog */
+  agentId: string;
+  /** messageType of the save request, answered with an ActivityLog */
+  updateMessageType: string;
+  /** Turn an item from the document or an audit result into an editable item */
+  normalize: (item: any) => T;
+}
+
+/**
+ * Editable copy of one list on the current document (conditions, witnesses), kept in line with
+ * the document and with the section bot's ActivityLog updates, and saved through that bot.
+ */
+export const useAgentDocumentSection = <T,>({ section, agentId, updateMessageType, normalize }: AgentDocumentSectionOptions<T>) => {
+  const [items, setItems] = useState<T[]>([]);
+  const [latestActivity, setLatestActivity] = useState<ActivityData | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SectionSaveStatus>('idle');
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const normalizeRef = useRef(normalize);
+  normalizeRef.current = normalize;
+  const isDirtyRef = useRef(isDirty);
+  isDirtyRef.current = isDirty;
+
+  const {
+    documentId,
+    document,
+    loading: documentLoading,
+    error: documentError,
+    connectionStatus: documentConnectionStatus
+  } = useDocumentData();
+
+  // Let the user take back the latest change an agent made to the document
+  const { latestVersion, canRevert, revert } = useEntityHistory<Document>(document?.id);
+  const canRevertAgentChange = canRevert && latestVersion?.source === 'agent';
+  const lastAgentChange = canRevertAgentChange ? latestVersion?.label : undefined;
+
+  // Follow the stored document while there are no local edits; keep the user's edits otherwise.
+  // Agent updates, undo and other tabs all land here, and every ActivityLog rebuilds the document.
+  const documentItems = document?.[section];
+  useEffect(() => {
+    if (!isDirtyRef.current) {
+      setItems((documentItems || []).map(item => normalizeRef.current(item)));
+    }
+  }, [documentItems]);
+
+  const handleActivityLog = useCallback((message: MetadataMessage) => {
+    const activity = message as ActivityLogMessage;
+    console.log(`[useAgentDocumentSection] ActivityLog for ${section}:`, activity.summary);
+
+    setLatestActivity({
+      summary: activity.summary,
+      details: activity.details,
+      success: activity.success,
+      timestamp: activity.timestamp
+    });
+
+    // Document updates arrive through the store (DocumentService); audit data only comes through here
+    const auditItems = activity.auditResult?.data?.[section];
+    if (!activity.auditResult?.document && Array.isArray(auditItems) && !isDirtyRef.current) {
+      setItems(auditItems.map(item => normalizeRef.current(item)));
+    }
+  }, [section]);
+
+  useMetadataSubscription({
+    subscriberId: `${section}_section`,
+    messageTypes: ['ActivityLog'],
+    agentId,
+    // Steps are lazy-loaded; catch up on activity that arrived before this one mounted
+    replay: { latestPerDocument: true },
+    onMessage: handleActivityLog
+  });
+
+  /**
+   * Change the local copy; nothing reaches the agent until save()
+   */
+  const editItems = useCallback((update: (items: T[]) => T[]) => {
+    setItems(update);
+    setIsDirty(true);
+    setSaveStatus('idle');
+  }, []);
+
+  /**
+   * Send the items to the section's bot and wait for its ActivityLog. The document is updated
+   * from the reply when it carries one, otherwise with the saved items. Resolves false (with
+   * saveError set) on failure.
+   */
+  const save = useCallback(async (toSave: T[] = items): Promise<boolean> => {
+    if (!documentId || documentId === 'new') {
+      setSaveStatus('failed');
+      setSaveError('Open a saved document before saving');
+      return false;
+    }
+
+    setSaveStatus('saving');
+    setSaveError(null);
+
+    try {
+      const reply = await WebSocketHub.getInstance().request<ActivityLogMessage>(
+        agentId,
+        { messageType: updateMessageType, documentId, [section]: toSave },
+        { responseType: 'ActivityLog', timeout: 30000 }
+      );
+
+      if (reply.success === false) {
+        throw new Error(reply.details || reply.summary || `The agent did not accept the ${section}`);
+      }
+
+      // Without a document in the reply the store would still hold the old list
+      if (!reply.auditResult?.document) {
+        EntityStore.getInstance().groupHistory(`Saved ${section}`, () => {
+          EntityStore.getInstance().updateEntityInCategory<Document>('poa', documentId, { [section]: toSave });
+        }, 'user');
+      }
+
+      console.log(`[useAgentDocumentSection] Saved ${toSave.length} ${section} for document ${documentId}`);
+      setIsDirty(false);
+      setSaveStatus('saved');
+      return true;
+    } catch (error) {
+      console.error(`[useAgentDocumentSection] Failed to save ${section}:`, error);
+      setSaveStatus('failed');
+      setSaveError(error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  }, [items, documentId, agentId, updateMessageType, section]);
+
+  /**
+   * Jump the document back to the version before the agent's change and send that list to
+   * the bot, so the agent's side is reverted too. Local edits are dropped.
+   */
+  const revertAgentChange = useCallback(async (): Promise<boolean> => {
+    if (!document || !revert()) {
+      return false;
+    }
+
+    const reverted = EntityStore.getInstance().getEntity<Document>(document.id)?.[section] || [];
+    const revertedItems = reverted.map(item => normalizeRef.current(item));
+    setItems(revertedItems);
+    setIsDirty(false);
+    return save(revertedItems);
+  }, [document, revert, section, save]);
+
+  return {
+    items,
+    editItems,
+    latestActivity,
+    isDirty,
+    saveStatus,
+    saveError,
+    save,
+    canRevertAgentChange,
+    lastAgentChange,
+    revertAgentChange,
+    document,
+    documentLoading,
+    documentError,
+    documentConnectionStatus
+  };
+};
@@ -1,6 +1,7 @@
 import { EntityStore } from '../../../middleware/EntityStore';
 import { WebSocketHub } from '../../../middleware/WebSocketHub';
 import { getAgentById } from '../steps';
+import { ActivityLogMessage, DocumentResponseMessage } from '../../../types/messages';
 
 export interface Document {
   id: string;
@@ -46,11 +47,6 @@ export class DocumentService {
   private static instance: DocumentService | null = null;
   private entityStore: EntityStore;
   private webSocketHub: WebSocketHub;
-  private pendingRequests: Map<string, {
-    resolve: (document: Document) => void;
-    reject: (error: Error) => void;
-    timeout: number;
-  }> = new Map();
   private unsubscribeFromMetadata?: () => void;
 
   private constructor() {
@@ -58,8 +54,8 @@ export class DocumentService {
     this.webSocketHub = WebSocketHub.getInstance();
     console.log('[DocumentService] Instance created');
     
-    // Subscribe to document response metadata messages
-    this.subscribeToDocumentResponses();
+    // Subscribe to document update metadata messages
+    this.subscribeToActivityLogs();
     
     // Automatically fetch document from URL (with connection readiness check)
     this.initializeFromURL();
@@ -217,135 +213,85 @@ export class DocumentService {
       return cachedDocument;
     }
 
-    return new Promise((resolve, reject) => {
-      // Create unique request ID
-      const requestId = `fetch_document_${documentId}_${Date.now()}`;
-
-      // Set up timeout
-      const timeout = setTimeout(() => {
-        this.pendingRequests.delete(requestId);
-        reject(new Error(`Document fetch timeout for ID: ${documentId}`));
-      }, 30000); // 30 second timeout
-
-      // Store request
-      this.pendingRequests.set(requestId, { resolve, reject, timeout });
-
-      // Send message to fetch document
-      const metadata = {
-          messageType: 'FetchDocument',
-          documentId: documentId,
-          requestId: requestId
-        };
-
-      this.webSocketHub.sendMetadataToAgent(metadata, 'document_data_flow')
-        .then(() => {
-          console.log(`[DocumentService] Document fetch request sent for ID: ${documentId}`);
-        })
-        .catch((error) => {
-          this.pendingRequests.delete(requestId);
-          clearTimeout(timeout);
-          reject(new Error(`Failed to send document fetch request: ${error.message}`));
-        });
-    });
+    const response = await this.webSocketHub.request<DocumentResponseMessage>(
+      'document_data_flow',
+      {
+        messageType: 'FetchDocument',
+        documentId: documentId
+      },
+      { responseType: 'DocumentResponse', timeout: 30000 }
+    );
+
+    return this.storeDocumentResponse(response);
   }
 
   /**
-   * Subscribe to document response metadata messages from WebSocket
+   * Subscribe to document update metadata messages from WebSocket
    */
-  private subscribeToDocumentResponses(): void {
+  private subscribeToActivityLogs(): void {
     this.unsubscribeFromMetadata = this.webSocketHub.subscribeToMetadata(
       'document_service',
-      ['DocumentResponse', 'ActivityLog'], // Listen for these message types
-      (message) => {
-        console.log('[DocumentService] Received metadata message:', message);
-        if (message.messageType === 'ActivityLog') {
-          console.log('[DocumentService] Received ActivityLog message:', message);
-          this.handleActivityLog(message);
-        } else {
-          this.handleDocumentResponse(message);
-        }
+      ['ActivityLog'], // DocumentResponse replies are matched by WebSocketHub.request
+      (message: ActivityLogMessage) => {
+        console.log('[DocumentService] Received ActivityLog message:', message);
+        this.handleActivityLog(message);
       }
     );
-    console.log('[DocumentService] Subscribed to document response metadata messages');
+    console.log('[DocumentService] Subscribed to document update metadata messages');
   }
 
   /**
-   * Handle document response from WebSocket
+   * Transform a DocumentResponse into a POA document and store it
    */
-  private handleDocumentResponse(metadata: any): void {
-    try {
-      const { messageType, requestId } = metadata;
-
-      if (messageType !== 'DocumentResponse') {
-        console.warn(`[DocumentService] Received unexpected message type: ${messageType}`);
-        return;
-      }
-      if (!requestId || !this.pendingRequests.has(requestId)) {
-        console.warn(`[DocumentService] Received response for unknown request: ${requestId}`);
-        return;
-      }
-
-      const { auditResult } = metadata;
-
-      const request = this.pendingRequests.get(requestId)!;
-      clearTimeout(request.timeout);
-      this.pendingRequests.delete(requestId);
-
-      // Transform server response to POADocument format
-      const rawDocument = auditResult.document;
-      console.log('[DocumentService] Raw document from server:', rawDocument);
-
-      // Get documentId from URL or from the document itself
-      const urlDocumentId = this.extractDocumentIdFromURL();
-      const serverDocumentId = rawDocument?.documentId || rawDocument?.id;
-      const documentId = urlDocumentId || serverDocumentId;
-
-      if (!documentId) {
-        console.error('[DocumentService] No documentId found in URL or server response');
-        request.reject(new Error('No documentId found'));
-        return;
-      }
+  private storeDocumentResponse(metadata: DocumentResponseMessage): Document {
+    const { auditResult } = metadata;
 
-      // Ensure document has required properties with proper types
-      const poaDocument: Document = {
-        id: rawDocument?.id || documentId,
-        documentId: documentId,
-        type: 'poa_document',
-        title: rawDocument?.title || 'Untitled Document',
-        content: rawDocument?.content || {},
-        status: rawDocument?.status || 'draft',
-        createdAt: rawDocument?.createdAt ? new Date(rawDocument.createdAt) : new Date(),
-        updatedAt: rawDocument?.updatedAt ? new Date(rawDocument.updatedAt) : new Date(),
-        version: rawDocument?.version || 1,
-        metadata: rawDocument?.metadata,
-        principal: rawDocument?.principal,
-        scope: rawDocument?.scope,
-        representatives: rawDocument?.representatives || [],
-        conditions: rawDocument?.conditions || [],
-        witnesses: rawDocument?.witnesses || []
-      };
-
-      // Store in EntityStore under 'poa' category
-      this.entityStore.addEntityToCategory('poa', documentId, poaDocument);
+    // Transform server response to POADocument format
+    const rawDocument = auditResult.document;
+    console.log('[DocumentService] Raw document from server:', rawDocument);
 
-      console.log(`[DocumentService] Document received and stored: ${poaDocument.documentId}`);
-      request.resolve(poaDocument);
+    // Get documentId from URL or from the document itself
+    const urlDocumentId = this.extractDocumentIdFromURL();
+    const serverDocumentId = rawDocument?.documentId || rawDocument?.id;
+    const documentId = urlDocumentId || serverDocumentId;
 
-    } catch (error) {
-      console.error('[DocumentService] Error handling document response:', error);
-      // Find and reject any pending request if we can't determine which one failed
-      const firstPendingRequest = Array.from(this.pendingRequests.values())[0];
-      if (firstPendingRequest) {
-        clearTimeout(firstPendingRequest.timeout);
-        firstPendingRequest.reject(new Error(`Document parsing error: ${error}`));
-      }
+    if (!documentId) {
+      console.error('[DocumentService] No documentId found in URL or server response');
+      throw new Error('No documentId found');
     }
+
+    // Ensure document has required properties with proper types
+    const poaDocument: Document = {
+      id: rawDocument?.id || documentId,
+      documentId: documentId,
+      type: 'poa_document',
+      title: rawDocument?.title || 'Untitled Document',
+      content: rawDocument?.content || {},
+      status: rawDocument?.status || 'draft',
+      createdAt: rawDocument?.createdAt ? new Date(rawDocument.createdAt) : new Date(),
+      updatedAt: rawDocument?.updatedAt ? new Date(rawDocument.updatedAt) : new Date(),
+      version: rawDocument?.version || 1,
+      metadata: rawDocument?.metadata,
+      principal: rawDocument?.principal,
+      scope: rawDocument?.scope,
+      representatives: rawDocument?.representatives || [],
+      conditions: rawDocument?.conditions || [],
+      witnesses: rawDocument?.witnesses || []
+    };
+
+    // Store in EntityStore under 'poa' category
+    this.entityStore.groupHistory('Document loaded', () => {
+      this.entityStore.addServerEntityToCategory('poa', documentId, poaDocument);
+    }, 'system');
+
+    console.log(`[DocumentService] Document received and stored: ${poaDocument.documentId}`);
+    return poaDocument;
   }
 
   /**
    * Handle ActivityLog messages from WebSocket
    */
-  private handleActivityLog(metadata: any): void {
+  private handleActivityLog(metadata: ActivityLogMessage): void {
     try {
       const { messageType, summary, details, auditResult, success, timestamp, requestId } = metadata;
 
@@ -402,11 +348,29 @@ export class DocumentService {
             witnesses: rawDocument?.witnesses || existingDocument?.witnesses || []
           };
 
-          // Store/update in EntityStore under 'poa' category
-          this.entityStore.addEntityToCategory('poa', documentId, updatedDocument);
+          if (existingDocument) {
+            // Go through conflict detection, so an agent update based on an older version
+            // does not silently overwrite local edits
+            const baseVersion = auditResult.baseVersion ?? (rawDocument.version !== undefined ? rawDocument.version - 1 : undefined);
+            const { id, createdAt, updatedAt, version, metadata, ...changes } = updatedDocument;
+            // The activity bookkeeping only rides along with an update that applies
+            const isCurrent = baseVersion === undefined || baseVersion >= (existingDocument.version || 0);
+            const result = this.entityStore.groupHistory(summary || 'Agent update', () => {
+              return this.entityStore.applyRemoteUpdate<Document>(id, isCurrent ? { ...changes, metadata } : changes, baseVersion);
+            }, 'agent');
+
+            if (result === 'conflict') {
+              console.warn(`[DocumentService] Agent update conflicts with local edits to ${documentId} (base ${baseVersion}, stored ${existingDocument.version})`);
+              return;
+            }
+          } else {
+            // Store in EntityStore under 'poa' category as one undoable agent change, at the server's version
+            this.entityStore.groupHistory(summary || 'Agent update', () => {
+              this.entityStore.addServerEntityToCategory('poa', documentId, { ...updatedDocument, version: rawDocument.version || 1 });
+            }, 'agent');
+          }
 
           console.log(`[DocumentService] Document updated from ActivityLog: ${documentId}`, {
-            version: updatedDocument.version,
             representativesCount: updatedDocument.representatives?.length || 0,
             conditionsCount: updatedDocument.conditions?.length || 0,
             witnessesCount: updatedDocument.witnesses?.length || 0
@@ -490,10 +454,9 @@ export class DocumentService {
       });
     });
     
-    // Log document categories
-    const docCategories = this.entityStore.getAllDocumentCategories();
-    console.log(`[DocumentService] Document categories: ${docCategories.length}`);
-    docCategories.forEach(({ category, documents }) => {
+    // Log documents per category
+    this.entityStore.getCategoryNames().forEach(category => {
+      const documents = this.entityStore.getEntities<Document>({ category, type: 'poa_document' });
       console.log(`[DocumentService] - Doc Category '${category}': ${documents.length} documents`);
     });
     
@@ -530,51 +493,20 @@ export class DocumentService {
       return document;
     }
 
-    // 3. Search by type using getEntitiesByType
-    const allPoaDocuments = this.entityStore.getEntitiesByType<Document>('poa_document');
-    const foundByType = allPoaDocuments.find(doc => 
-      doc.documentId === documentId || doc.id === documentId
-    );
-    if (foundByType) {
-      console.log(`[DocumentService] Found document using getEntitiesByType: ${documentId}`);
-      return foundByType;
-    }
-
-    // 4. Search by documentId property in all entities of type 'poa_document' using getEntities
-    const poaDocuments = this.entityStore.getEntities<Document>({
-      type: 'poa_document',
-      filter: (entity) => (entity as Document).documentId === documentId
-    });
-    
-    if (poaDocuments.length > 0) {
-      console.log(`[DocumentService] Found document by documentId property: ${documentId}`);
-      return poaDocuments[0];
+    // 3. Look up by documentId property through the store's index
+    const [indexed] = this.entityStore.getEntitiesByIndex<Document>('documentId', documentId)
+      .filter(entity => entity.type === 'poa_document');
+    if (indexed) {
+      console.log(`[DocumentService] Found document by documentId index: ${documentId}`);
+      return indexed;
     }
 
-    // 5. Search across all categories for document-like entities
-    const allCategories = this.entityStore.getAllCategories();
-    for (const [categoryName, categoryMap] of allCategories) {
-      for (const [key, entity] of categoryMap) {
-        const potentialDoc = entity as any;
-        if (
-          (potentialDoc.type === 'poa_document' || potentialDoc.documentId || potentialDoc.title) &&
-          (potentialDoc.documentId === documentId || potentialDoc.id === documentId || key === documentId)
-        ) {
-          console.log(`[DocumentService] Found document in category '${categoryName}' with key '${key}': ${documentId}`);
-          return potentialDoc as Document;
-        }
-      }
-    }
-
-    // 6. Search using document categories helper
-    const documentCategories = this.entityStore.getAllDocumentCategories();
-    for (const { category, documents } of documentCategories) {
-      const foundDoc = documents.find((doc: any) => 
-        doc.documentId === documentId || doc.id === documentId
-      );
-      if (foundDoc) {
-        console.log(`[DocumentService] Found document via getAllDocumentCategories in '${category}': ${documentId}`);
-        return foundDoc as Document;
+    // 4. Documents filed under this key in any other category
+    for (const category of this.entityStore.getCategoryNames()) {
+      const filed = this.entityStore.getEntityFromCategory<Document>(category, documentId);
+      if (filed?.type === 'poa_document') {
+        console.log(`[DocumentService] Found document in category '${category}': ${documentId}`);
+        return filed;
       }
     }
 
@@ -587,12 +519,6 @@ export class DocumentService {
    */
   public clearCache(): void {
     this.entityStore.clearCategory('poa');
-    // Clear any pending requests
-    this.pendingRequests.forEach(({ timeout, reject }) => {
-      clearTimeout(timeout);
-      reject(new Error('Service cache cleared'));
-    });
-    this.pendingRequests.clear();
   }
 
   /**
@@ -0,0 +1,216 @@
+import { EntityStore } from '../../../middleware/EntityStore';
+import { WebSocketHub } from '../../../middleware/WebSocketHub';
+import {
+  AuditData,
+  AuditResultEntity,
+  SubmissionMethod,
+  SubmissionReceiptEntity,
+  createAuditResultEntity,
+  createSubmissionReceiptEntity
+} from '../../../types/entities';
+import {
+  ActivityLogMessage,
+  AuditResultPayload,
+  ProgressMessage,
+  StatusMessage,
+  SubmissionResultMessage
+} from '../../../types/messages';
+
+const SUBMISSION_AGENT_ID = 'document_data_flow';
+
+// Finding types sent by the audit (see AUDIT_INTEGRATION.md)
+const FINDING_ERROR = 0;
+const FINDING_WARNING = 1;
+const FINDING_RECOMMENDATION = 2;
+const FINDING_INFORMATION = 3;
+
+export interface SubmissionRequest {
+  documentId: string;
+  submissionMethod: SubmissionMethod;
+  recipients: string[];
+  notes?: string;
+}
+
+export class SubmissionService {
+  private static instance: SubmissionService | null = null;
+  private entityStore: EntityStore;
+  private webSocketHub: WebSocketHub;
+
+  private constructor() {
+    this.entityStore = EntityStore.getInstance();
+    this.webSocketHub = WebSocketHub.getInstance();
+    console.log('[SubmissionService] Instance created');
+  }
+
+  public static getInstance(): SubmissionService {
+    if (SubmissionService.instance === null) {
+      SubmissionService.instance = new SubmissionService();
+    }
+    return SubmissionService.instance;
+  }
+
+  /**
+   * Run the final audit and, when it has no errors, submit the document.
+   * Every stage is recorded on a submission_receipt entity, which is returned in its final state.
+   */
+  public async submit(request: SubmissionRequest): Promise<SubmissionReceiptEntity> {
+    const receipt = createSubmissionReceiptEntity({
+      documentId: request.documentId,
+      status: 'auditing',
+      submissionMethod: request.submissionMethod,
+      recipients: request.recipients,
+      notes: request.notes || undefined,
+      progress: { percentage: 0, label: 'Running final audit' }
+    });
+    this.entityStore.withoutHistory(() => this.entityStore.addEntity(receipt));
+
+    try {
+      const audit = await this.runFinalAudit(request.documentId);
+      if (audit.hasErrors) {
+        console.warn(`[SubmissionService] Submission of ${request.documentId} blocked by ${audit.errors.length} audit error(s)`);
+        return this.updateReceipt(receipt.id, {
+          status: 'blocked',
+          auditResultId: audit.id,
+          blockingFindings: audit.errors,
+          progress: undefined
+        });
+      }
+
+      this.updateReceipt(receipt.id, {
+        status: 'submitting',
+        auditResultId: audit.id,
+        progress: { percentage: 0, label: 'Sending to agent' }
+      });
+
+      const result = await this.sendSubmission(receipt.id, request);
+      if (!result.success) {
+        throw new Error(result.error || 'The agent did not accept the submission');
+      }
+
+      console.log(`[SubmissionService] Document ${request.documentId} submitted`, result.reference);
+      return this.updateReceipt(receipt.id, {
+        status: 'submitted',
+        reference: result.reference || undefined,
+        submittedAt: result.submittedAt ? new Date(result.submittedAt) : new Date(),
+        progress: { percentage: 100, label: 'Submitted' }
+      });
+    } catch (error) {
+      console.error('[SubmissionService] Submission failed:', error);
+      return this.updateReceipt(receipt.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Most recent receipt for a document, if it was ever submitted from this workspace
+   */
+  public getLatestReceipt(documentId: string): SubmissionReceiptEntity | undefined {
+    return this.entityStore.getEntities<SubmissionReceiptEntity>({
+      type: 'submission_receipt',
+      where: { field: 'documentId', eq: documentId },
+      orderBy: [{ field: 'createdAt', direction: 'desc' }],
+      limit: 1
+    })[0];
+  }
+
+  /**
+   * Ask the agent to audit the saved document and store the result as an audit_result entity
+   */
+  private async runFinalAudit(documentId: string): Promise<AuditResultEntity> {
+    const reply = await this.webSocketHub.request<ActivityLogMessage>(
+      SUBMISSION_AGENT_ID,
+      { messageType: 'AuditDocument', documentId },
+      { responseType: 'ActivityLog', timeout: 60000 }
+    );
+
+    if (reply.success === false) {
+      throw new Error(reply.details || reply.summary || 'The final audit could not be run');
+    }
+    if (!reply.auditResult) {
+      throw new Error('The agent did not return an audit result');
+    }
+
+    const audit = this.toAuditResultEntity(documentId, reply.auditResult);
+    this.entityStore.groupHistory('Final audit', () => this.entityStore.addEntity(audit), 'agent');
+    console.log(`[SubmissionService] Final audit for ${documentId}: ${audit.findings.length} finding(s)`);
+    return audit;
+  }
+
+  /**
+   * Send SubmitDocument and mirror the agent's progress messages onto the receipt until it answers
+   */
+  private async sendSubmission(receiptId: string, request: SubmissionRequest): Promise<SubmissionResultMessage> {
+    const requestId = `SubmitDocument_${crypto.randomUUID()}`;
+
+    const unsubscribe = this.webSocketHub.subscribeToMetadata(
+      `submission_progress_${requestId}`,
+      ['PROGRESS', 'PROGRESS_UPDATE', 'STATUS_UPDATE'],
+      (message: ProgressMessage | StatusMessage) => {
+        if (message.requestId !== requestId) return;
+
+        const current = this.entityStore.getEntity<SubmissionReceiptEntity>(receiptId);
+        const { data } = message;
+        // Status updates only relabel the current stage
+        const progress = 'percentage' in data
+          ? { percentage: Math.max(0, Math.min(100, data.percentage)), label: data.label ?? current?.progress?.label }
+          : { percentage: current?.progress?.percentage ?? 0, label: data.details || data.status };
+        this.updateReceipt(receiptId, { progress });
+      },
+      { agentId: SUBMISSION_AGENT_ID }
+    );
+
+    try {
+      return await this.webSocketHub.request<SubmissionResultMessage>(
+        SUBMISSION_AGENT_ID,
+        {
+          messageType: 'SubmitDocument',
+          requestId,
+          documentId: request.documentId,
+          submissionMethod: request.submissionMethod,
+          recipients: request.recipients,
+          notes: request.notes || undefined
+        },
+        { responseType: 'SubmissionResult', timeout: 120000 }
+      );
+    } finally {
+      unsubscribe();
+    }
+  }
+
+  private toAuditResultEntity(documentId: string, payload: AuditResultPayload): AuditResultEntity {
+    const findings = payload.findings || [];
+    const ofType = (type: number) => findings.filter(finding => finding.type === type);
+    const errors = ofType(FINDING_ERROR);
+    const warnings = ofType(FINDING_WARNING);
+    const recommendations = ofType(FINDING_RECOMMENDATION);
+    const information = ofType(FINDING_INFORMATION);
+
+    return createAuditResultEntity({
+      documentId,
+      findings,
+      errors,
+      warnings,
+      recommendations,
+      information,
+      isSuccess: payload.isSuccess ?? errors.length === 0,
+      // Trust the findings over the flag so a missing hasErrors cannot let errors through
+      hasErrors: errors.length > 0 || payload.hasErrors === true,
+      hasWarnings: warnings.length > 0,
+      hasRecommendations: recommendations.length > 0,
+      hasInformation: information.length > 0,
+      data: { representatives: [], conditions: [], witnesses: [], ...payload.data } as AuditData
+    });
+  }
+
+  /**
+   * Receipts record what happened, so their writes stay out of the undo journal
+   */
+  private updateReceipt(receiptId: string, updates: Partial<SubmissionReceiptEntity>): SubmissionReceiptEntity {
+    this.entityStore.withoutHistory(() => {
+      this.entityStore.updateEntity<SubmissionReceiptEntity>(receiptId, updates);
+    });
+    return this.entityStore.getEntity<SubmissionReceiptEntity>(receiptId) as SubmissionReceiptEntity;
+  }
+}
@@ -0,0 +1,74 @@
+import { PrintableDocument, PrintableItem, PrintableSection } from './pdf.types';
+
+const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const STYLES = `
+  @page { size: A4; margin: 20mm 20mm 24mm; }
+  body { font-family: Helvetica, Arial, sans-serif; color: #111; max-width: 170mm; margin: 0 auto; padding: 24px 0 64px; font-size: 11pt; line-height: 1.45; }
+  h1 { font-size: 22pt; margin: 0; }
+  h2 { font-size: 13pt; margin: 24px 0 8px; break-after: avoid; }
+  .muted { color: #666; font-size: 9pt; margin: 2px 0; }
+  .item { margin: 0 0 10px; break-inside: avoid; }
+  .item p { margin: 2px 0 2px 14px; }
+  .signature { display: flex; justify-content: space-between; gap: 32px; margin-top: 40px; break-inside: avoid; }
+  .signature .line { border-top: 1px solid #111; padding-top: 4px; }
+  footer { border-top: 1px solid #bbb; margin-top: 40px; padding-top: 6px; color: #777; font-size: 7.5pt; word-break: break-all; }
+  .toolbar { text-align: right; }
+  @media print {
+    .toolbar { display: none; }
+    body { padding: 0; }
+    footer { position: fixed; bottom: 0; left: 0; right: 0; margin: 0; background: #fff; }
+  }
+`;
+
+const renderItem = (item: PrintableItem): string => `
+  <div class="item">
+    <strong>${escapeHtml(item.heading)}</strong>
+    ${item.text ? `<p>${escapeHtml(item.text)}</p>` : ''}
+    ${item.fields.map(field => `<p>${escapeHtml(field.label)}: ${escapeHtml(field.value)}</p>`).join('')}
+  </div>`;
+
+const renderSection = (section: PrintableSection): string => {
+  const isEmpty = section.paragraphs.length === 0 && section.items.length === 0;
+  return `
+  <section>
+    <h2>${escapeHtml(section.title)}</h2>
+    ${section.paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('')}
+    ${section.items.map(renderItem).join('')}
+    ${isEmpty && section.emptyText ? `<p class="muted">${escapeHtml(section.emptyText)}</p>` : ''}
+  </section>`;
+};
+
+/**
+ * Standalone, print-friendly HTML page for the printable document
+ */
+export const renderHtml = (printable: PrintableDocument): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(printable.title)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <div class="toolbar"><button onclick="window.print()">Print</button></div>
+  <h1>${escapeHtml(printable.title)}</h1>
+  <p class="muted">${escapeHtml(printable.reference)}</p>
+  <p class="muted">Generated ${escapeHtml(printable.generatedAt.toLocaleString())}</p>
+  ${printable.sections.map(renderSection).join('')}
+  <section>
+    <h2>Signatures</h2>
+    ${printable.signatures.map(signature => `
+    <div class="signature">
+      <div class="line" style="flex: 2"><strong>${escapeHtml(signature.name)}</strong><div class="muted">${escapeHtml(signature.role)}</div></div>
+      <div class="line" style="flex: 1"><div class="muted">Date</div></div>
+    </div>`).join('')}
+  </section>
+  <footer>SHA-256 ${escapeHtml(printable.hash)}</footer>
+</body>
+</html>
+`;
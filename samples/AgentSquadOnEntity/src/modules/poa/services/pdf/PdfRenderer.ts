@@ -0,0 +1,101 @@
+import { PdfWriter, PAGE_WIDTH, PAGE_HEIGHT } from './PdfWriter';
+import { PdfTextStyle, PrintableDocument, PrintableItem } from './pdf.types';
+import { measureText, wrapText } from './pdf.utils';
+
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_BOTTOM = MARGIN + 20; // Space below is the footer
+const INDENT = 14;
+
+const TITLE: PdfTextStyle = { size: 20, bold: true };
+const SECTION: PdfTextStyle = { size: 13, bold: true };
+const BODY: PdfTextStyle = { size: 10.5 };
+const BODY_BOLD: PdfTextStyle = { size: 10.5, bold: true };
+const MUTED: PdfTextStyle = { size: 9, gray: 0.4 };
+const FOOTER: PdfTextStyle = { size: 7, gray: 0.45 };
+
+const SIGNATURE_HEIGHT = 72;
+const SIGNATURE_LINE_WIDTH = 230;
+
+/**
+ * Lay the printable document out on A4 pages. Headings and signature blocks are kept
+ * with what follows them; every page gets the document hash and page number in its footer.
+ */
+export const renderPdf = (printable: PrintableDocument): Uint8Array => {
+  const writer = new PdfWriter(printable.title, printable.generatedAt);
+  let page = writer.addPage();
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const leadingOf = (style: PdfTextStyle) => style.size * 1.4;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < CONTENT_BOTTOM) {
+      page = writer.addPage();
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  const writeText = (text: string, style: PdfTextStyle, indent: number = 0, spaceAfter: number = 0) => {
+    const leading = leadingOf(style);
+    wrapText(text, CONTENT_WIDTH - indent, style).forEach(line => {
+      ensureSpace(leading);
+      y -= leading;
+      if (line) writer.drawText(page, line, MARGIN + indent, y, style);
+    });
+    y -= spaceAfter;
+  };
+
+  const writeItem = (item: PrintableItem) => {
+    // Keep the heading with its first line
+    ensureSpace(leadingOf(BODY_BOLD) + leadingOf(BODY));
+    writeText(item.heading, BODY_BOLD);
+    if (item.text) writeText(item.text, BODY, INDENT);
+    item.fields.forEach(field => writeText(`${field.label}: ${field.value}`, BODY, INDENT));
+    y -= 8;
+  };
+
+  // Title block
+  writeText(printable.title, TITLE, 0, 2);
+  writeText(printable.reference, MUTED);
+  writeText(`Generated ${printable.generatedAt.toLocaleString()}`, MUTED, 0, 8);
+  writer.drawLine(page, MARGIN, y, PAGE_WIDTH - MARGIN, y, 0.75);
+  y -= 12;
+
+  printable.sections.forEach(section => {
+    ensureSpace(leadingOf(SECTION) + 6 + leadingOf(BODY) * 2);
+    writeText(section.title, SECTION, 0, 4);
+
+    section.paragraphs.forEach(paragraph => writeText(paragraph, BODY, 0, 6));
+    section.items.forEach(writeItem);
+    if (section.paragraphs.length === 0 && section.items.length === 0 && section.emptyText) {
+      writeText(section.emptyText, { ...BODY, gray: 0.4 }, 0, 6);
+    }
+    y -= 10;
+  });
+
+  // Signature blocks, one per signer
+  ensureSpace(leadingOf(SECTION) + 4 + SIGNATURE_HEIGHT);
+  writeText('Signatures', SECTION, 0, 4);
+  printable.signatures.forEach(signature => {
+    ensureSpace(SIGNATURE_HEIGHT);
+    y -= 40;
+    writer.drawLine(page, MARGIN, y, MARGIN + SIGNATURE_LINE_WIDTH, y);
+    writer.drawLine(page, PAGE_WIDTH - MARGIN - 140, y, PAGE_WIDTH - MARGIN, y);
+    y -= leadingOf(BODY_BOLD);
+    writer.drawText(page, signature.name, MARGIN, y, BODY_BOLD);
+    writer.drawText(page, 'Date', PAGE_WIDTH - MARGIN - 140, y, MUTED);
+    y -= leadingOf(MUTED);
+    writer.drawText(page, signature.role, MARGIN, y, MUTED);
+    y -= SIGNATURE_HEIGHT - 40 - leadingOf(BODY_BOLD) - leadingOf(MUTED);
+  });
+
+  // Footers need the final page count
+  for (let index = 0; index < writer.pageCount; index++) {
+    const pageLabel = `Page ${index + 1} of ${writer.pageCount}`;
+    writer.drawLine(index, MARGIN, MARGIN + 4, PAGE_WIDTH - MARGIN, MARGIN + 4, 0.5, 0.7);
+    writer.drawText(index, `SHA-256 ${printable.hash}`, MARGIN, MARGIN - 8, FOOTER);
+    writer.drawText(index, pageLabel, PAGE_WIDTH - MARGIN - measureText(pageLabel, FOOTER), MARGIN - 8, FOOTER);
+  }
+
+  return writer.toBytes();
+};
@@ -0,0 +1,119 @@
+import { PdfTextStyle } from './pdf.types';
+import { toPdfString } from './pdf.utils';
+
+// A4 in points
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+const format = (value: number): string => Number(value.toFixed(2)).toString();
+
+const toPdfDate = (date: Date): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+/**
+ * PdfWriter builds a PDF 1.4 file with the standard Helvetica fonts, so no font data is embedded.
+ * Coordinates are in points from the bottom-left corner of the page.
+ */
+export class PdfWriter {
+  private pages: string[][] = [];
+  private title: string;
+  private createdAt: Date;
+
+  constructor(title: string, createdAt: Date = new Date()) {
+    this.title = title;
+    this.createdAt = createdAt;
+  }
+
+  public get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Start a new page and return its index
+   */
+  public addPage(): number {
+    this.pages.push([]);
+    return this.pages.length - 1;
+  }
+
+  public drawText(pageIndex: number, text: string, x: number, y: number, style: PdfTextStyle): void {
+    const font = style.bold ? 'F2' : 'F1';
+    const gray = style.gray ?? 0;
+    this.getPage(pageIndex).push(
+      `BT ${format(gray)} g /${font} ${format(style.size)} Tf ${format(x)} ${format(y)} Td ${toPdfString(text)} Tj ET`
+    );
+  }
+
+  public drawLine(pageIndex: number, x1: number, y1: number, x2: number, y2: number, width: number = 0.5, gray: number = 0): void {
+    this.getPage(pageIndex).push(
+      `${format(gray)} G ${format(width)} w ${format(x1)} ${format(y1)} m ${format(x2)} ${format(y2)} l S`
+    );
+  }
+
+  /**
+   * Serialize the document. Every character is written as a single byte, so string offsets are byte offsets.
+   */
+  public toBytes(): Uint8Array {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+
+    const objects: string[] = [];
+    const addObject = (body: string): number => {
+      objects.push(body);
+      return objects.length;
+    };
+
+    const catalogId = addObject('');
+    const pagesId = addObject('');
+    const regularFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    const boldFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    const infoId = addObject(
+      `<< /Title ${toPdfString(this.title)} /Producer (AgentSquadOnEntity) /CreationDate (${toPdfDate(this.createdAt)}) >>`
+    );
+
+    const pageIds = this.pages.map(operations => {
+      const content = operations.join('\n');
+      const contentId = addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      return addObject(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${format(PAGE_WIDTH)} ${format(PAGE_HEIGHT)}] ` +
+        `/Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`
+      );
+    });
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    // Binary comment marks the file as 8-bit for transfer tools
+    let output = '%PDF-1.4\n%âãÏÓ\n';
+    const offsets = objects.map((body, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    offsets.forEach(offset => {
+      output += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+    });
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i) & 0xff;
+    }
+    return bytes;
+  }
+
+  private getPage(pageIndex: number): string[] {
+    const page = this.pages[pageIndex];
+    if (!page) {
+      throw new Error(`Page ${pageIndex} does not exist`);
+    }
+    return page;
+  }
+}
@@ -0,0 +1,108 @@
+import { Document } from '../DocumentService';
+import { getConditionTypeLabel } from '../../components/conditions/utils/condition.utils';
+import { getRelationshipLabel } from '../../components/witnesses/utils/witness.utils';
+import { PrintableDocument, PrintableSection, SignatureBlock } from './pdf.types';
+import { sha256Hex, stableStringify } from './pdf.utils';
+
+const NOT_SPECIFIED = 'Not specified';
+
+/**
+ * SHA-256 of the legal content only, so re-saving an unchanged document keeps the same hash
+ */
+export const getDocumentHash = (document: Document): Promise<string> => {
+  return sha256Hex(stableStringify({
+    documentId: document.documentId,
+    principal: document.principal || null,
+    scope: document.scope || '',
+    representatives: document.representatives || [],
+    conditions: document.conditions || [],
+    witnesses: document.witnesses || []
+  }));
+};
+
+const buildSections = (document: Document): PrintableSection[] => {
+  const { principal } = document;
+  const representatives = document.representatives || [];
+  const conditions = document.conditions || [];
+  const witnesses = document.witnesses || [];
+
+  const principalName = principal?.fullName || 'the principal';
+  const representativeName = (id?: string) => representatives.find(rep => rep.id === id)?.fullName;
+
+  return [
+    {
+      title: 'Principal',
+      paragraphs: [
+        `I, ${principalName}, grant the representatives named below the authority to act on my behalf ` +
+        'within the scope and subject to the conditions set out in this document.'
+      ],
+      items: [{
+        heading: principal?.fullName || NOT_SPECIFIED,
+        fields: [
+          { label: 'National ID', value: principal?.nationalId || NOT_SPECIFIED },
+          { label: 'Address', value: principal?.address || NOT_SPECIFIED }
+        ]
+      }]
+    },
+    {
+      title: 'Scope',
+      paragraphs: (document.scope || '').split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean),
+      items: [],
+      emptyText: 'No scope has been defined.'
+    },
+    {
+      title: 'Representatives',
+      paragraphs: [],
+      items: representatives.map((rep, index) => ({
+        heading: `${index + 1}. ${rep.fullName || NOT_SPECIFIED}`,
+        fields: [
+          { label: 'National ID', value: rep.nationalId || NOT_SPECIFIED },
+          { label: 'Relationship', value: rep.relationship || NOT_SPECIFIED }
+        ]
+      })),
+      emptyText: 'No representatives have been appointed.'
+    },
+    {
+      title: 'Conditions',
+      paragraphs: [],
+      items: conditions.map((condition, index) => ({
+        heading: `${index + 1}. ${getConditionTypeLabel(condition.type)}`,
+        text: condition.text,
+        fields: condition.targetId
+          ? [{ label: 'Applies to', value: representativeName(condition.targetId) || 'A representative no longer on this document' }]
+          : [{ label: 'Applies to', value: 'All representatives' }]
+      })),
+      emptyText: 'The authority is granted without further conditions.'
+    },
+    {
+      title: 'Witnesses',
+      paragraphs: [],
+      items: witnesses.map((witness, index) => ({
+        heading: `${index + 1}. ${witness.fullName || NOT_SPECIFIED}`,
+        fields: [
+          { label: 'National ID', value: witness.nationalId || NOT_SPECIFIED },
+          { label: 'Relationship', value: witness.relationship ? getRelationshipLabel(witness.relationship) : NOT_SPECIFIED }
+        ]
+      })),
+      emptyText: 'No witnesses have been named.'
+    }
+  ];
+};
+
+const buildSignatures = (document: Document): SignatureBlock[] => [
+  { name: document.principal?.fullName || NOT_SPECIFIED, role: 'Principal' },
+  ...(document.representatives || []).map(rep => ({ name: rep.fullName || NOT_SPECIFIED, role: 'Representative' })),
+  ...(document.witnesses || []).map(witness => ({ name: witness.fullName || NOT_SPECIFIED, role: 'Witness' }))
+];
+
+/**
+ * Describe a POA document for printing; shared by the PDF and HTML renderers
+ */
+export const buildPrintableDocument = async (document: Document, generatedAt: Date = new Date()): Promise<PrintableDocument> => ({
+  title: 'Power of Attorney',
+  reference: `Document ${document.documentId} · version ${document.version}`,
+  generatedAt,
+  sections: buildSections(document),
+  signatures: buildSignatures(document),
+  hash: await getDocumentHash(document)
+});
@@ -0,0 +1,58 @@
+import { Document } from '../DocumentService';
+import { buildPrintableDocument } from './PrintableDocument';
+import { renderPdf } from './PdfRenderer';
+import { renderHtml } from './HtmlRenderer';
+
+export { buildPrintableDocument, getDocumentHash } from './PrintableDocument';
+export { renderPdf } from './PdfRenderer';
+export { renderHtml } from './HtmlRenderer';
+export type { PrintableDocument } from './pdf.types';
+
+/**
+ * PDF Module Structure:
+ * 
+ * ├── PrintableDocument.ts                   - Document -> sections, signature blocks and content hash
+ * ├── PdfRenderer.ts                         - Paginated A4 layout with hash and page footers
+ * ├── PdfWriter.ts                           - Minimal PDF 1.4 writer (standard Helvetica fonts)
+ * ├── HtmlRenderer.ts                        - Standalone print-friendly HTML page
+ * ├── pdf.types.ts                           - Printable document and text style types
+ * └── pdf.utils.ts                           - Font metrics, wrapping, PDF strings and SHA-256
+ * 
+ * Everything runs in the browser; no document content leaves the page.
+ */
+
+export const createDocumentPdf = async (document: Document): Promise<Blob> => {
+  const printable = await buildPrintableDocument(document);
+  return new Blob([renderPdf(printable)], { type: 'application/pdf' });
+};
+
+export const downloadDocumentPdf = async (document: Document): Promise<void> => {
+  const url = URL.createObjectURL(await createDocumentPdf(document));
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = `power-of-attorney-${document.documentId}.pdf`;
+  link.click();
+  // Give the browser time to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+  console.log(`[downloadDocumentPdf] Downloaded PDF for document ${document.documentId}`);
+};
+
+/**
+ * Open the print view in a new tab. The tab is opened before rendering so popup blockers allow it.
+ */
+export const openDocumentPrintView = async (document: Document): Promise<void> => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('The print view was blocked by the browser');
+  }
+
+  try {
+    const html = renderHtml(await buildPrintableDocument(document));
+    printWindow.document.open();
+    printWindow.document.write(html);
+    printWindow.document.close();
+  } catch (error) {
+    printWindow.close();
+    throw error;
+  }
+};
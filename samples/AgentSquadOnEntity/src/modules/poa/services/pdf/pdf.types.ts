@@ -0,0 +1,39 @@
+// Format-neutral description of a document, rendered to PDF (PdfRenderer) and HTML (HtmlRenderer)
+
+export interface PrintableField {
+  label: string;
+  value: string;
+}
+
+export interface PrintableItem {
+  heading: string;
+  fields: PrintableField[];
+  text?: string;
+}
+
+export interface PrintableSection {
+  title: string;
+  paragraphs: string[];
+  items: PrintableItem[];
+  emptyText?: string; // Shown when the section has neither paragraphs nor items
+}
+
+export interface SignatureBlock {
+  name: string;
+  role: string;
+}
+
+export interface PrintableDocument {
+  title: string;
+  reference: string;
+  generatedAt: Date;
+  sections: PrintableSection[];
+  signatures: SignatureBlock[];
+  hash: string; // SHA-256 of the document content, hex encoded
+}
+
+export interface PdfTextStyle {
+  size: number;
+  bold?: boolean;
+  gray?: number; // 0 = black, 1 = white
+}
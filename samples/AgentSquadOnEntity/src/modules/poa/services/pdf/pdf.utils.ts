@@ -0,0 +1,121 @@
+import { PdfTextStyle } from './pdf.types';
+
+// Advance widths (1/1000 em) of the standard Helvetica fonts for characters 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Close enough for accented Latin-1 letters, which are not in the tables above
+const DEFAULT_WIDTH = 556;
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 128, '…': 133, '‘': 145, '’': 146, '“': 147,
+  '”': 148, '•': 149, '–': 150, '—': 151
+};
+
+/**
+ * WinAnsiEncoding code for a character; '?' when the standard fonts cannot show it
+ */
+export const toWinAnsiCode = (char: string): number => {
+  const code = char.charCodeAt(0);
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+  return WIN_ANSI_EXTRAS[char] ?? 63;
+};
+
+/**
+ * Text as a PDF literal string: escaped and with non-ASCII characters as octal codes
+ */
+export const toPdfString = (text: string): string => {
+  let result = '(';
+  for (const char of text.replace(/[\r\n\t]+/g, ' ')) {
+    const code = toWinAnsiCode(char);
+    if (char === '(' || char === ')' || char === '\\') {
+      result += `\\${char}`;
+    } else if (code > 126) {
+      result += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      result += String.fromCharCode(code);
+    }
+  }
+  return `${result})`;
+};
+
+export const measureText = (text: string, style: PdfTextStyle): number => {
+  const widths = style.bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of text) {
+    const code = toWinAnsiCode(char);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH;
+  }
+  return (total * style.size) / 1000;
+};
+
+/**
+ * Break text into lines no wider than maxWidth; words longer than a line are split
+ */
+export const wrapText = (text: string, maxWidth: number, style: PdfTextStyle): string[] => {
+  const lines: string[] = [];
+
+  text.split(/\r?\n/).forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, style) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+
+      line = '';
+      for (const char of word) {
+        if (line && measureText(line + char, style) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    });
+    lines.push(line);
+  });
+
+  return lines;
+};
+
+/**
+ * JSON with object keys sorted, so equal content always hashes the same
+ */
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -48,7 +48,8 @@ export const steps: StepDefinition[] = [
     title: "Scope",
     slug: "scope",
     theme: "purple",
-    componentLoader: () => import('./components/documentScope').then(m => m.default)
+    botId: "document_data_flow",
+    componentLoader: () => import('./components/scope/documentScope').then(m => m.default)
   },
   {
     title: "Representatives",
@@ -62,20 +63,20 @@ export const steps: StepDefinition[] = [
     slug: "conditions",
     theme: "lavender",
     botId: "condition_bot",
-    componentLoader: () => import('./components/conditions').then(m => m.default)
+    componentLoader: () => import('./components/conditions/conditions').then(m => m.default)
   },
   {
     title: "Witnesses",
     slug: "witnesses",
     theme: "blue",
     botId: "witness_bot",
-    componentLoader: () => import('./components/witnesses').then(m => m.default)
+    componentLoader: () => import('./components/witnesses/witnesses').then(m => m.default)
   },
   {
     title: "Submit",
     slug: "submit",
     theme: "green",
-    componentLoader:  () => import('./components/submitDocument').then(m => m.default)
+    componentLoader:  () => import('./components/submit/submitDocument').then(m => m.default)
   }
 ];
 
@@ -122,13 +122,35 @@ export interface AuditResultEntity extends BaseEntity {
   stepIndex?: number;
 }
 
+// Submission Receipt Entity (one per submission attempt of a document)
+export type SubmissionMethod = 'email' | 'download' | 'both';
+
+export interface SubmissionReceiptEntity extends BaseEntity {
+  type: 'submission_receipt';
+  documentId: string;
+  status: 'auditing' | 'blocked' | 'submitting' | 'submitted' | 'failed';
+  submissionMethod: SubmissionMethod;
+  recipients: string[];
+  notes?: string;
+  auditResultId?: string;
+  blockingFindings?: AuditFinding[];
+  progress?: {
+    percentage: number;
+    label?: string;
+  };
+  reference?: string;
+  submittedAt?: Date;
+  error?: string;
+}
+
 // Union type of all entity types
 export type AppEntity = 
   | DocumentEntity 
   | PersonEntity 
   | TaskEntity 
   | FindingEntity
-  | AuditResultEntity;
+  | AuditResultEntity
+  | SubmissionReceiptEntity;
 
 // Entity creation helpers
 export const createDocumentEntity = (data: Omit<DocumentEntity, 'id' | 'type' | 'createdAt' | 'updatedAt'>): DocumentEntity => ({
@@ -169,4 +191,12 @@ export const createAuditResultEntity = (data: Omit<AuditResultEntity, 'id' | 'ty
   createdAt: new Date(),
   updatedAt: new Date(),
   ...data
-}); 
\ No newline at end of file
+}); 
+
+export const createSubmissionReceiptEntity = (data: Omit<SubmissionReceiptEntity, 'id' | 'type' | 'createdAt' | 'updatedAt'>): SubmissionReceiptEntity => ({
+  id: crypto.randomUUID(),
+  type: 'submission_receipt',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...data
+});
\ No newline at end of file
@@ -17,8 +17,12 @@ export interface ChatMessage {
   threadId?: string;
   timestamp: Date;
   metadata?: any;
+  deliveryStatus?: DeliveryStatus; // Only set on messages sent from this client
+  isStreaming?: boolean; // True while an agent reply is still arriving in chunks
 }
 
+export type DeliveryStatus = 'pending' | 'sent' | 'failed';
+
 export type Message = ChatMessage;
 
 // Connection state
@@ -49,7 +53,7 @@ export interface OutboundMessage {
 }
 
 // Hub events
-export type HubEventType = 'message' | 'connection_change' | 'error' | 'thread_history';
+export type HubEventType = 'message' | 'message_update' | 'connection_change' | 'error' | 'thread_history' | 'outbox_update';
 
 export interface HubEvent {
   type: HubEventType;
@@ -84,13 +88,14 @@ export interface EntityState<T extends BaseEntity = BaseEntity> {
 }
 
 export interface EntityAction<T extends BaseEntity = BaseEntity> {
-  type: 'ADD' | 'UPDATE' | 'DELETE' | 'CLEAR' | 'SET_LOADING' | 'SET_ERROR';
+  type: 'ADD' | 'UPDATE' | 'DELETE' | 'CLEAR' | 'SET_LOADING' | 'SET_ERROR' | 'BATCH';
   payload?: {
     entity?: T;
     entities?: T[];
     entityId?: string;
     error?: string;
     loading?: boolean;
+    actions?: EntityAction<T>[]; // BATCH: the individual actions of a transaction, in order
   };
   timestamp: Date;
 }
@@ -99,22 +104,130 @@ export interface EntitySubscription {
   id: string;
   entityTypes?: string[];
   entityIds?: string[];
+  categories?: string[];
   callback: (entities: BaseEntity[], action: EntityAction) => void;
 }
 
 export interface EntityQueryOptions {
   type?: string;
+  category?: string;
   ids?: string[];
   filter?: (entity: BaseEntity) => boolean;
   sortBy?: keyof BaseEntity | ((entity: BaseEntity) => any);
   sortOrder?: 'asc' | 'desc';
+  where?: QueryCondition;
+  orderBy?: QueryOrder[]; // Takes precedence over sortBy
   limit?: number;
   offset?: number;
 }
 
+// Declarative queries: plain JSON, so agents can send them in metadata
+export type QueryValue = string | number | boolean | null;
+
+/**
+ * Comparisons on one field, given as a dotted path (e.g. 'data.principal.nationalId').
+ * Paths through arrays match when any element matches. All comparisons given must hold.
+ */
+export interface FieldPredicate {
+  field: string;
+  eq?: QueryValue;
+  ne?: QueryValue;
+  in?: QueryValue[];
+  gt?: QueryValue;
+  gte?: QueryValue;
+  lt?: QueryValue;
+  lte?: QueryValue;
+  contains?: QueryValue; // Substring (case-insensitive) or array element
+  exists?: boolean;
+}
+
+export type QueryCondition =
+  | FieldPredicate
+  | { and: QueryCondition[] }
+  | { or: QueryCondition[] }
+  | { not: QueryCondition };
+
+export interface QueryOrder {
+  field: string;
+  direction?: 'asc' | 'desc';
+}
+
+export interface EntityQuery {
+  type?: string;
+  category?: string;
+  ids?: string[];
+  where?: QueryCondition;
+  orderBy?: QueryOrder[];
+  groupBy?: string; // Field path whose values are counted over all matches
+  offset?: number;
+  limit?: number;
+}
+
+export interface EntityQueryResult<T extends BaseEntity = BaseEntity> {
+  entities: T[];
+  total: number; // Matches before offset/limit
+  groups?: Array<{ key: QueryValue; count: number }>;
+}
+
+// Entity history (undo/redo journal)
+export type EntityChangeSource = 'user' | 'agent' | 'system';
+
+export interface EntityChange {
+  entityId: string;
+  before?: BaseEntity; // Undefined when the change created the entity
+  after?: BaseEntity;  // Undefined when the change deleted the entity
+  category?: { category: string; key: string };
+}
+
+export interface EntityHistoryEntry {
+  id: string;
+  label?: string;
+  source: EntityChangeSource;
+  timestamp: Date;
+  changes: EntityChange[];
+}
+
+export interface EntityVersion<T extends BaseEntity = BaseEntity> {
+  version: number;
+  entity: T;
+  timestamp: Date;
+  source: EntityChangeSource;
+  label?: string;
+}
+
+// Optimistic updates and conflicts
+export interface PendingMutation {
+  id: string;
+  entityId: string;
+  baseVersion: number; // Version the local change was made against
+  before: BaseEntity;
+  updates: Record<string, any>;
+  createdAt: Date;
+}
+
+export interface EntityConflict<T extends BaseEntity = BaseEntity> {
+  id: string;
+  entityId: string;
+  local: T;  // What the store holds now
+  remote: T; // The stored entity with the rejected update applied
+  fields: string[]; // Fields on which the two differ
+  baseVersion?: number;
+  detectedAt: Date;
+}
+
+export type ConflictResolution<T extends BaseEntity = BaseEntity> = 'local' | 'remote' | { merged: Partial<T> };
+
+// Cross-tab sync
+export interface EntitySyncChange {
+  entityId: string;
+  entity?: BaseEntity; // Undefined when the entity was deleted
+  category?: { category: string; key: string };
+}
+
 export interface EntityStoreState {
   entities: Map<string, BaseEntity>;
   entityTypes: Map<string, EntityState>;
+  categories: Map<string, Map<string, string>>; // category -> key -> entity id
   subscriptions: Map<string, EntitySubscription>;
   loading: boolean;
   error: string | null;
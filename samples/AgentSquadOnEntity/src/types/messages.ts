@@ -0,0 +1,237 @@
+import { AuditFinding, AuditData, SubmissionMethod } from './entities';
+import { EntityQuery, EntityQueryResult } from './index';
+
+// Typed contracts for metadata messages sent by agents.
+// Runtime schemas for these live in middleware/MessageContractRegistry.
+
+export interface MetadataMessageBase {
+  messageType: string;
+  requestId?: string;
+  documentId?: string;
+  timestamp?: string;
+}
+
+// Document as sent by the Document Data Flow agent
+export interface RawDocument {
+  id?: string;
+  documentId?: string;
+  title?: string;
+  content?: any;
+  status?: 'draft' | 'pending_review' | 'approved' | 'rejected';
+  createdAt?: string;
+  updatedAt?: string;
+  version?: number;
+  metadata?: any;
+  principal?: {
+    userId: string;
+    fullName: string;
+    nationalId: string;
+    address: string;
+  };
+  scope?: string;
+  representatives?: Array<{
+    id: string;
+    fullName: string;
+    nationalId: string;
+    relationship: string;
+  }>;
+  conditions?: Array<{
+    id: string;
+    type: number;
+    text: string;
+    targetId?: string;
+    createdAt: string;
+    updatedAt?: string;
+  }>;
+  witnesses?: Array<{
+    id: string;
+    fullName: string;
+    nationalId: string;
+    relationship?: string;
+  }>;
+}
+
+export interface AuditResultPayload {
+  document?: RawDocument;
+  data?: Partial<AuditData>;
+  findings?: AuditFinding[];
+  isSuccess?: boolean;
+  hasErrors?: boolean;
+  hasWarnings?: boolean;
+  baseVersion?: number; // Version of the document the agent's update was based on
+}
+
+export interface DocumentResponseMessage extends MetadataMessageBase {
+  messageType: 'DocumentResponse';
+  requestId: string;
+  auditResult: AuditResultPayload;
+}
+
+export interface ActivityLogMessage extends MetadataMessageBase {
+  messageType: 'ActivityLog';
+  summary: string;
+  details?: string;
+  success?: boolean;
+  auditResult?: AuditResultPayload;
+}
+
+export interface EntityUpdateMessage {
+  type: 'ENTITY_UPDATE';
+  payload: {
+    action: 'ADD' | 'UPDATE' | 'DELETE' | 'CLEAR' | 'CONFIRM' | 'REJECT';
+    entity?: any;
+    entityId?: string;
+    entities?: any[];
+    category?: string;
+    key?: string;
+    baseVersion?: number; // Version the agent's UPDATE was based on
+    mutationId?: string; // Optimistic mutation settled by CONFIRM/REJECT
+  };
+}
+
+export interface UIUpdateMessage extends MetadataMessageBase {
+  messageType: 'UI_UPDATE';
+  data: Record<string, any>;
+}
+
+export interface ProgressMessage extends MetadataMessageBase {
+  messageType: 'PROGRESS' | 'PROGRESS_UPDATE';
+  data: {
+    percentage: number;
+    label?: string;
+  };
+}
+
+export interface FormUpdateMessage extends MetadataMessageBase {
+  messageType: 'FORM_UPDATE' | 'FIELD_UPDATE' | 'VALIDATION_UPDATE';
+  data: {
+    formId?: string;
+    field?: string;
+    value?: any;
+    errors?: string[];
+  };
+}
+
+export interface NotificationMessage extends MetadataMessageBase {
+  messageType: 'NOTIFICATION' | 'ALERT' | 'WARNING' | 'ERROR_NOTIFICATION';
+  data: {
+    message: string;
+    level?: 'info' | 'success' | 'warning' | 'error';
+    title?: string;
+  };
+}
+
+export interface StatusMessage extends MetadataMessageBase {
+  messageType: 'STATUS_UPDATE' | 'STATE_CHANGE' | 'WORKFLOW_STATUS';
+  data: {
+    status: string;
+    details?: string;
+  };
+}
+
+// Agent asking the UI for entities; answered with QueryEntitiesResult
+export interface QueryEntitiesMessage extends MetadataMessageBase {
+  messageType: 'QueryEntities';
+  requestId: string;
+  query: EntityQuery;
+}
+
+// Sent back to the asking agent
+export interface QueryEntitiesResultMessage extends MetadataMessageBase {
+  messageType: 'QueryEntitiesResult';
+  requestId: string;
+  result?: EntityQueryResult;
+  error?: string;
+}
+
+// Sent to the Condition Bot to replace the document's conditions; answered with an ActivityLog
+export interface UpdateConditionsMessage extends MetadataMessageBase {
+  messageType: 'UpdateConditions';
+  requestId: string;
+  documentId: string;
+  conditions: NonNullable<RawDocument['conditions']>;
+}
+
+// Sent to the Witness Bot after each witness change; answered with an ActivityLog
+export interface UpdateWitnessesMessage extends MetadataMessageBase {
+  messageType: 'UpdateWitnesses';
+  requestId: string;
+  documentId: string;
+  witnesses: NonNullable<RawDocument['witnesses']>;
+}
+
+// Sent to the Document Data Flow agent to save the scope and principal; answered with an ActivityLog
+export interface UpdateScopeMessage extends MetadataMessageBase {
+  messageType: 'UpdateScope';
+  requestId: string;
+  documentId: string;
+  scope: string;
+  principal: NonNullable<RawDocument['principal']>;
+}
+
+// Asks the Document Data Flow agent for scope wording; answered with a ScopeProposal
+export interface ProposeScopeMessage extends MetadataMessageBase {
+  messageType: 'ProposeScope';
+  requestId: string;
+  documentId: string;
+  scope: string;
+  instructions?: string;
+}
+
+export interface ScopeProposalMessage extends MetadataMessageBase {
+  messageType: 'ScopeProposal';
+  proposedScope: string;
+  rationale?: string;
+}
+
+// Asks the Document Data Flow agent for a final audit; answered with an ActivityLog carrying auditResult
+export interface AuditDocumentMessage extends MetadataMessageBase {
+  messageType: 'AuditDocument';
+  requestId: string;
+  documentId: string;
+}
+
+// Sent to the Document Data Flow agent once the audit has no errors; answered with a SubmissionResult.
+// PROGRESS and STATUS_UPDATE messages carrying the same requestId report progress meanwhile.
+export interface SubmitDocumentMessage extends MetadataMessageBase {
+  messageType: 'SubmitDocument';
+  requestId: string;
+  documentId: string;
+  submissionMethod: SubmissionMethod;
+  recipients: string[];
+  notes?: string;
+}
+
+export interface SubmissionResultMessage extends MetadataMessageBase {
+  messageType: 'SubmissionResult';
+  requestId: string;
+  success: boolean;
+  reference?: string;
+  submittedAt?: string;
+  error?: string;
+}
+
+// messageType -> contract
+export interface MetadataMessageMap {
+  DocumentResponse: DocumentResponseMessage;
+  ActivityLog: ActivityLogMessage;
+  ENTITY_UPDATE: EntityUpdateMessage;
+  UI_UPDATE: UIUpdateMessage;
+  PROGRESS: ProgressMessage;
+  PROGRESS_UPDATE: ProgressMessage;
+  FORM_UPDATE: FormUpdateMessage;
+  FIELD_UPDATE: FormUpdateMessage;
+  VALIDATION_UPDATE: FormUpdateMessage;
+  NOTIFICATION: NotificationMessage;
+  ALERT: NotificationMessage;
+  WARNING: NotificationMessage;
+  ERROR_NOTIFICATION: NotificationMessage;
+  STATUS_UPDATE: StatusMessage;
+  STATE_CHANGE: StatusMessage;
+  WORKFLOW_STATUS: StatusMessage;
+  QueryEntities: QueryEntitiesMessage;
+  ScopeProposal: ScopeProposalMessage;
+  SubmissionResult: SubmissionResultMessage;
+}
+
+export type KnownMessageType = keyof MetadataMessageMap;